@@ -48,11 +48,45 @@ function loadFixtures(): Cypress.Chainable<Fixtures> {
     )
 }
 
+type MockMagicLink = { email: string; token: string; code: string }
+
+// The most recent sign-in email the in-browser mock backend "sent".
+function lastMagicLink(win: Cypress.AUTWindow) {
+  const links = (win as unknown as { __complianceCopilotMockState: { magicLinks: MockMagicLink[] } })
+    .__complianceCopilotMockState.magicLinks
+  return links[links.length - 1]
+}
+
+// Makes the in-browser mock backend answer every call with 401.
+function expireMockSession(win: Cypress.AUTWindow) {
+  ;(win as unknown as { __complianceCopilotMockState: { sessionExpired?: boolean } }).__complianceCopilotMockState.sessionExpired = true
+}
+
 describe("Compliance Copilot flows", () => {
+  it("links dashboard tiles to filtered views", () => {
+    cy.visit("/")
+    cy.contains("Compliance overview").should("be.visible")
+    cy.contains("a", "Needs triage").click()
+    cy.location("search").should("contain", "status=PENDING_REVIEW")
+    cy.go("back")
+    cy.contains("a", "Overdue requirements").click()
+    cy.location("search").should("contain", "due=overdue")
+    cy.contains("Arc flash PPE review").should("exist")
+  })
+
+  it("server-renders in the browser's language", () => {
+    cy.clearCookie("cc-locale")
+    cy.request({ url: "/", headers: { "Accept-Language": "es-MX,es;q=0.9,en;q=0.8" } }).then((response) => {
+      expect(response.body).to.contain('<html lang="es"')
+      expect(response.body).to.contain("Resumen de cumplimiento")
+      expect(String(response.headers["set-cookie"])).to.contain("cc-locale=es")
+    })
+  })
+
   it("renders recent document uploads", () => {
     loadFixtures().then((fixtures) => {
       cy.visit("/documents")
-      cy.contains("Recent uploads").should("be.visible")
+      cy.contains("Document library").should("be.visible")
       const documents = fixtures.documents.items as Array<{ name: string }>;
       documents.forEach((item) => {
         cy.contains(item.name).should("exist")
@@ -60,6 +94,159 @@ describe("Compliance Copilot flows", () => {
     })
   })
 
+  it("searches the document library and keeps the query in the URL", () => {
+    cy.visit("/documents")
+    cy.get('input[type="search"]').type("arc flash")
+    cy.location("search").should("contain", "q=arc+flash")
+    cy.contains("Arc Flash Policy.pdf").should("exist")
+    cy.contains("Lockout Tagout SOP.pdf").should("not.exist")
+
+    cy.reload()
+    cy.get('input[type="search"]').should("have.value", "arc flash")
+    cy.contains("Lockout Tagout SOP.pdf").should("not.exist")
+  })
+
+  it("uploads several PDFs through the queue and keeps it across a reload", () => {
+    const pdf = (fileName: string) => ({
+      contents: Cypress.Buffer.from("%PDF-1.4\n%%EOF\n"),
+      fileName,
+      mimeType: "application/pdf",
+    })
+    cy.visit("/documents")
+    cy.get('[data-testid="upload-dropzone"] input[type="file"]').selectFile(
+      [pdf("Crane Inspection.pdf"), pdf("Forklift Policy.pdf")],
+      { force: true },
+    )
+    cy.get('[aria-label="Trade for Forklift Policy.pdf"]').select("mechanical")
+    cy.contains("button", "Upload 2 files").click()
+    cy.get('[data-upload-status="processing"]').should("have.length", 2)
+
+    cy.reload()
+    cy.contains("Crane Inspection.pdf").should("exist")
+    cy.get('[data-upload-status="ready"]', { timeout: 20000 }).should("have.length", 2)
+    cy.contains("table", "Forklift Policy.pdf").should("exist")
+  })
+
+  it("opens a document and moves it to another classification", () => {
+    cy.visit("/documents")
+    cy.contains("a", "Lockout Tagout SOP.pdf").click()
+    cy.location("pathname").should("eq", "/documents/doc-1")
+    cy.contains("Extracted requirements").should("be.visible")
+    cy.contains("a", "Monthly lift inspection").should("have.attr", "href", "/requirements/req-1")
+
+    cy.on("window:confirm", (message) => {
+      expect(message).to.contain("Move “Lockout Tagout SOP.pdf” to Permit?")
+      return true
+    })
+    cy.contains("label", "Permit").click()
+    cy.contains("button", "Move to Permit").click()
+    cy.contains("Moved to Permit").should("exist")
+  })
+
+  it("highlights the source passage of an extracted requirement", () => {
+    cy.visit("/requirements/req-4")
+    cy.contains("Source document").should("be.visible")
+    cy.contains("Extracted passage highlighted on page 11.", { timeout: 20000 }).should("exist")
+    cy.get('[data-testid="pdf-source-viewer"] [data-source-highlight]').should("have.length.greaterThan", 0)
+  })
+
+  it("shows server validation errors next to the field", () => {
+    cy.visit("/requirements/req-1")
+    cy.get('input[type="date"]').first().clear().type("2020-01-01")
+    cy.contains("button", "Save").click()
+    cy.get("#requirement-dueDate-error").should("contain", "Must be at least")
+    cy.get('input[type="date"]').first().should("have.attr", "aria-invalid", "true").clear()
+    cy.get("#requirement-dueDate-error").should("not.exist")
+  })
+
+  it("sends an expired session to login with the page to return to", () => {
+    cy.visit("/requirements?due=overdue")
+    cy.contains("tr", "Arc flash PPE review").should("exist")
+    cy.window().then(expireMockSession)
+    cy.contains("tr", "Arc flash PPE review").find('button[aria-label="Complete"]').click()
+    cy.location("pathname").should("eq", "/login")
+    cy.location("search").should("eq", "?next=%2Frequirements%3Fdue%3Doverdue")
+  })
+
+  it("warns before an expired session discards unsaved edits", () => {
+    cy.visit("/requirements/req-1")
+    cy.get('input[type="date"]').first().clear().type("2030-01-01")
+    cy.window().then(expireMockSession)
+    cy.contains("button", "Save").click()
+    cy.get('[data-testid="session-expired-dialog"]').should("contain", "unsaved changes")
+    cy.location("pathname").should("eq", "/requirements/req-1")
+    cy.contains("button", "Discard changes and sign in").click()
+    cy.location("pathname").should("eq", "/login")
+    cy.location("search").should("eq", "?next=%2Frequirements%2Freq-1")
+  })
+
+  it("manages sessions from the account page", () => {
+    cy.visit("/")
+    cy.get('button[aria-label="Account menu"]').click()
+    cy.contains('[role="menuitem"]', "Account settings").click()
+    cy.location("pathname").should("eq", "/account")
+    cy.get('[data-testid="account-email"]').should("contain", "dispatcher@example.com")
+    cy.get('[data-testid="account-locale"]').should("contain", "English")
+    cy.get('[data-testid="account-sessions"] li').should("have.length", 3).first().should("contain", "This device")
+
+    cy.get('button[aria-label="Sign out of Safari on iPhone"]').click()
+    cy.contains("Signed out of Safari on iPhone").should("exist")
+    cy.get('[data-testid="account-sessions"] li').should("have.length", 2)
+
+    cy.on("window:confirm", () => true)
+    cy.contains("button", "Sign out everywhere").click()
+    cy.location("pathname").should("eq", "/login")
+  })
+
+  it("switches organization and remembers the choice", () => {
+    cy.visit("/requirements/req-1")
+    cy.get('select[aria-label="Switch organization"]').select("Summit Mechanical")
+    cy.location("pathname").should("eq", "/requirements")
+    cy.contains("No compliance requirements to show.").should("exist")
+    cy.contains("Arc flash PPE review").should("not.exist")
+
+    cy.reload()
+    cy.get('select[aria-label="Switch organization"]').should("have.value", "org-456")
+    cy.contains("No compliance requirements to show.").should("exist")
+
+    cy.get('select[aria-label="Switch organization"]').select("Brightline Electric")
+    cy.contains("tr", "Arc flash PPE review").should("exist")
+  })
+
+  it("signs in with the emailed code when the link does not work", () => {
+    cy.visit("/login?next=%2Fpermits")
+    cy.get("#login-email").type("dispatcher@example.com")
+    cy.contains("button", "Send sign-in link").click()
+    cy.contains("We sent a sign-in link to dispatcher@example.com").should("exist")
+    cy.contains("button", /Resend link in \d+s/).should("be.disabled")
+
+    cy.window().then(lastMagicLink).then(({ code }) => {
+      const wrongCode = code.replace(/^./, (digit) => String((Number(digit) + 1) % 10))
+      cy.get("#login-code").type(wrongCode)
+      cy.contains("button", /^Sign in$/).click()
+      cy.get("#login-code-error").should("contain", "That code is not correct")
+
+      cy.get("#login-code").clear().type(code)
+      cy.contains("button", /^Sign in$/).click()
+      cy.location("pathname").should("eq", "/permits")
+    })
+  })
+
+  it("explains a sign-in link that was already used, in the user's language", () => {
+    cy.visit("/login")
+    cy.get("#login-email").type("dispatcher@example.com")
+    cy.contains("button", "Send sign-in link").click()
+    cy.window().then(lastMagicLink).then(({ token }) => {
+      cy.visit(`/auth/callback?token=${token}`)
+      cy.location("pathname").should("eq", "/")
+
+      cy.setCookie("cc-locale", "es")
+      cy.visit(`/auth/callback?token=${token}`)
+      cy.get('[data-auth-status="expired"]').should("contain", "Este enlace expiró o ya se usó")
+      cy.contains("a", "Volver a iniciar sesión").should("have.attr", "href", "/login")
+    })
+  })
+
   it("filters and completes a requirement", () => {
     cy.visit("/requirements")
     cy.get("table tbody tr").should("have.length.greaterThan", 0)
@@ -71,27 +258,178 @@ describe("Compliance Copilot flows", () => {
     cy.contains("Requirement marked complete").should("exist")
   })
 
-  it("shows permit reminders", () => {
+  it("searches and sorts requirements and keeps both in the URL", () => {
+    cy.visit("/requirements")
+    cy.get('input[type="search"]').type("elevador")
+    cy.location("search").should("contain", "q=elevador")
+    cy.get("table tbody tr").should("have.length", 1)
+    cy.contains("Monthly lift inspection").should("exist")
+
+    cy.get('input[type="search"]').clear()
+    cy.location("search").should("not.contain", "q=")
+    cy.get('button[aria-label="Sort by Due"]').click()
+    cy.location("search").should("contain", "sort=due_date").and("contain", "order=asc")
+    cy.get("table tbody tr").first().should("contain", "Arc flash PPE review")
+
+    cy.get('button[aria-label="Due, sorted ascending"]').click()
+    cy.location("search").should("contain", "order=desc")
+    cy.get("table tbody tr").first().should("contain", "Ground or double-insulate electric tools")
+
+    cy.reload()
+    cy.get('button[aria-label="Due, sorted descending"]').should("exist")
+    cy.get("table tbody tr").last().should("contain", "Inspect and ring-test abrasive wheels")
+  })
+
+  it("saves a default view and applies shared ones", () => {
+    cy.visit("/requirements")
+    cy.get('input[type="search"]').type("arc")
+    cy.location("search").should("contain", "q=arc")
+    cy.contains("button", "Save view").click()
+    cy.get("#saved-view-name").type("Arc flash")
+    cy.contains("label", "Open the list with this view").find("input").check()
+    cy.contains("button", /^Save$/).click()
+    cy.contains("View saved").should("exist")
+    cy.get('select[aria-label="Saved views"]').find("option:selected").should("have.text", "Arc flash (default)")
+
+    cy.visit("/requirements")
+    cy.location("search").should("contain", "q=arc")
+    cy.get('input[type="search"]').should("have.value", "arc")
+
+    cy.get('input[type="search"]').clear()
+    cy.location("search").should("not.contain", "q=")
+    cy.get('select[aria-label="Saved views"]').select("Overdue")
+    cy.location("search").should("contain", "due=overdue")
+    cy.contains("button", "Delete view").should("not.exist")
+  })
+
+  it("filters by source document and groups with overdue counts", () => {
+    cy.visit("/requirements")
+    cy.contains("button", "Filters").click()
+    cy.contains("label", "OSHA 3080 Hand and Power Tools.pdf").should("contain", "2").find("input").check()
+    cy.contains("button", "Apply").click()
+    cy.location("search").should("contain", "document_id=")
+    cy.get("table tbody tr").should("have.length", 2)
+
+    cy.contains("label", "Group by").find("select").select("Category")
+    cy.location("search").should("contain", "group=category")
+    cy.get('[data-testid="requirement-groups"] section').should("have.length", 2)
+    cy.contains("button", "Equipment").should("have.attr", "aria-expanded", "true").click()
+    cy.contains("button", "Equipment").should("have.attr", "aria-expanded", "false")
+    cy.contains("Inspect and ring-test abrasive wheels").should("not.exist")
+
+    cy.visit("/requirements?group=document")
+    cy.contains("button", "Arc Flash Policy.pdf").should("contain", "1 overdue")
+  })
+
+  it("filters to my assignments and replaces a deactivated assignee", () => {
+    cy.visit("/requirements")
+    cy.contains("tr", "Monthly lift inspection").should("contain", "Luis Ortega").and("contain", "Deactivated")
+    cy.contains("button", "Assigned to me").click().should("have.attr", "aria-pressed", "true")
+    cy.location("search").should("contain", "assignee=me")
+    cy.get("table tbody tr").should("have.length", 1).and("contain", "Arc flash PPE review")
+
+    cy.visit("/requirements/req-1")
+    cy.contains("Luis Ortega was deactivated. Choose a new assignee.").should("exist")
+    cy.get("#requirement-assignee").type("luis")
+    cy.contains('[role="option"]', "Luis Ortega").should("not.exist")
+    cy.get("#requirement-assignee").clear().type("sam")
+    cy.contains('[role="option"]', "Sam Rivera").click()
+    cy.get("#requirement-assignee").should("have.value", "tech@example.com")
+    cy.contains("button", "Save").click()
+    cy.location("pathname").should("eq", "/requirements")
+    cy.contains("tr", "Monthly lift inspection").should("contain", "Sam Rivera").and("not.contain", "Deactivated")
+  })
+
+  it("rolls back an optimistic completion the server rejects", () => {
+    cy.visit("/requirements")
+    cy.contains("tr", "Arc flash PPE review").invoke("text").then((before) => {
+      // Drop the requirement from the in-browser mock backend so completing it 404s.
+      cy.window().then((win) => {
+        const state = (win as unknown as { __complianceCopilotMockState: { requirements: Array<{ title_en: string }> } })
+          .__complianceCopilotMockState
+        state.requirements = state.requirements.filter((item) => item.title_en !== "Arc flash PPE review")
+      })
+      cy.contains("tr", "Arc flash PPE review").find('button[aria-label="Complete"]').click()
+      cy.contains("Requirement not found").should("exist")
+      cy.contains("tr", "Arc flash PPE review").invoke("text").should("eq", before)
+    })
+  })
+
+  it("shows a teammate's change as soon as it is pushed", () => {
+    type MockWindow = {
+      __complianceCopilotMockState: { requirements: Array<{ id: string; title_en: string }> }
+      __complianceCopilotMockEvents: { emit: (event: { type: string; id: string }) => void }
+    }
+
+    cy.visit("/requirements")
+    cy.contains("tr", "Arc flash PPE review").should("exist")
+    cy.window().then((win) => {
+      const mock = win as unknown as MockWindow
+      const requirement = mock.__complianceCopilotMockState.requirements.find(
+        (item) => item.title_en === "Arc flash PPE review",
+      )
+      if (!requirement) throw new Error("Seed requirement missing")
+      requirement.title_en = "Arc flash PPE review (revised)"
+      mock.__complianceCopilotMockEvents.emit({ type: "requirement.updated", id: requirement.id })
+    })
+    cy.contains("tr", "Arc flash PPE review (revised)").should("exist")
+  })
+
+  it("queues a completion while offline and syncs it on reconnect", () => {
+    const setOnline = (online: boolean) =>
+      cy.window().then((win) => {
+        Object.defineProperty(win.navigator, "onLine", { configurable: true, get: () => online })
+        win.dispatchEvent(new win.Event(online ? "online" : "offline"))
+      })
+
+    cy.visit("/requirements")
+    cy.contains("tr", "Arc flash PPE review").should("exist")
+    setOnline(false)
+    cy.contains("You're offline").should("be.visible")
+    cy.contains("tr", "Arc flash PPE review").find('button[aria-label="Complete"]').click()
+    cy.contains("Saved offline").should("exist")
+    cy.contains("tr", "Arc flash PPE review").should("contain", "Pending sync")
+
+    setOnline(true)
+    cy.contains("Synced 1 offline change").should("exist")
+    cy.contains("tr", "Arc flash PPE review").should("not.contain", "Pending sync")
+  })
+
+  it("schedules and cancels permit reminders", () => {
     loadFixtures().then((fixtures) => {
+      // Fixture permits expire in early 2024; freeze the date before then so
+      // every default lead time is still in the future.
+      cy.clock(Date.UTC(2023, 11, 1), ["Date"])
       cy.visit("/permits")
       cy.get("table tbody tr").should("have.length.greaterThan", 0)
       const permits = fixtures.permits as Array<{ name: string }>;
       cy.contains(permits[0].name).should("exist")
       cy.get('button[aria-label="Remind"]').first().click()
-      cy.get('body').should('have.attr', 'data-last-toast-message', 'Review renewal before expiration')
+      cy.get('[role="dialog"]').within(() => {
+        cy.contains("No reminders scheduled yet.").should("exist")
+        cy.contains("button", "Schedule reminders").click()
+      })
+      cy.get('body').should('have.attr', 'data-last-toast-message', '3 reminders scheduled')
       cy.get('body').invoke('removeAttr', 'data-last-toast-message')
+      cy.get('[role="dialog"]').within(() => {
+        cy.contains("30 days before").should("exist")
+        cy.contains("button", "Cancel").first().click()
+      })
+      cy.contains("Reminder cancelled").should("exist")
     })
   })
 
-  it("shows training renewal notices", () => {
+  it("opens training renewal reminders", () => {
     loadFixtures().then((fixtures) => {
       cy.visit("/training")
       cy.get("table tbody tr").should("have.length.greaterThan", 0)
       const training = fixtures.training as Array<{ worker_name: string }>;
       cy.contains(training[0].worker_name).should("exist")
       cy.get('button[aria-label="Remind"]').first().click()
-      cy.get('body').should('have.attr', 'data-last-toast-message', 'Renewal reminder added')
-      cy.get('body').invoke('removeAttr', 'data-last-toast-message')
+      cy.get('[role="dialog"]').should("contain", training[0].worker_name)
+      cy.get('[role="dialog"]').within(() => {
+        cy.get('input[type="text"]').should("have.value", fixtures.auth.user.email as string)
+      })
     })
   })
 })
@@ -0,0 +1,33 @@
+describe("Mock store", () => {
+  beforeEach(() => {
+    cy.clearAllSessionStorage()
+  })
+
+  it("rolls a recurring requirement forward when it is completed", () => {
+    cy.visit("/requirements")
+    cy.contains("tr", "Monthly lift inspection").should("contain", "Jan 20, 2024")
+    cy.contains("tr", "Monthly lift inspection").within(() => {
+      cy.get('button[aria-label="Complete"]').click()
+    })
+    cy.contains("Requirement marked complete").should("exist")
+
+    cy.reload()
+    cy.contains("tr", "Monthly lift inspection").should("not.contain", "Jan 20, 2024")
+    cy.contains("tr", "Monthly lift inspection").should("not.contain", "Overdue")
+  })
+
+  it("archives and restores a requirement", () => {
+    cy.visit("/requirements")
+    cy.window().then((win) => {
+      cy.stub(win, "prompt").returns("Duplicate of another requirement")
+    })
+    cy.contains("tr", "Annual OSHA 300 posting").within(() => {
+      cy.get('button[aria-label="Archive requirement"]').click()
+    })
+    cy.contains("Requirement archived").should("exist")
+    cy.contains("Annual OSHA 300 posting").should("not.exist")
+
+    cy.visit("/requirements?archived=true")
+    cy.contains("Annual OSHA 300 posting").should("exist")
+  })
+})
@@ -0,0 +1,197 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { toast } from "sonner"
+
+import { AppShell } from "@/components/layout/app-shell"
+import { LanguageToggle } from "@/components/language-toggle"
+import { useLocale } from "@/components/locale-provider"
+import { useOrg } from "@/components/org-provider"
+import { Badge } from "@/components/ui/badge"
+import { ApiError } from "@/lib/api/client"
+import { SESSIONS_PATH, revokeSession, signOutEverywhere, type DeviceSession } from "@/lib/account"
+import { formatDateTime } from "@/lib/dates"
+import { normalizeLocale } from "@/lib/locale"
+import { useApiData } from "@/hooks/useApiData"
+import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
+import { usePersistedLocale } from "@/hooks/usePersistedLocale"
+
+type AccountClientProps = {
+  initialProfile?: AuthMeResponse | null
+  initialSessions?: DeviceSession[] | null
+}
+
+export function AccountClient({ initialProfile, initialSessions }: AccountClientProps) {
+  const { locale } = useLocale()
+  const { t } = useTranslation()
+  const { orgId } = useOrg()
+  const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [isSigningOut, setIsSigningOut] = useState(false)
+
+  const { data: profile, isLoading: profileLoading } = useAuthedProfile(initialProfile)
+
+  const {
+    data: sessions,
+    error: sessionsError,
+    isLoading: sessionsLoading,
+    mutate: mutateSessions,
+  } = useApiData<DeviceSession[]>(SESSIONS_PATH, undefined, {
+    fallbackData: initialSessions ?? undefined,
+  })
+
+  useEffect(() => {
+    if (sessionsError && !(sessionsError instanceof ApiError && sessionsError.status === 401)) {
+      toast.error(t("toasts.loadError"))
+    }
+  }, [sessionsError, t])
+
+  // This browser first, then the most recently active.
+  const sortedSessions = [...(sessions ?? [])].sort(
+    (a, b) => Number(b.current) - Number(a.current) || b.last_seen_at.localeCompare(a.last_seen_at),
+  )
+
+  const handleRevoke = async (session: DeviceSession) => {
+    setRevokingId(session.id)
+    try {
+      await revokeSession(session.id, orgId)
+      await mutateSessions((current) => current?.filter((item) => item.id !== session.id), { revalidate: false })
+      toast.success(t("account.sessionRevoked", { device: session.device, defaultValue: "Signed out of {{device}}" }))
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return
+      toast.error(error instanceof ApiError ? error.message : t("app.error"))
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleSignOutEverywhere = async () => {
+    if (
+      !window.confirm(
+        t("account.confirmSignOutEverywhere", {
+          defaultValue: "Sign out on every device, including this one?",
+        }),
+      )
+    ) {
+      return
+    }
+    setIsSigningOut(true)
+    try {
+      await signOutEverywhere()
+    } catch {
+      toast.error(t("account.signOutFailed", { defaultValue: "Could not sign out. Try again." }))
+      setIsSigningOut(false)
+    }
+  }
+
+  const preferredLocale = profile?.user.preferred_locale
+  const preferredLanguage = preferredLocale
+    ? normalizeLocale(preferredLocale) === "es"
+      ? t("app.spanish")
+      : t("app.english")
+    : "—"
+
+  return (
+    <AppShell
+      title={t("account.title", { defaultValue: "Account" })}
+      description={profile?.org?.name ?? ""}
+      actions={<LanguageToggle onPersist={(next) => persistLocale(next)} isSaving={isSavingLocale || profileLoading} />}
+    >
+      <div className="space-y-6">
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h3 className="text-base font-semibold text-slate-900">
+            {t("account.profile", { defaultValue: "Profile" })}
+          </h3>
+          <dl className="mt-4 grid gap-4 text-sm sm:grid-cols-3">
+            <div>
+              <dt className="text-slate-500">{t("account.email", { defaultValue: "Email" })}</dt>
+              <dd className="mt-1 font-medium text-slate-900" data-testid="account-email">
+                {profile?.user.email ?? "—"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-slate-500">{t("account.preferredLanguage", { defaultValue: "Preferred language" })}</dt>
+              <dd className="mt-1 font-medium text-slate-900" data-testid="account-locale">
+                {preferredLanguage}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-slate-500">{t("account.organization", { defaultValue: "Organization" })}</dt>
+              <dd className="mt-1 font-medium text-slate-900">{profile?.org.name ?? "—"}</dd>
+            </div>
+          </dl>
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h3 className="text-base font-semibold text-slate-900">
+                {t("account.sessions", { defaultValue: "Active sessions" })}
+              </h3>
+              <p className="mt-1 text-sm text-slate-600">
+                {t("account.sessionsHint", {
+                  defaultValue: "Devices signed in to your account. Sign out of any you don't recognize.",
+                })}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleSignOutEverywhere}
+              disabled={isSigningOut}
+              className="rounded border border-red-200 px-3 py-1.5 text-sm font-medium text-red-700 transition hover:bg-red-50 disabled:opacity-60"
+            >
+              {t("account.signOutEverywhere", { defaultValue: "Sign out everywhere" })}
+            </button>
+          </div>
+
+          {sessionsLoading && sortedSessions.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-500">{t("app.loading")}</p>
+          ) : sortedSessions.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-500">
+              {t("account.noSessions", { defaultValue: "No other sessions." })}
+            </p>
+          ) : (
+            <ul className="mt-4 divide-y divide-slate-100" data-testid="account-sessions">
+              {sortedSessions.map((session) => (
+                <li key={session.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div className="space-y-1">
+                    <p className="flex items-center gap-2 font-medium text-slate-900">
+                      {session.device}
+                      {session.current && (
+                        <Badge variant="success">{t("account.thisDevice", { defaultValue: "This device" })}</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {[session.location, session.ip_address].filter(Boolean).join(" · ") || "—"}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      {t("account.lastActive", {
+                        date: formatDateTime(session.last_seen_at, locale),
+                        defaultValue: "Last active {{date}}",
+                      })}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(session)}
+                      disabled={revokingId === session.id}
+                      aria-label={t("account.revokeSession", {
+                        device: session.device,
+                        defaultValue: "Sign out of {{device}}",
+                      })}
+                      className="rounded border border-[color:var(--border)] px-3 py-1.5 text-sm font-medium text-slate-600 transition hover:bg-slate-100 disabled:opacity-60"
+                    >
+                      {t("account.signOut", { defaultValue: "Sign out" })}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </AppShell>
+  )
+}
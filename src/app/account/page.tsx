@@ -0,0 +1,13 @@
+import { AccountClient } from "@/app/account/account-client"
+import { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import type { DeviceSession } from "@/lib/account"
+import { serverApiFetch, serverPrefetch } from "@/lib/api/server"
+
+export default async function AccountPage() {
+  const [profile, sessions] = await Promise.all([
+    serverPrefetch("account", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch("account", () => serverApiFetch<DeviceSession[]>("/auth/sessions")),
+  ])
+
+  return <AccountClient initialProfile={profile} initialSessions={sessions} />
+}
@@ -1,55 +1,98 @@
 "use client"
-import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useCallback, useEffect, useRef, useState } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
+import { useTranslation } from "react-i18next"
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000"
+import { redeemMagicLink, signInProblem, type SignInProblem } from "@/lib/auth"
+import { LOGIN_PATH, safeRedirectPath } from "@/lib/session"
+
+type Status = "verifying" | SignInProblem
 
 export default function AuthCallbackPage() {
+  const { t } = useTranslation()
   const router = useRouter()
   const searchParams = useSearchParams()
-  const [status, setStatus] = useState<"loading" | "error">("loading")
-  const [message, setMessage] = useState("Signing you in...")
-
-  useEffect(() => {
-    const token = searchParams.get("token")
-    if (!token) {
-      setStatus("error")
-      setMessage("Missing token. Please request a new magic link.")
-      return
-    }
+  const token = searchParams.get("token")
+  const [status, setStatus] = useState<Status>(token ? "verifying" : "invalid")
+  // A link works once; redeeming it twice (Strict Mode, a re-render) would report it as used.
+  const redeemed = useRef<string | null>(null)
 
-    const redeem = async () => {
+  const redeem = useCallback(
+    async (value: string) => {
+      setStatus("verifying")
       try {
-        const response = await fetch(`${API_URL}/auth/callback?token=${encodeURIComponent(token)}`, {
-          credentials: "include",
-        })
-        if (!response.ok) {
-          const payload = await response.json().catch(() => ({ detail: "Login failed" }))
-          throw new Error(payload.detail ?? "Login failed")
-        }
-        const data = await response.json()
-        const destination = data.redirect_path || "/documents"
-        router.replace(destination)
-      } catch (err) {
-        setStatus("error")
-        setMessage(err instanceof Error ? err.message : "Unable to complete login")
+        const data = await redeemMagicLink(value)
+        // The path round-trips through the email link; never follow it off-site.
+        router.replace(safeRedirectPath(data.redirect_path))
+      } catch (error) {
+        setStatus(signInProblem(error))
       }
-    }
+    },
+    [router],
+  )
+
+  useEffect(() => {
+    if (!token || redeemed.current === token) return
+    redeemed.current = token
+    void redeem(token)
+  }, [redeem, token])
 
-    redeem()
-  }, [router, searchParams])
+  const messages: Record<Status, { title: string; body: string }> = {
+    verifying: {
+      title: t("auth.verifying", { defaultValue: "Signing you in…" }),
+      body: "",
+    },
+    expired: {
+      title: t("auth.expiredTitle", { defaultValue: "This link has expired or was already used" }),
+      body: t("auth.expiredBody", {
+        defaultValue:
+          "Sign-in links work once and only for a short time. Request a new one, or enter the code from the latest email on the login page.",
+      }),
+    },
+    invalid: {
+      title: t("auth.invalidTitle", { defaultValue: "This link doesn't work" }),
+      body: t("auth.invalidBody", {
+        defaultValue:
+          "Some mail apps change links. Enter the code from the same email on the login page, or request a new link.",
+      }),
+    },
+    unavailable: {
+      title: t("auth.unavailableTitle", { defaultValue: "We couldn't sign you in" }),
+      body: t("auth.unavailableBody", { defaultValue: "Check your connection and try again." }),
+    },
+  }
+  const message = messages[status]
 
   return (
-    <div className="flex min-h-screen items-center justify-center bg-slate-50">
-      <div className="rounded-lg bg-white p-8 shadow">
-        <p className="text-sm text-slate-700">{message}</p>
-        {status === "error" && (
-          <button
-            className="mt-4 rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
-            onClick={() => router.replace("/login")}
-          >
-            Back to login
-          </button>
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 p-6">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow" data-auth-status={status}>
+        <h1 className="text-lg font-semibold text-slate-900" role={status === "verifying" ? "status" : "alert"}>
+          {message.title}
+        </h1>
+        {message.body && <p className="mt-2 text-sm text-slate-600">{message.body}</p>}
+        {status !== "verifying" && (
+          <div className="mt-6 flex flex-wrap gap-2">
+            {status === "unavailable" && token && (
+              <button
+                type="button"
+                onClick={() => void redeem(token)}
+                className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
+              >
+                {t("app.retry")}
+              </button>
+            )}
+            <Link
+              href={LOGIN_PATH}
+              className={
+                status === "unavailable"
+                  ? "rounded border border-slate-300 px-4 py-2 text-slate-700 hover:bg-slate-100"
+                  : "rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
+              }
+            >
+              {t("auth.backToLogin", { defaultValue: "Back to sign in" })}
+            </Link>
+          </div>
         )}
       </div>
     </div>
@@ -0,0 +1,481 @@
+"use client"
+
+import { MouseEvent, useCallback, useEffect, useMemo } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import clsx from "clsx"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import type { Permit } from "@/app/permits/permits-client"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import { AppShell } from "@/components/layout/app-shell"
+import { LanguageToggle } from "@/components/language-toggle"
+import { useLocale } from "@/components/locale-provider"
+import { ApiError } from "@/lib/api/client"
+import {
+  CALENDAR_REQUIREMENT_LIMIT,
+  addDays,
+  addMonths,
+  buildCalendarItems,
+  fromDayKey,
+  groupByDay,
+  monthGrid,
+  startOfMonth,
+  toDayKey,
+  weekDays,
+  type CalendarItem,
+  type CalendarItemKind,
+  type CalendarTone,
+} from "@/lib/calendar"
+import { USE_MOCKS } from "@/lib/env"
+import type { Locale } from "@/lib/i18n"
+import { buildIcsCalendar } from "@/lib/ics"
+import { useApiData } from "@/hooks/useApiData"
+import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
+import { usePersistedLocale } from "@/hooks/usePersistedLocale"
+
+type CalendarView = "month" | "week" | "agenda"
+
+const VIEWS: CalendarView[] = ["month", "week", "agenda"]
+
+const AGENDA_DAYS = 60
+const MONTH_CELL_LIMIT = 3
+
+const TONE_CLASSES: Record<CalendarTone, string> = {
+  overdue: "border-red-200 bg-[color:var(--badge-danger-bg)] text-red-700",
+  soon: "border-amber-200 bg-[color:var(--badge-warning-bg)] text-amber-700",
+  upcoming: "border-[color:var(--border)] bg-[color:var(--surface-muted)] text-[color:var(--foreground)]",
+  done: "border-green-200 bg-[color:var(--badge-success-bg)] text-green-700",
+}
+
+const KIND_DOT: Record<CalendarItemKind, string> = {
+  requirement: "bg-blue-600",
+  permit: "bg-violet-600",
+  training: "bg-teal-600",
+}
+
+const TONE_LABELS: Record<CalendarTone, { key: string; defaultLabel: string }> = {
+  overdue: { key: "statuses.overdue", defaultLabel: "Overdue" },
+  soon: { key: "statuses.expiringSoon", defaultLabel: "Expiring soon" },
+  upcoming: { key: "calendar.tones.upcoming", defaultLabel: "Upcoming" },
+  done: { key: "statuses.completed", defaultLabel: "Completed" },
+}
+
+const parseView = (value: string | null): CalendarView =>
+  value && (VIEWS as string[]).includes(value) ? (value as CalendarView) : "month"
+
+const parseAnchor = (value: string | null): Date => {
+  if (value && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const parsed = fromDayKey(value)
+    if (!Number.isNaN(parsed.getTime())) return parsed
+  }
+  return fromDayKey(toDayKey(new Date()))
+}
+
+const intlLocale = (locale: Locale) => (locale === "es" ? "es-MX" : "en-US")
+
+type CalendarClientProps = {
+  initialProfile?: AuthMeResponse | null
+  initialRequirements?: RequirementsResponse | null
+  initialPermits?: Permit[] | null
+  initialTraining?: TrainingCert[] | null
+}
+
+export function CalendarClient({
+  initialProfile,
+  initialRequirements,
+  initialPermits,
+  initialTraining,
+}: CalendarClientProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { locale } = useLocale()
+  const { t } = useTranslation()
+  const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
+
+  const { data: profile, isLoading: profileLoading } = useAuthedProfile(initialProfile)
+
+  const { data: requirements, error: requirementsError } = useApiData<RequirementsResponse>(
+    "/requirements",
+    { limit: CALENDAR_REQUIREMENT_LIMIT },
+    { refreshInterval: 120_000, fallbackData: initialRequirements ?? undefined, allPages: true },
+  )
+  const { data: permits, error: permitsError } = useApiData<Permit[]>("/permits", undefined, {
+    refreshInterval: 180_000,
+    fallbackData: initialPermits ?? undefined,
+  })
+  const { data: training, error: trainingError } = useApiData<TrainingCert[]>("/training", undefined, {
+    refreshInterval: 180_000,
+    fallbackData: initialTraining ?? undefined,
+  })
+
+  useEffect(() => {
+    const error = requirementsError ?? permitsError ?? trainingError
+    if (error && !(error instanceof ApiError && error.status === 401)) {
+      toast.error(t("toasts.loadError"))
+    }
+  }, [permitsError, requirementsError, trainingError, t])
+
+  const view = parseView(searchParams?.get("view") ?? null)
+  const anchor = useMemo(() => parseAnchor(searchParams?.get("date") ?? null), [searchParams])
+  const todayKey = toDayKey(new Date())
+
+  const visibleDays = useMemo(() => {
+    if (view === "month") return monthGrid(anchor, locale).flat()
+    if (view === "week") return weekDays(anchor, locale)
+    return Array.from({ length: AGENDA_DAYS }, (_, index) => addDays(anchor, index))
+  }, [anchor, locale, view])
+
+  const rangeEnd = toDayKey(visibleDays[visibleDays.length - 1])
+
+  const items = useMemo(
+    () =>
+      buildCalendarItems({
+        requirements: requirements?.items,
+        permits,
+        training,
+        locale,
+        projectUntil: rangeEnd,
+      }),
+    [locale, permits, rangeEnd, requirements?.items, training],
+  )
+  const itemsByDay = useMemo(() => groupByDay(items), [items])
+
+  const updateQuery = useCallback(
+    (next: { view?: CalendarView; date?: Date }) => {
+      const params = new URLSearchParams(searchParams ? searchParams.toString() : "")
+      if (next.view) {
+        if (next.view === "month") {
+          params.delete("view")
+        } else {
+          params.set("view", next.view)
+        }
+      }
+      if (next.date) {
+        const key = toDayKey(next.date)
+        if (key === todayKey) {
+          params.delete("date")
+        } else {
+          params.set("date", key)
+        }
+      }
+      const queryString = params.toString()
+      router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
+    },
+    [pathname, router, searchParams, todayKey],
+  )
+
+  // The export route reads the server's copy of the mock store, so mock mode builds the file from what this page loaded.
+  const exportInBrowser = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (!USE_MOCKS) return
+    event.preventDefault()
+    const body = buildIcsCalendar({
+      requirements: requirements?.items,
+      permits,
+      training,
+      locale,
+      orgName: profile?.org?.name,
+      baseUrl: window.location.origin,
+      component: "event",
+    })
+    const url = URL.createObjectURL(new Blob([body], { type: "text/calendar;charset=utf-8" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "compliance-calendar.ics"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    if (view === "month") {
+      updateQuery({ date: addMonths(startOfMonth(anchor), direction) })
+    } else if (view === "week") {
+      updateQuery({ date: addDays(anchor, direction * 7) })
+    } else {
+      updateQuery({ date: addDays(anchor, direction * AGENDA_DAYS) })
+    }
+  }
+
+  const periodLabel = useMemo(() => {
+    if (view === "month") {
+      return new Intl.DateTimeFormat(intlLocale(locale), { month: "long", year: "numeric", timeZone: "UTC" }).format(anchor)
+    }
+    const formatter = new Intl.DateTimeFormat(intlLocale(locale), {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: "UTC",
+    })
+    return `${formatter.format(visibleDays[0])} – ${formatter.format(visibleDays[visibleDays.length - 1])}`
+  }, [anchor, locale, view, visibleDays])
+
+  const weekdayLabels = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(intlLocale(locale), { weekday: "short", timeZone: "UTC" })
+    return weekDays(anchor, locale).map((day) => formatter.format(day))
+  }, [anchor, locale])
+
+  const overdueItems = useMemo(
+    () => items.filter((item) => item.tone === "overdue" && item.date < toDayKey(visibleDays[0])),
+    [items, visibleDays],
+  )
+
+  return (
+    <AppShell
+      title={t("calendar.title", { defaultValue: "Compliance calendar" })}
+      description={profile?.org?.name ?? ""}
+      actions={<LanguageToggle onPersist={(next) => persistLocale(next)} isSaving={isSavingLocale || profileLoading} />}
+    >
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => shiftPeriod(-1)}
+            className="rounded border border-[color:var(--border)] px-3 py-1 text-sm font-medium text-slate-600 transition hover:bg-slate-100"
+          >
+            {t("pagination.previous")}
+          </button>
+          <button
+            type="button"
+            onClick={() => updateQuery({ date: fromDayKey(todayKey) })}
+            className="rounded border border-[color:var(--border)] px-3 py-1 text-sm font-medium text-slate-600 transition hover:bg-slate-100"
+          >
+            {t("calendar.today", { defaultValue: "Today" })}
+          </button>
+          <button
+            type="button"
+            onClick={() => shiftPeriod(1)}
+            className="rounded border border-[color:var(--border)] px-3 py-1 text-sm font-medium text-slate-600 transition hover:bg-slate-100"
+          >
+            {t("pagination.next")}
+          </button>
+          <h3 className="ml-2 text-base font-semibold capitalize text-[color:var(--foreground)]">{periodLabel}</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href="/calendar/compliance.ics"
+            download
+            onClick={exportInBrowser}
+            title={t("calendar.exportHint", { defaultValue: "Download due dates and expirations for Outlook or Google Calendar" })}
+            className="inline-flex items-center rounded-full border border-slate-300 px-4 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-100"
+          >
+            {t("calendar.export", { defaultValue: "Export .ics" })}
+          </a>
+          <div className="inline-flex items-center gap-1 rounded-full border border-[color:var(--border)] bg-[color:var(--surface)] p-1 text-xs font-medium text-slate-600 shadow-sm">
+            {VIEWS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => updateQuery({ view: option })}
+                aria-pressed={option === view}
+                className={clsx(
+                  "rounded-full px-3 py-1 transition",
+                  option === view ? "bg-blue-600 text-white" : "hover:bg-slate-100",
+                )}
+              >
+                {t(`calendar.views.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3 text-xs text-slate-500">
+        {(Object.keys(TONE_CLASSES) as CalendarTone[]).map((tone) => (
+          <span key={tone} className={clsx("rounded-full border px-2 py-0.5", TONE_CLASSES[tone])}>
+            {t(TONE_LABELS[tone].key, { defaultValue: TONE_LABELS[tone].defaultLabel })}
+          </span>
+        ))}
+        {(Object.keys(KIND_DOT) as CalendarItemKind[]).map((kind) => (
+          <span key={kind} className="inline-flex items-center gap-1">
+            <span className={clsx("h-2 w-2 rounded-full", KIND_DOT[kind])} />
+            {t(`calendar.kinds.${kind}`)}
+          </span>
+        ))}
+      </div>
+
+      <div className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-4 shadow-sm">
+        {view === "month" && (
+          <div className="grid grid-cols-7 gap-px overflow-hidden rounded-xl border border-[color:var(--border)] bg-[color:var(--border)]">
+            {weekdayLabels.map((label) => (
+              <div
+                key={label}
+                className="bg-[color:var(--surface-muted)] px-2 py-2 text-center text-xs font-semibold uppercase tracking-wide text-slate-500"
+              >
+                {label}
+              </div>
+            ))}
+            {visibleDays.map((day) => {
+              const key = toDayKey(day)
+              const dayItems = itemsByDay.get(key) ?? []
+              const inMonth = day.getUTCMonth() === anchor.getUTCMonth()
+              return (
+                <div
+                  key={key}
+                  className={clsx(
+                    "min-h-28 space-y-1 bg-[color:var(--surface)] p-2",
+                    !inMonth && "opacity-50",
+                  )}
+                >
+                  <p
+                    className={clsx(
+                      "text-xs font-semibold",
+                      key === todayKey
+                        ? "inline-flex h-6 w-6 items-center justify-center rounded-full bg-blue-600 text-white"
+                        : "text-slate-500",
+                    )}
+                  >
+                    {day.getUTCDate()}
+                  </p>
+                  {dayItems.slice(0, MONTH_CELL_LIMIT).map((item) => (
+                    <CalendarChip key={item.id} item={item} compact />
+                  ))}
+                  {dayItems.length > MONTH_CELL_LIMIT && (
+                    <button
+                      type="button"
+                      onClick={() => updateQuery({ view: "agenda", date: day })}
+                      className="text-xs font-medium text-blue-600 hover:underline"
+                    >
+                      {t("calendar.more", { count: dayItems.length - MONTH_CELL_LIMIT, defaultValue: "+{{count}} more" })}
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {view === "week" && (
+          <div className="grid gap-3 md:grid-cols-7">
+            {visibleDays.map((day, index) => {
+              const key = toDayKey(day)
+              const dayItems = itemsByDay.get(key) ?? []
+              return (
+                <div key={key} className="space-y-2 rounded-xl border border-[color:var(--border)] p-2">
+                  <p
+                    className={clsx(
+                      "text-xs font-semibold uppercase tracking-wide",
+                      key === todayKey ? "text-blue-600" : "text-slate-500",
+                    )}
+                  >
+                    {weekdayLabels[index]} {day.getUTCDate()}
+                  </p>
+                  {dayItems.length === 0 ? (
+                    <p className="text-xs text-slate-400">—</p>
+                  ) : (
+                    dayItems.map((item) => <CalendarChip key={item.id} item={item} />)
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {view === "agenda" && (
+          <AgendaList
+            days={visibleDays}
+            itemsByDay={itemsByDay}
+            overdueItems={overdueItems}
+            locale={locale}
+            todayKey={todayKey}
+          />
+        )}
+      </div>
+    </AppShell>
+  )
+}
+
+function CalendarChip({ item, compact = false }: { item: CalendarItem; compact?: boolean }) {
+  const { t } = useTranslation()
+  return (
+    <Link
+      href={item.href}
+      title={item.title}
+      className={clsx(
+        "flex items-start gap-1.5 rounded-md border px-2 py-1 text-xs transition hover:shadow-sm",
+        TONE_CLASSES[item.tone],
+        item.projected && "border-dashed opacity-80",
+      )}
+    >
+      <span className={clsx("mt-1 h-1.5 w-1.5 flex-shrink-0 rounded-full", KIND_DOT[item.kind])} />
+      <span className="min-w-0">
+        <span className={clsx("block font-medium", compact && "truncate")}>{item.title}</span>
+        {!compact && item.subtitle && <span className="block opacity-80">{item.subtitle}</span>}
+        {!compact && item.projected && (
+          <span className="block opacity-80">{t("calendar.projected", { defaultValue: "Next cycle" })}</span>
+        )}
+      </span>
+    </Link>
+  )
+}
+
+type AgendaListProps = {
+  days: Date[]
+  itemsByDay: Map<string, CalendarItem[]>
+  overdueItems: CalendarItem[]
+  locale: Locale
+  todayKey: string
+}
+
+function AgendaList({ days, itemsByDay, overdueItems, locale, todayKey }: AgendaListProps) {
+  const { t } = useTranslation()
+  const formatter = new Intl.DateTimeFormat(intlLocale(locale), {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+  const populated = days.filter((day) => (itemsByDay.get(toDayKey(day)) ?? []).length > 0)
+
+  if (populated.length === 0 && overdueItems.length === 0) {
+    return <p className="py-10 text-center text-sm text-slate-500">{t("calendar.empty", { defaultValue: "Nothing due in this period." })}</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      {overdueItems.length > 0 && (
+        <section>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-red-700">
+            {t("calendar.overdueSection", { defaultValue: "Overdue from earlier" })}
+          </h4>
+          <ul className="mt-2 space-y-2">
+            {overdueItems.map((item) => (
+              <li key={item.id} className="flex items-start gap-3">
+                <span className="w-28 flex-shrink-0 pt-1 text-xs text-slate-500">
+                  {new Intl.DateTimeFormat(intlLocale(locale), { dateStyle: "medium", timeZone: "UTC" }).format(fromDayKey(item.date))}
+                </span>
+                <div className="flex-1">
+                  <CalendarChip item={item} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {populated.map((day) => {
+        const key = toDayKey(day)
+        return (
+          <section key={key}>
+            <h4
+              className={clsx(
+                "text-xs font-semibold uppercase tracking-wide",
+                key === todayKey ? "text-blue-600" : "text-slate-500",
+              )}
+            >
+              {formatter.format(day)}
+            </h4>
+            <ul className="mt-2 space-y-2">
+              {(itemsByDay.get(key) ?? []).map((item) => (
+                <li key={item.id}>
+                  <CalendarChip item={item} />
+                </li>
+              ))}
+            </ul>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import type { Permit } from "@/app/permits/permits-client"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { ApiError } from "@/lib/api/errors"
+import { fetchAllPages } from "@/lib/api/pagination"
+import { serverApiFetch } from "@/lib/api/server"
+import { CALENDAR_REQUIREMENT_LIMIT } from "@/lib/calendar"
+import { buildIcsCalendar } from "@/lib/ics"
+import { normalizeLocale } from "@/lib/locale"
+import { loginPath } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const [profile, requirements, permits, training] = await Promise.all([
+      serverApiFetch<AuthMeResponse>("/auth/me"),
+      // Calendar apps only see what the file holds, so every page goes in.
+      fetchAllPages((page) =>
+        serverApiFetch<RequirementsResponse>("/requirements", {
+          searchParams: { page, limit: CALENDAR_REQUIREMENT_LIMIT },
+        }),
+      ),
+      serverApiFetch<Permit[]>("/permits"),
+      serverApiFetch<TrainingCert[]>("/training"),
+    ])
+
+    const body = buildIcsCalendar({
+      requirements: requirements.items,
+      permits,
+      training,
+      locale: normalizeLocale(profile.user.preferred_locale),
+      orgName: profile.org?.name,
+      baseUrl: request.nextUrl.origin,
+      component: request.nextUrl.searchParams.get("format") === "todo" ? "todo" : "event",
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        "content-type": "text/calendar; charset=utf-8",
+        "content-disposition": 'attachment; filename="compliance-calendar.ics"',
+        "cache-control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      return NextResponse.redirect(new URL(loginPath(`${request.nextUrl.pathname}${request.nextUrl.search}`), request.url))
+    }
+    console.warn("[calendar] ICS export failed", error)
+    return new NextResponse("Calendar export failed", { status: 502 })
+  }
+}
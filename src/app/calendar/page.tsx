@@ -0,0 +1,32 @@
+import { CalendarClient } from "@/app/calendar/calendar-client"
+import type { Permit } from "@/app/permits/permits-client"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { fetchAllPages } from "@/lib/api/pagination"
+import { serverApiFetch, serverPrefetch } from "@/lib/api/server"
+import { CALENDAR_REQUIREMENT_LIMIT } from "@/lib/calendar"
+
+export default async function CalendarPage() {
+  const [profile, requirements, permits, training] = await Promise.all([
+    serverPrefetch("calendar", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch("calendar", () =>
+      fetchAllPages((page) =>
+        serverApiFetch<RequirementsResponse>("/requirements", {
+          searchParams: { page, limit: CALENDAR_REQUIREMENT_LIMIT },
+        }),
+      ),
+    ),
+    serverPrefetch("calendar", () => serverApiFetch<Permit[]>("/permits")),
+    serverPrefetch("calendar", () => serverApiFetch<TrainingCert[]>("/training")),
+  ])
+
+  return (
+    <CalendarClient
+      initialProfile={profile}
+      initialRequirements={requirements}
+      initialPermits={permits}
+      initialTraining={training}
+    />
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useEffect } from "react"
+import Link from "next/link"
+import clsx from "clsx"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import type { DocumentsResponse } from "@/app/documents/documents-client"
+import type { Permit } from "@/app/permits/permits-client"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import { AppShell } from "@/components/layout/app-shell"
+import { LanguageToggle } from "@/components/language-toggle"
+import { useLocale } from "@/components/locale-provider"
+import { Badge } from "@/components/ui/badge"
+import { ApiError } from "@/lib/api/client"
+import {
+  DOCUMENT_ATTENTION_HREF,
+  DOCUMENT_ATTENTION_QUERY,
+  EXPIRING_WINDOW_DAYS,
+  REQUIREMENT_TILES,
+  REQUIREMENT_TILE_KEYS,
+  countExpirations,
+  tileQuery,
+  type RequirementTileKey,
+} from "@/lib/dashboard"
+import { formatDate } from "@/lib/dates"
+import { useApiData } from "@/hooks/useApiData"
+import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
+import { usePersistedLocale } from "@/hooks/usePersistedLocale"
+
+export type DashboardData = {
+  profile: AuthMeResponse | null
+  requirements: Record<RequirementTileKey, RequirementsResponse> | null
+  permits: Permit[] | null
+  training: TrainingCert[] | null
+  documents: DocumentsResponse | null
+}
+
+type Tone = "danger" | "warning" | "neutral"
+
+const TONE_CLASSES: Record<Tone, string> = {
+  danger: "text-red-700",
+  warning: "text-amber-700",
+  neutral: "text-[color:var(--foreground)]",
+}
+
+const REQUIREMENT_TILE_META: Record<RequirementTileKey, { labelKey: string; defaultLabel: string; tone: Tone }> = {
+  overdue: { labelKey: "dashboard.tiles.overdue", defaultLabel: "Overdue requirements", tone: "danger" },
+  due7: { labelKey: "dashboard.tiles.due7", defaultLabel: "Due in 7 days", tone: "warning" },
+  due30: { labelKey: "dashboard.tiles.due30", defaultLabel: "Due in 30 days", tone: "neutral" },
+  triage: { labelKey: "dashboard.tiles.triage", defaultLabel: "Needs triage", tone: "warning" },
+}
+
+const REFRESH_INTERVAL = 120_000
+
+type TileProps = {
+  href: string
+  label: string
+  value: number | null
+  tone: Tone
+  hint?: string | null
+}
+
+function Tile({ href, label, value, tone, hint }: TileProps) {
+  const { t } = useTranslation()
+  const effectiveTone = value === 0 ? "neutral" : tone
+  return (
+    <Link
+      href={href}
+      className="group flex flex-col justify-between rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-5 shadow-sm transition hover:border-blue-300 hover:shadow"
+    >
+      <p className="text-sm font-medium text-slate-600">{label}</p>
+      <p className={clsx("mt-3 text-3xl font-semibold", TONE_CLASSES[effectiveTone])}>{value ?? "—"}</p>
+      <p className="mt-2 text-xs text-slate-500">
+        {hint ?? <span className="text-blue-600 group-hover:underline">{t("dashboard.view", { defaultValue: "View" })} →</span>}
+      </p>
+    </Link>
+  )
+}
+
+function RequirementTile({ tileKey, fallback }: { tileKey: RequirementTileKey; fallback?: RequirementsResponse }) {
+  const { t } = useTranslation()
+  const { data } = useApiData<RequirementsResponse>("/requirements", tileQuery(tileKey), {
+    refreshInterval: REFRESH_INTERVAL,
+    fallbackData: fallback,
+  })
+  const meta = REQUIREMENT_TILE_META[tileKey]
+  return (
+    <Tile
+      href={REQUIREMENT_TILES[tileKey].href}
+      label={t(meta.labelKey, { defaultValue: meta.defaultLabel })}
+      value={data?.pagination.total ?? null}
+      tone={meta.tone}
+    />
+  )
+}
+
+type DashboardClientProps = {
+  initialData: DashboardData
+}
+
+export function DashboardClient({ initialData }: DashboardClientProps) {
+  const { locale } = useLocale()
+  const { t } = useTranslation()
+  const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
+
+  const { data: profile, isLoading: profileLoading } = useAuthedProfile(initialData.profile)
+
+  const { data: permits, error: permitsError } = useApiData<Permit[]>("/permits", undefined, {
+    refreshInterval: 180_000,
+    fallbackData: initialData.permits ?? undefined,
+  })
+  const { data: training, error: trainingError } = useApiData<TrainingCert[]>("/training", undefined, {
+    refreshInterval: 180_000,
+    fallbackData: initialData.training ?? undefined,
+  })
+  const { data: documents, error: documentsError } = useApiData<DocumentsResponse>("/documents", DOCUMENT_ATTENTION_QUERY, {
+    refreshInterval: REFRESH_INTERVAL,
+    fallbackData: initialData.documents ?? undefined,
+  })
+
+  useEffect(() => {
+    const error = permitsError ?? trainingError ?? documentsError
+    if (error && !(error instanceof ApiError && error.status === 401)) {
+      toast.error(t("toasts.loadError"))
+    }
+  }, [documentsError, permitsError, trainingError, t])
+
+  const permitCounts = countExpirations(permits)
+  const trainingCounts = countExpirations(training)
+  const expiredHint = (count: number) =>
+    count > 0 ? t("dashboard.alreadyExpired", { count, defaultValue: "{{count}} already expired" }) : null
+
+  return (
+    <AppShell
+      title={t("dashboard.title", { defaultValue: "Compliance overview" })}
+      description={profile?.org?.name ?? ""}
+      actions={<LanguageToggle onPersist={(next) => persistLocale(next)} isSaving={isSavingLocale || profileLoading} />}
+    >
+      <section className="space-y-3">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {t("dashboard.requirements", { defaultValue: "Requirements" })}
+        </h3>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {REQUIREMENT_TILE_KEYS.map((key) => (
+            <RequirementTile key={key} tileKey={key} fallback={initialData.requirements?.[key]} />
+          ))}
+        </div>
+      </section>
+
+      <section className="mt-8 space-y-3">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          {t("dashboard.expirations", { count: EXPIRING_WINDOW_DAYS, defaultValue: "Expiring in the next {{count}} days" })}
+        </h3>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Tile
+            href="/permits"
+            label={t("dashboard.tiles.permits", { defaultValue: "Permits expiring soon" })}
+            value={permits ? permitCounts.expiring : null}
+            tone="warning"
+            hint={expiredHint(permitCounts.expired)}
+          />
+          <Tile
+            href="/training"
+            label={t("dashboard.tiles.training", { defaultValue: "Certifications expiring soon" })}
+            value={training ? trainingCounts.expiring : null}
+            tone="warning"
+            hint={expiredHint(trainingCounts.expired)}
+          />
+        </div>
+      </section>
+
+      <section className="mt-8 rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-sm">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-base font-semibold text-[color:var(--foreground)]">
+              {t("dashboard.documentsTitle", { defaultValue: "Documents needing attention" })}
+            </h3>
+            <p className="text-sm text-slate-500">
+              {t("dashboard.documentsDescription", { defaultValue: "Uploads still processing or that failed to process." })}
+            </p>
+          </div>
+          <Link href={DOCUMENT_ATTENTION_HREF} className="text-sm font-medium text-blue-600 hover:underline">
+            {t("dashboard.view", { defaultValue: "View" })} →
+          </Link>
+        </div>
+        {!documents || documents.items.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">
+            {t("dashboard.documentsEmpty", { defaultValue: "All documents are processed." })}
+          </p>
+        ) : (
+          <ul className="mt-4 divide-y divide-[color:var(--border)]">
+            {documents.items.map((document) => (
+              <li key={document.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <span className="truncate text-[color:var(--foreground)]">{document.name}</span>
+                <span className="flex items-center gap-3 text-xs text-slate-500">
+                  {formatDate(document.created_at ?? null, locale)}
+                  <Badge variant={document.status === "FAILED" ? "danger" : "warning"}>
+                    {document.status === "FAILED" ? t("documents.uploadFailed") : t("documents.processing")}
+                  </Badge>
+                </span>
+              </li>
+            ))}
+            {documents.pagination.total > documents.items.length && (
+              <li className="pt-2 text-xs text-slate-500">
+                {t("dashboard.moreDocuments", {
+                  count: documents.pagination.total - documents.items.length,
+                  defaultValue: "+{{count}} more",
+                })}
+              </li>
+            )}
+          </ul>
+        )}
+      </section>
+    </AppShell>
+  )
+}
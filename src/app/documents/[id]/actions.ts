@@ -2,6 +2,7 @@
 
 import { revalidatePath } from "next/cache"
 
+import type { DocumentRecord } from "@/app/documents/documents-client"
 import { serverApiFetch } from "@/lib/api/server"
 
 const SUPPORTED_TARGETS = new Set(["requirements", "permit", "training", "uncategorized"])
@@ -9,20 +10,24 @@ const SUPPORTED_TARGETS = new Set(["requirements", "permit", "training", "uncate
 type MoveDocumentArgs = {
   documentId: string
   target: string
+  /** The org the page shows; the cookie may already name another tab's switch. */
+  orgId: string | null
 }
 
-export async function moveDocument({ documentId, target }: MoveDocumentArgs) {
+export async function moveDocument({ documentId, target, orgId }: MoveDocumentArgs) {
   if (!SUPPORTED_TARGETS.has(target)) {
     throw new Error("Unsupported classification target")
   }
 
-  await serverApiFetch(`/documents/${documentId}/move`, {
+  const document = await serverApiFetch<DocumentRecord>(`/documents/${documentId}/move`, {
     init: {
       method: "POST",
       body: JSON.stringify({ target }),
     },
+    orgId,
   })
 
   revalidatePath("/documents")
   revalidatePath(`/documents/${documentId}`)
+  return document
 }
@@ -0,0 +1,283 @@
+"use client"
+
+import { ReactNode, useEffect, useState, useTransition } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import clsx from "clsx"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import { moveDocument } from "@/app/documents/[id]/actions"
+import { formatClassificationLabel, type DocumentRecord } from "@/app/documents/documents-client"
+import { DOCUMENT_CLASSIFICATIONS, DOCUMENT_REQUIREMENT_LIMIT } from "@/app/documents/library-query"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import { useLocale } from "@/components/locale-provider"
+import { useOrg } from "@/components/org-provider"
+import { Badge, type BadgeVariant } from "@/components/ui/badge"
+import { API_URL, ApiError, apiFetch } from "@/lib/api/client"
+import { formatDate } from "@/lib/dates"
+import { USE_MOCKS } from "@/lib/env"
+import { orgHeaders } from "@/lib/org"
+import { useApiData } from "@/hooks/useApiData"
+
+type MoveTarget = (typeof DOCUMENT_CLASSIFICATIONS)[number]
+
+const DOCUMENT_STATUS_META: Record<DocumentRecord["status"], { key: string; defaultLabel: string; variant: BadgeVariant }> = {
+  PROCESSING: { key: "documents.statuses.processing", defaultLabel: "Processing", variant: "warning" },
+  READY: { key: "documents.statuses.ready", defaultLabel: "Ready", variant: "success" },
+  FAILED: { key: "documents.statuses.failed", defaultLabel: "Failed", variant: "danger" },
+}
+
+const MOVE_EFFECTS: Record<MoveTarget, { key: string; defaultLabel: string }> = {
+  requirements: {
+    key: "documents.detail.effects.requirements",
+    defaultLabel: "Extracted items are tracked as requirements with due dates and reminders.",
+  },
+  permit: {
+    key: "documents.detail.effects.permit",
+    defaultLabel: "The document is filed as a permit and its expiration is tracked on the Permits page.",
+  },
+  training: {
+    key: "documents.detail.effects.training",
+    defaultLabel: "The document is filed as a training certification and its expiration is tracked on the Training page.",
+  },
+  uncategorized: {
+    key: "documents.detail.effects.uncategorized",
+    defaultLabel: "The document stays in the library, but nothing is tracked from it until it is classified.",
+  },
+}
+
+const REQUIREMENT_STATUS_LABELS: Record<string, { key: string; defaultLabel: string }> = {
+  OPEN: { key: "statuses.open", defaultLabel: "Open" },
+  REVIEW: { key: "statuses.review", defaultLabel: "Needs review" },
+  PENDING_REVIEW: { key: "statuses.needsTriage", defaultLabel: "Needs triage" },
+  READY: { key: "statuses.scheduled", defaultLabel: "Scheduled" },
+  DONE: { key: "statuses.done", defaultLabel: "Completed" },
+  ARCHIVED: { key: "statuses.archived", defaultLabel: "Archived" },
+}
+
+const currentTarget = (document: DocumentRecord): MoveTarget => {
+  const label = document.classification?.label
+  return (DOCUMENT_CLASSIFICATIONS as readonly string[]).includes(label ?? "") ? (label as MoveTarget) : "uncategorized"
+}
+
+type MetaItemProps = {
+  label: string
+  children: ReactNode
+}
+
+function MetaItem({ label, children }: MetaItemProps) {
+  return (
+    <div>
+      <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">{label}</dt>
+      <dd className="mt-1 text-sm text-slate-800">{children}</dd>
+    </div>
+  )
+}
+
+export type DocumentDetailClientProps = {
+  document: DocumentRecord
+  initialRequirements: RequirementsResponse | null
+}
+
+export function DocumentDetailClient({ document, initialRequirements }: DocumentDetailClientProps) {
+  const router = useRouter()
+  const { locale } = useLocale()
+  const { t } = useTranslation()
+  const { orgId } = useOrg()
+
+  const [currentDocument, setCurrentDocument] = useState(document)
+  const [target, setTarget] = useState<MoveTarget>(currentTarget(document))
+  const [isMoving, startMove] = useTransition()
+
+  useEffect(() => {
+    setCurrentDocument(document)
+    setTarget(currentTarget(document))
+  }, [document])
+
+  const { data: requirements, error: requirementsError } = useApiData<RequirementsResponse>(
+    "/requirements",
+    { document_id: document.id, page: 1, limit: DOCUMENT_REQUIREMENT_LIMIT },
+    { fallbackData: initialRequirements ?? undefined },
+  )
+
+  useEffect(() => {
+    if (requirementsError && !(requirementsError instanceof ApiError && requirementsError.status === 401)) {
+      toast.error(t("toasts.loadError"))
+    }
+  }, [requirementsError, t])
+
+  const classification = currentDocument.classification
+  const activeTarget = currentTarget(currentDocument)
+  const statusMeta = DOCUMENT_STATUS_META[currentDocument.status] ?? DOCUMENT_STATUS_META.READY
+  const downloadHref = currentDocument.download_path
+    ? `${API_URL}${currentDocument.download_path}`
+    : currentDocument.download_url
+  const targetLabel = (value: MoveTarget) => formatClassificationLabel(value, t)
+  const effectText = (value: MoveTarget) => t(MOVE_EFFECTS[value].key, { defaultValue: MOVE_EFFECTS[value].defaultLabel })
+
+  const handleMove = () => {
+    if (target === activeTarget) return
+    const confirmed = window.confirm(
+      t("documents.detail.confirmMove", {
+        defaultValue: "Move “{{name}}” to {{target}}? {{effect}}",
+        name: currentDocument.name,
+        target: targetLabel(target),
+        effect: effectText(target),
+      }),
+    )
+    if (!confirmed) return
+
+    startMove(async () => {
+      try {
+        // The server action would move the server's copy of the mock store, not the browser's.
+        const updated = USE_MOCKS
+          ? await apiFetch<DocumentRecord>(`/documents/${currentDocument.id}/move`, {
+              method: "POST",
+              body: JSON.stringify({ target }),
+              headers: orgHeaders(orgId),
+            })
+          : await moveDocument({ documentId: currentDocument.id, target, orgId })
+        setCurrentDocument(updated)
+        toast.success(t("documents.detail.moveSuccess", { defaultValue: "Moved to {{target}}", target: targetLabel(target) }))
+        router.refresh()
+      } catch (error) {
+        console.error("[documents] move failed", error)
+        toast.error(t("documents.detail.moveError", { defaultValue: "Unable to move the document" }))
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <Link
+          href="/documents"
+          className="rounded-lg border border-slate-200 px-3 py-1 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-800"
+        >
+          {t("actions.back", { defaultValue: "Back" })}
+        </Link>
+        {downloadHref && (
+          <a
+            href={downloadHref}
+            target="_blank"
+            rel="noreferrer"
+            className="rounded-lg border border-slate-200 px-3 py-1 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-800"
+          >
+            {t("documents.detail.download", { defaultValue: "Open PDF" })}
+          </a>
+        )}
+      </div>
+
+      <section className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-sm">
+        <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          <MetaItem label={t("documents.detail.status", { defaultValue: "Status" })}>
+            <Badge variant={statusMeta.variant}>{t(statusMeta.key, { defaultValue: statusMeta.defaultLabel })}</Badge>
+          </MetaItem>
+          <MetaItem label={t("documents.uploaded")}>{formatDate(currentDocument.created_at ?? null, locale)}</MetaItem>
+          <MetaItem label={t("documents.extracted")}>
+            {currentDocument.status === "PROCESSING"
+              ? t("documents.processing")
+              : formatDate(currentDocument.extracted_at ?? null, locale)}
+          </MetaItem>
+          <MetaItem label={t("documents.filters.classification")}>
+            {classification?.label ? formatClassificationLabel(classification.label, t) : targetLabel("uncategorized")}
+          </MetaItem>
+          <MetaItem label={t("documents.detail.confidence", { defaultValue: "Confidence" })}>
+            {typeof classification?.confidence === "number"
+              ? new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 }).format(classification.confidence)
+              : "—"}
+          </MetaItem>
+          <MetaItem label={t("documents.detail.source", { defaultValue: "Classified by" })}>
+            {classification?.source === "manual"
+              ? t("documents.detail.sources.manual", { defaultValue: "Moved by a person" })
+              : classification?.source
+                ? t("documents.detail.sources.model", { defaultValue: "Automatic classification" })
+                : "—"}
+          </MetaItem>
+        </dl>
+      </section>
+
+      <section className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-sm">
+        <h3 className="text-base font-semibold text-[color:var(--foreground)]">
+          {t("documents.detail.moveTitle", { defaultValue: "Move document" })}
+        </h3>
+        <p className="mt-1 text-sm text-slate-500">
+          {t("documents.detail.moveHint", { defaultValue: "Choose where this document belongs if the automatic classification got it wrong." })}
+        </p>
+        <div className="mt-4 grid gap-2 sm:grid-cols-2">
+          {DOCUMENT_CLASSIFICATIONS.map((value) => (
+            <label
+              key={value}
+              className={clsx(
+                "flex cursor-pointer gap-3 rounded-xl border p-3 text-sm transition",
+                target === value ? "border-blue-400 bg-blue-50/60" : "border-[color:var(--border)] hover:border-slate-300",
+              )}
+            >
+              <input
+                type="radio"
+                name="move-target"
+                value={value}
+                checked={target === value}
+                onChange={() => setTarget(value)}
+                disabled={isMoving}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-[color:var(--foreground)]">
+                  {targetLabel(value)}
+                  {value === activeTarget && (
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {t("documents.detail.current", { defaultValue: "(current)" })}
+                    </span>
+                  )}
+                </span>
+                <span className="mt-1 block text-xs text-slate-500">{effectText(value)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={handleMove}
+            disabled={isMoving || target === activeTarget}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isMoving
+              ? t("documents.detail.moving", { defaultValue: "Moving…" })
+              : t("documents.detail.move", { defaultValue: "Move to {{target}}", target: targetLabel(target) })}
+          </button>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-sm">
+        <h3 className="text-base font-semibold text-[color:var(--foreground)]">
+          {t("documents.detail.requirementsTitle", { defaultValue: "Extracted requirements" })}
+        </h3>
+        {!requirements || requirements.items.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">
+            {t("documents.detail.requirementsEmpty", { defaultValue: "No requirements were extracted from this document." })}
+          </p>
+        ) : (
+          <ul className="mt-4 divide-y divide-[color:var(--border)]">
+            {requirements.items.map((requirement) => {
+              const statusLabel = REQUIREMENT_STATUS_LABELS[requirement.status]
+              return (
+                <li key={requirement.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <Link href={`/requirements/${requirement.id}`} className="truncate text-[color:var(--foreground)] hover:text-blue-700 hover:underline">
+                    {locale === "es" ? requirement.title_es : requirement.title_en}
+                  </Link>
+                  <span className="flex flex-shrink-0 items-center gap-3 text-xs text-slate-500">
+                    {formatDate(requirement.next_due ?? requirement.due_date ?? null, locale)}
+                    <Badge>{statusLabel ? t(statusLabel.key, { defaultValue: statusLabel.defaultLabel }) : requirement.status}</Badge>
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
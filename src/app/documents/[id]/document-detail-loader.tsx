@@ -0,0 +1,36 @@
+"use client"
+
+import { notFound } from "next/navigation"
+import { useTranslation } from "react-i18next"
+
+import { AppShell } from "@/components/layout/app-shell"
+import { useApiData } from "@/hooks/useApiData"
+import { useAuthedProfile } from "@/hooks/useAuthedProfile"
+import { ApiError } from "@/lib/api/client"
+import type { DocumentRecord } from "@/app/documents/documents-client"
+import { DocumentDetailClient } from "@/app/documents/[id]/document-detail-client"
+
+/** Fetches the document in the browser, for mock mode where the page skips its server prefetch. */
+export function DocumentDetailLoader({ id }: { id: string }) {
+  const { t } = useTranslation()
+  const { data: profile } = useAuthedProfile()
+  const { data: document, error } = useApiData<DocumentRecord>(`/documents/${id}`)
+
+  if (error instanceof ApiError && error.status === 404) {
+    notFound()
+  }
+
+  if (!document) {
+    return (
+      <AppShell title={t("documents.title")} description={profile?.org?.name ?? ""}>
+        <p className="text-sm text-slate-500">{t("app.loading")}</p>
+      </AppShell>
+    )
+  }
+
+  return (
+    <AppShell title={document.name} description={profile?.org?.name ?? ""}>
+      <DocumentDetailClient document={document} initialRequirements={null} />
+    </AppShell>
+  )
+}
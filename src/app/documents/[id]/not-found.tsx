@@ -0,0 +1,17 @@
+"use client"
+
+import Link from "next/link"
+import { useTranslation } from "react-i18next"
+
+export default function DocumentNotFound() {
+  const { t } = useTranslation()
+
+  return (
+    <div className="rounded-2xl border border-rose-100 bg-rose-50 p-6 text-sm text-rose-700">
+      <p>{t("documents.detail.notFound", { defaultValue: "Document not found." })}</p>
+      <Link href="/documents" className="mt-2 inline-block font-semibold underline">
+        {t("documents.detail.backToLibrary", { defaultValue: "Back to documents" })}
+      </Link>
+    </div>
+  )
+}
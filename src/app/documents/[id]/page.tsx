@@ -0,0 +1,50 @@
+import { notFound, redirect } from "next/navigation"
+
+import { AppShell } from "@/components/layout/app-shell"
+import { SERVER_PREFETCH_ENABLED, serverApiFetch, serverPrefetch } from "@/lib/api/server"
+
+import type { DocumentRecord } from "@/app/documents/documents-client"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { DocumentDetailClient } from "@/app/documents/[id]/document-detail-client"
+import { DocumentDetailLoader } from "@/app/documents/[id]/document-detail-loader"
+import { DOCUMENT_REQUIREMENT_LIMIT } from "@/app/documents/library-query"
+import { ApiError } from "@/lib/api/client"
+import { loginPath } from "@/lib/session"
+
+async function fetchDocument(id: string) {
+  const profile = await serverPrefetch("documents", () => serverApiFetch<AuthMeResponse>("/auth/me"))
+  let document: DocumentRecord
+
+  // Only a 404 means the document is gone; timeouts and 5xx go to the error page instead.
+  try {
+    document = await serverApiFetch<DocumentRecord>(`/documents/${id}`)
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) notFound()
+    if (error instanceof ApiError && error.status === 401) redirect(loginPath(`/documents/${id}`))
+    throw error
+  }
+
+  // The page still works without its requirements; the client fetches them again.
+  const requirements = await serverPrefetch(`documents:${id}`, () =>
+    serverApiFetch<RequirementsResponse>("/requirements", {
+      searchParams: { document_id: id, page: 1, limit: DOCUMENT_REQUIREMENT_LIMIT },
+    }),
+  )
+
+  return { profile, document, requirements }
+}
+
+export default async function DocumentDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  if (!SERVER_PREFETCH_ENABLED) {
+    return <DocumentDetailLoader id={id} />
+  }
+  const { profile, document, requirements } = await fetchDocument(id)
+
+  return (
+    <AppShell title={document.name} description={profile?.org?.name ?? ""}>
+      <DocumentDetailClient document={document} initialRequirements={requirements} />
+    </AppShell>
+  )
+}
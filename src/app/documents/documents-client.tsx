@@ -1,8 +1,10 @@
 "use client"
 
-import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react"
-import { useRouter } from "next/navigation"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
 import { ColumnDef } from "@tanstack/react-table"
+import clsx from "clsx"
 import { toast } from "sonner"
 import { useTranslation } from "react-i18next"
 
@@ -11,11 +13,27 @@ import { LanguageToggle } from "@/components/language-toggle"
 import { useLocale } from "@/components/locale-provider"
 import { DataTable } from "@/components/ui/data-table"
 import { EyeIcon } from "@/components/ui/icons"
-import { API_URL, ApiError, apiFetch } from "@/lib/api/client"
+import { Pagination } from "@/components/ui/pagination"
+import { API_URL, ApiError } from "@/lib/api/client"
 import { formatDate } from "@/lib/dates"
+import type { Locale } from "@/lib/i18n"
+import type { UploadItem } from "@/lib/upload-queue"
 import { useApiData } from "@/hooks/useApiData"
 import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
 import { usePersistedLocale } from "@/hooks/usePersistedLocale"
+import { useSearchInput } from "@/hooks/useSearchInput"
+import {
+  DOCUMENT_CLASSIFICATIONS,
+  DOCUMENT_PAGE_SIZE,
+  DOCUMENT_STATUSES,
+  parseDocumentQuery,
+  toApiParams,
+  toSearchParams,
+  type DocumentQuery,
+  type DocumentSort,
+  type SortOrder,
+} from "./library-query"
+import { UploadPanel } from "./upload-panel"
 
 export type DocumentClassification = {
   label: string
@@ -30,7 +48,7 @@ const classificationLabels: Record<string, string> = {
   uncategorized: "documents.classification.uncategorized",
 }
 
-function formatClassificationLabel(raw: string, t: (key: string) => string) {
+export function formatClassificationLabel(raw: string, t: (key: string) => string) {
   const key = classificationLabels[raw] ?? classificationLabels.uncategorized
   const translated = t(key)
   if (translated === key) {
@@ -61,30 +79,41 @@ export type DocumentsResponse = {
   }
 }
 
-type DocumentDetailResponse = DocumentRecord
-
-type UploadState = "idle" | "uploading" | "processing"
-
 type DocumentsClientProps = {
   initialDocuments?: DocumentsResponse | null
   initialProfile?: AuthMeResponse | null
 }
 
-const PROCESSING_STORAGE_KEY = "lastUploadId"
+const SEARCH_DEBOUNCE_MS = 300
+
+const STATUS_LABELS: Record<string, { key: string; defaultLabel: string }> = {
+  PROCESSING: { key: "documents.statuses.processing", defaultLabel: "Processing" },
+  READY: { key: "documents.statuses.ready", defaultLabel: "Ready" },
+  FAILED: { key: "documents.statuses.failed", defaultLabel: "Failed" },
+}
+
+const SORT_OPTIONS: { value: string; sort: DocumentSort; order: SortOrder; key: string; defaultLabel: string }[] = [
+  { value: "created_at:desc", sort: "created_at", order: "desc", key: "documents.sort.newest", defaultLabel: "Newest uploads" },
+  { value: "created_at:asc", sort: "created_at", order: "asc", key: "documents.sort.oldest", defaultLabel: "Oldest uploads" },
+  { value: "extracted_at:desc", sort: "extracted_at", order: "desc", key: "documents.sort.recentlyExtracted", defaultLabel: "Recently extracted" },
+  { value: "extracted_at:asc", sort: "extracted_at", order: "asc", key: "documents.sort.earliestExtracted", defaultLabel: "Earliest extracted" },
+]
 
 function buildColumns(
-  locale: string,
-  t: (key: string) => string,
+  locale: Locale,
+  t: (key: string, options?: Record<string, unknown>) => string,
 ): ColumnDef<DocumentRecord>[] {
   return [
     {
-      header: t("documents.recentUploads"),
+      header: t("documents.table.name", { defaultValue: "Document" }),
       accessorKey: "name",
       cell: ({ row }) => {
         const record = row.original
         return (
           <div className="space-y-1">
-            <p className="font-medium text-slate-900 break-words">{record.name}</p>
+            <Link href={`/documents/${record.id}`} className="block font-medium text-slate-900 break-words hover:text-blue-700 hover:underline">
+              {record.name}
+            </Link>
             {record.classification?.label && (
               <p className="text-xs uppercase tracking-wide text-slate-500">
                 {formatClassificationLabel(record.classification.label, t)}
@@ -153,33 +182,55 @@ function buildColumns(
 
 export function DocumentsClient({ initialDocuments, initialProfile }: DocumentsClientProps) {
   const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
   const { locale } = useLocale()
   const { t } = useTranslation()
   const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
 
-  const [uploadState, setUploadState] = useState<UploadState>("idle")
-  const defaultTrade = (initialProfile?.org?.primary_trade ?? "electrical").toLowerCase()
-  const [trade, setTrade] = useState(defaultTrade)
-  const hasTradeOverride = useRef(false)
-  const [file, setFile] = useState<File | null>(null)
   const [documentRows, setDocumentRows] = useState<DocumentRecord[]>(() => initialDocuments?.items ?? [])
-  const [pendingDocumentId, setPendingDocumentId] = useState<string | null>(null)
 
   const {
     data: profile,
     isLoading: profileLoading,
   } = useAuthedProfile(initialProfile)
 
+  const query = useMemo(() => parseDocumentQuery((key) => searchParams?.get(key)), [searchParams])
+  const queryParams = useMemo(() => toApiParams(query), [query])
+
   const {
     data: documents,
     error: documentsError,
     isLoading: documentsLoading,
     mutate: refreshDocuments,
-  } = useApiData<DocumentsResponse>("/documents", { limit: 5 }, {
+  } = useApiData<DocumentsResponse>("/documents", queryParams, {
     refreshInterval: 60_000,
     fallbackData: initialDocuments ?? undefined,
   })
 
+  const updateQuery = useCallback(
+    (next: Partial<DocumentQuery>) => {
+      const merged: DocumentQuery = { ...query, ...next, page: next.page ?? 1 }
+      const queryString = toSearchParams(merged).toString()
+      setDocumentRows([])
+      router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
+    },
+    [pathname, query, router],
+  )
+
+  const commitSearch = useCallback((q: string) => updateQuery({ q }), [updateQuery])
+  const [searchInput, setSearchInput] = useSearchInput(query.q, commitSearch, SEARCH_DEBOUNCE_MS)
+
+  const toggleStatus = (status: (typeof DOCUMENT_STATUSES)[number]) => {
+    const statuses = query.statuses.includes(status)
+      ? query.statuses.filter((item) => item !== status)
+      : [...query.statuses, status]
+    updateQuery({ statuses })
+  }
+
+  const hasFilters = Boolean(query.q || query.statuses.length > 0 || query.classification)
+  const pageCount = Math.max(1, Math.ceil((documents?.pagination.total ?? 0) / DOCUMENT_PAGE_SIZE))
+
   const hasRequested = useRef(false)
 
   const refreshAndHydrateDocuments = useCallback(async () => {
@@ -209,181 +260,25 @@ export function DocumentsClient({ initialDocuments, initialProfile }: DocumentsC
     }
   }, [documentsError, t])
 
-  useEffect(() => {
-    const orgTrade = (
-      profile?.org?.primary_trade ?? initialProfile?.org?.primary_trade ?? undefined
-    )?.toLowerCase()
-    if (!hasTradeOverride.current && orgTrade && orgTrade !== trade) {
-      setTrade(orgTrade)
-    }
-  }, [initialProfile?.org?.primary_trade, profile?.org?.primary_trade, trade])
-
-  useEffect(() => {
-    if (typeof window === "undefined") return
-    const storedId = window.sessionStorage.getItem(PROCESSING_STORAGE_KEY)
-    if (storedId) {
-      setPendingDocumentId(storedId)
-    }
-  }, [])
-
-  useEffect(() => {
-    if (typeof window === "undefined") return
-    if (pendingDocumentId) {
-      window.sessionStorage.setItem(PROCESSING_STORAGE_KEY, pendingDocumentId)
-      if (uploadState === "idle") {
-        setUploadState("processing")
-      }
-    } else {
-      window.sessionStorage.removeItem(PROCESSING_STORAGE_KEY)
-    }
-  }, [pendingDocumentId, uploadState])
-
-  useEffect(() => {
-    if (uploadState !== "uploading" || typeof window === "undefined") {
-      return
-    }
-    const handler = (event: BeforeUnloadEvent) => {
-      event.preventDefault()
-      event.returnValue = ""
-    }
-    window.addEventListener("beforeunload", handler)
-    return () => window.removeEventListener("beforeunload", handler)
-  }, [uploadState])
-
-  useEffect(() => {
-    if (!pendingDocumentId) {
-      return
-    }
-
-    let isCancelled = false
-    let timeoutId: NodeJS.Timeout | null = null
-
-    const poll = async () => {
-      try {
-        const detail = await apiFetch<DocumentDetailResponse>(`/documents/${pendingDocumentId}`)
-        if (isCancelled) return
-
-        setDocumentRows((prev) => {
-          const updated = prev.map((row) => (row.id === detail.id ? detail : row))
-          if (!updated.some((row) => row.id === detail.id)) {
-            return [...updated, detail]
-          }
-          return updated
-        })
-
-        if (detail.status === "READY") {
-          setPendingDocumentId(null)
-          setUploadState("idle")
-          toast.success(t("documents.uploadSuccess"))
-          router.refresh()
-          await refreshAndHydrateDocuments()
-          return
-        }
-
-        if (detail.status === "FAILED") {
-          toast.error(t("documents.uploadFailed"))
-          setPendingDocumentId(null)
-          setUploadState("idle")
-          return
-        }
-
-        timeoutId = setTimeout(poll, 5000)
-      } catch (error) {
-        if (isCancelled) return
-        if (error instanceof ApiError && error.status === 404) {
-          window.sessionStorage.removeItem(PROCESSING_STORAGE_KEY)
-          setPendingDocumentId(null)
-          setUploadState("idle")
-          await refreshAndHydrateDocuments()
-          return
-        }
-        timeoutId = setTimeout(poll, 8000)
-        if (error instanceof ApiError && error.status >= 400 && error.status < 500) {
-          toast.error(error.message)
-        }
-      }
-    }
-
-    poll()
-
-    return () => {
-      isCancelled = true
-      if (timeoutId) {
-        clearTimeout(timeoutId)
-      }
-    }
-  }, [pendingDocumentId, refreshAndHydrateDocuments, router, t])
-
-  useEffect(() => {
-    if (!pendingDocumentId || !documents?.items) {
-      return
-    }
-    const pendingDoc = documents.items.find((item) => item.id === pendingDocumentId)
-    if (!pendingDoc) {
-      return
-    }
-    if (pendingDoc.status === "READY") {
-      setPendingDocumentId(null)
-      setUploadState("idle")
-    }
-    if (pendingDoc.status === "FAILED") {
-      toast.error(t("documents.uploadFailed"))
-      setPendingDocumentId(null)
-      setUploadState("idle")
-    }
-  }, [documents?.items, pendingDocumentId, t])
-
-  const handleUpload = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    if (!file) {
-      toast.error(t("documents.uploadFailed"))
-      return
-    }
-
-    setUploadState("uploading")
-
-    const formData = new FormData()
-    formData.append("file", file)
-    formData.append("trade", trade)
-
-    try {
-      const response = await fetch(`${API_URL}/documents/upload`, {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      })
-
-      if (response.status === 401) {
-        router.replace("/login")
-        return
-      }
-
-      const payload = (await response.json().catch(() => null)) as
-        | { id: string; status: "PROCESSING" }
-        | { detail?: string }
-        | null
-
-      if (!response.ok || !payload || !("id" in payload)) {
-        const detail =
-          (payload as { detail?: string } | null)?.detail ?? t("documents.uploadFailed")
-        throw new Error(detail)
+  const handleUploaded = useCallback(() => {
+    toast.info(t("documents.uploadQueued"))
+    void refreshAndHydrateDocuments()
+  }, [refreshAndHydrateDocuments, t])
+
+  const handleProcessed = useCallback(
+    (item: UploadItem) => {
+      if (item.status === "ready") {
+        toast.success(t("documents.queue.processed", { defaultValue: "{{name}} is ready", name: item.name }))
+        router.refresh()
+      } else {
+        toast.error(t("documents.queue.processingFailed", { defaultValue: "{{name}} could not be processed", name: item.name }))
       }
-
-      toast.info(t("documents.uploadQueued"))
-      setFile(null)
-      setUploadState("processing")
-      setPendingDocumentId(payload.id)
       void refreshAndHydrateDocuments()
-    } catch (error) {
-      const message = error instanceof Error ? error.message : t("documents.uploadFailed")
-      toast.error(message)
-      setUploadState("idle")
-      setPendingDocumentId(null)
-    }
-  }
+    },
+    [refreshAndHydrateDocuments, router, t],
+  )
 
   const documentColumns = useMemo(() => buildColumns(locale, t), [locale, t])
-  const showProcessingBanner = pendingDocumentId !== null && uploadState === "processing"
 
   return (
     <AppShell
@@ -391,25 +286,86 @@ export function DocumentsClient({ initialDocuments, initialProfile }: DocumentsC
       description={profile?.org?.name ?? ""}
       actions={<LanguageToggle onPersist={(next) => persistLocale(next)} isSaving={isSavingLocale || profileLoading} />}
     >
-      {showProcessingBanner && (
-        <div className="mb-4 flex items-center gap-2 rounded-lg border border-blue-100 bg-blue-50 px-4 py-2 text-sm font-medium text-blue-700">
-          <span className="h-2 w-2 animate-pulse rounded-full bg-blue-600" />
-          {t("documents.processing")}
-        </div>
-      )}
       <div className="grid gap-6 lg:grid-cols-3">
         <section className="lg:col-span-2 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
           <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
             <div>
-              <h3 className="text-base font-semibold text-slate-900">{t("documents.lastFive")}</h3>
-              <p className="text-xs text-slate-500">{t("documents.lastFiveHint")}</p>
+              <h3 className="text-base font-semibold text-slate-900">{t("documents.library", { defaultValue: "Document library" })}</h3>
+              <p className="text-xs text-slate-500">
+                {t("documents.libraryHint", { count: documents?.pagination.total ?? 0 })}
+              </p>
+            </div>
+          </div>
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-col gap-3 md:flex-row md:items-center">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(event) => setSearchInput(event.target.value)}
+                placeholder={t("documents.searchPlaceholder", { defaultValue: "Search by file name" })}
+                aria-label={t("documents.searchPlaceholder", { defaultValue: "Search by file name" })}
+                className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm md:flex-1"
+              />
+              <select
+                value={query.classification ?? ""}
+                onChange={(event) => updateQuery({ classification: event.target.value || null })}
+                aria-label={t("documents.filters.classification", { defaultValue: "Classification" })}
+                className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+              >
+                <option value="">{t("documents.filters.allClassifications", { defaultValue: "All classifications" })}</option>
+                {DOCUMENT_CLASSIFICATIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {formatClassificationLabel(value, t)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={`${query.sort}:${query.order}`}
+                onChange={(event) => {
+                  const option = SORT_OPTIONS.find((item) => item.value === event.target.value)
+                  if (option) updateQuery({ sort: option.sort, order: option.order })
+                }}
+                aria-label={t("documents.sort.label", { defaultValue: "Sort" })}
+                className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {t(option.key, { defaultValue: option.defaultLabel })}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {DOCUMENT_STATUSES.map((status) => {
+                const active = query.statuses.includes(status)
+                return (
+                  <button
+                    key={status}
+                    type="button"
+                    onClick={() => toggleStatus(status)}
+                    aria-pressed={active}
+                    className={clsx(
+                      "rounded-full px-3 py-1 text-xs font-medium transition",
+                      active ? "bg-slate-900 text-white" : "border border-slate-300 text-slate-600 hover:bg-slate-100",
+                    )}
+                  >
+                    {t(STATUS_LABELS[status].key, { defaultValue: STATUS_LABELS[status].defaultLabel })}
+                  </button>
+                )
+              })}
+              {hasFilters && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSearchInput("")
+                    updateQuery({ q: "", statuses: [], classification: null })
+                  }}
+                  className="text-xs font-medium text-blue-600 hover:underline"
+                >
+                  {t("actions.clear", { defaultValue: "Clear" })}
+                </button>
+              )}
             </div>
-            {uploadState !== "idle" && (
-              <span className="flex items-center gap-2 text-xs font-medium text-blue-600 md:text-right">
-                <span className="inline-flex h-2 w-2 animate-pulse rounded-full bg-blue-600" />
-                {uploadState === "uploading" ? t("documents.uploading") : t("documents.processing")}
-              </span>
-            )}
           </div>
           <div className="mt-4">
             <DataTable<DocumentRecord>
@@ -418,56 +374,27 @@ export function DocumentsClient({ initialDocuments, initialProfile }: DocumentsC
               data={documentRows}
               isLoading={documentsLoading && documentRows.length === 0}
               loadingMessage={t("app.loading")}
-              emptyMessage={t("empty.documents")}
-              pageSize={5}
+              emptyMessage={hasFilters ? t("documents.noMatches", { defaultValue: "No documents match these filters." }) : t("empty.documents")}
+              pageSize={DOCUMENT_PAGE_SIZE}
             />
           </div>
-        </section>
-        <section className="lg:col-span-1 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
-          <div className="mb-4">
-            <h3 className="text-base font-semibold text-slate-900">{t("documents.uploadNew")}</h3>
-            {profile?.user?.email && (
-              <p className="mt-1 text-xs text-slate-500">{profile.user.email}</p>
-            )}
+          <div className="mt-6">
+            <Pagination
+              page={query.page}
+              pageCount={pageCount}
+              previousLabel={t("pagination.previous")}
+              nextLabel={t("pagination.next")}
+              onPageChange={(page) => updateQuery({ page })}
+              disabled={documentsLoading}
+            />
           </div>
-          <form className="space-y-4" onSubmit={handleUpload}>
-            <div>
-              <label className="text-sm font-medium text-slate-700">{t("documents.fields.file")}</label>
-              <input
-                type="file"
-                accept="application/pdf"
-                onChange={(event) => setFile(event.target.files?.[0] ?? null)}
-                className="mt-2 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-slate-700">{t("documents.fields.trade")}</label>
-              <select
-                value={trade}
-                onChange={(event) => {
-                  hasTradeOverride.current = true
-                  setTrade(event.target.value)
-                }}
-                className="mt-2 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
-              >
-                <option value="electrical">{t("documents.tradeOptions.electrical")}</option>
-                <option value="general">{t("documents.tradeOptions.general")}</option>
-                <option value="mechanical">{t("documents.tradeOptions.mechanical")}</option>
-              </select>
-            </div>
-            <button
-              type="submit"
-              disabled={uploadState !== "idle" || !file}
-              className="inline-flex w-full items-center justify-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
-            >
-              {uploadState === "uploading"
-                ? t("app.loading")
-                : uploadState === "processing"
-                  ? t("documents.processing")
-                  : t("actions.upload")}
-            </button>
-          </form>
         </section>
+        <UploadPanel
+          defaultTrade={(profile?.org?.primary_trade ?? initialProfile?.org?.primary_trade ?? "electrical").toLowerCase()}
+          email={profile?.user?.email}
+          onUploaded={handleUploaded}
+          onProcessed={handleProcessed}
+        />
       </div>
     </AppShell>
   )
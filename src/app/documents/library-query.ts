@@ -0,0 +1,68 @@
+export const DOCUMENT_PAGE_SIZE = 10
+
+/** The detail page lists every requirement extracted from a document on one page. */
+export const DOCUMENT_REQUIREMENT_LIMIT = 100
+
+export const DOCUMENT_STATUSES = ["PROCESSING", "READY", "FAILED"] as const
+export const DOCUMENT_CLASSIFICATIONS = ["requirements", "permit", "training", "uncategorized"] as const
+export const DOCUMENT_SORTS = ["created_at", "extracted_at"] as const
+
+export type DocumentStatus = (typeof DOCUMENT_STATUSES)[number]
+export type DocumentSort = (typeof DOCUMENT_SORTS)[number]
+export type SortOrder = "asc" | "desc"
+
+export type DocumentQuery = {
+  page: number
+  q: string
+  statuses: DocumentStatus[]
+  classification: string | null
+  sort: DocumentSort
+  order: SortOrder
+}
+
+type ParamReader = (key: string) => string | null | undefined
+
+/** Reads the library state from URL params, dropping anything unknown. */
+export function parseDocumentQuery(read: ParamReader): DocumentQuery {
+  const page = Number.parseInt(read("page") ?? "", 10)
+  const statuses = (read("status") ?? "")
+    .split(",")
+    .map((token) => token.trim().toUpperCase())
+    .filter((token): token is DocumentStatus => (DOCUMENT_STATUSES as readonly string[]).includes(token))
+  const classification = read("classification")
+  const sort = read("sort")
+  return {
+    page: Number.isNaN(page) || page < 1 ? 1 : page,
+    q: (read("q") ?? "").trim(),
+    statuses,
+    classification:
+      classification && (DOCUMENT_CLASSIFICATIONS as readonly string[]).includes(classification) ? classification : null,
+    sort: sort && (DOCUMENT_SORTS as readonly string[]).includes(sort) ? (sort as DocumentSort) : "created_at",
+    order: read("order") === "asc" ? "asc" : "desc",
+  }
+}
+
+export function toApiParams(query: DocumentQuery): Record<string, string | number> {
+  const params: Record<string, string | number> = {
+    page: query.page,
+    limit: DOCUMENT_PAGE_SIZE,
+    sort: query.sort,
+    order: query.order,
+  }
+  if (query.q) params.q = query.q
+  if (query.statuses.length > 0) params.status = query.statuses.join(",")
+  if (query.classification) params.classification = query.classification
+  return params
+}
+
+/** URL params for a query; defaults are left out to keep links short. */
+export function toSearchParams(query: DocumentQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.q) params.set("q", query.q)
+  if (query.statuses.length > 0) params.set("status", query.statuses.join(","))
+  if (query.classification) params.set("classification", query.classification)
+  if (query.sort !== "created_at") params.set("sort", query.sort)
+  if (query.order !== "desc") params.set("order", query.order)
+  if (query.page > 1) params.set("page", String(query.page))
+  return params
+}
@@ -1,36 +1,31 @@
 import { DocumentsClient, DocumentsResponse } from "@/app/documents/documents-client"
+import { parseDocumentQuery, toApiParams } from "@/app/documents/library-query"
 import { AuthMeResponse } from "@/hooks/useAuthedProfile"
-import { serverApiFetch } from "@/lib/api/server"
-import { ApiError } from "@/lib/api/client"
+import { serverApiFetch, serverPrefetch } from "@/lib/api/server"
 
-async function fetchInitialDocuments(): Promise<{
-  profile: AuthMeResponse | null
-  documents: DocumentsResponse | null
-}> {
-  let profile: AuthMeResponse | null = null
-  let documents: DocumentsResponse | null = null
+type SearchParams = Record<string, string | string[] | undefined>
 
-  try {
-    profile = await serverApiFetch<AuthMeResponse>("/auth/me")
-  } catch (error) {
-    if (!(error instanceof ApiError && error.status === 401)) {
-      console.warn("[documents] profile prefetch failed", error)
-    }
-  }
+type PageProps = {
+  searchParams: Promise<SearchParams>
+}
 
-  try {
-    documents = await serverApiFetch<DocumentsResponse>("/documents", { searchParams: { limit: 5 } })
-  } catch (error) {
-    if (!(error instanceof ApiError && error.status === 401)) {
-      console.warn("[documents] documents prefetch failed", error)
-    }
-  }
+async function fetchInitialDocuments(searchParams: SearchParams) {
+  const query = parseDocumentQuery((key) => {
+    const value = searchParams[key]
+    return Array.isArray(value) ? value[0] : value
+  })
 
+  const [profile, documents] = await Promise.all([
+    serverPrefetch("documents", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch("documents", () =>
+      serverApiFetch<DocumentsResponse>("/documents", { searchParams: toApiParams(query) }),
+    ),
+  ])
   return { profile, documents }
 }
 
-export default async function DocumentsPage() {
-  const initialData = await fetchInitialDocuments()
+export default async function DocumentsPage({ searchParams }: PageProps) {
+  const initialData = await fetchInitialDocuments(await searchParams)
 
   return (
     <DocumentsClient
@@ -0,0 +1,241 @@
+"use client"
+
+import { DragEvent, useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import clsx from "clsx"
+import { useTranslation } from "react-i18next"
+
+import { useLocale } from "@/components/locale-provider"
+import { Badge, type BadgeVariant } from "@/components/ui/badge"
+import { FieldErrorMessage, FieldErrorSummary } from "@/components/ui/field-error"
+import { useUploadQueue } from "@/hooks/useUploadQueue"
+import { mapFieldErrors } from "@/lib/api/client"
+import { CANCELLABLE_STATUSES, RETRYABLE_STATUSES, type UploadItem, type UploadStatus } from "@/lib/upload-queue"
+
+const TRADES = ["electrical", "general", "mechanical"] as const
+
+const STATUS_META: Record<UploadStatus, { key: string; defaultLabel: string; variant: BadgeVariant }> = {
+  pending: { key: "documents.queue.statuses.pending", defaultLabel: "Not sent", variant: "muted" },
+  queued: { key: "documents.queue.statuses.queued", defaultLabel: "Waiting", variant: "default" },
+  paused: { key: "documents.queue.statuses.paused", defaultLabel: "Waiting for sign-in", variant: "muted" },
+  uploading: { key: "documents.queue.statuses.uploading", defaultLabel: "Uploading", variant: "default" },
+  processing: { key: "documents.statuses.processing", defaultLabel: "Processing", variant: "warning" },
+  ready: { key: "documents.statuses.ready", defaultLabel: "Ready", variant: "success" },
+  failed: { key: "documents.statuses.failed", defaultLabel: "Failed", variant: "danger" },
+  cancelled: { key: "documents.queue.statuses.cancelled", defaultLabel: "Cancelled", variant: "muted" },
+}
+
+/** Trade can still change until the file is sent. */
+const TRADE_EDITABLE: UploadStatus[] = ["pending", "failed", "cancelled"]
+
+const UPLOAD_FIELD_CONTROLS = { file: "file", trade: "trade" } as const
+
+type UploadPanelProps = {
+  defaultTrade: string
+  email?: string | null
+  onUploaded: (item: UploadItem) => void
+  onProcessed: (item: UploadItem) => void
+}
+
+export function UploadPanel({ defaultTrade, email, onUploaded, onProcessed }: UploadPanelProps) {
+  const { locale } = useLocale()
+  const { t } = useTranslation()
+  const { items, addFiles, startPending, setTrade, retry, cancel, remove, clearFinished } = useUploadQueue({
+    onUploaded,
+    onProcessed,
+  })
+
+  const [trade, setDefaultTrade] = useState(defaultTrade)
+  const hasTradeOverride = useRef(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  useEffect(() => {
+    if (!hasTradeOverride.current) {
+      setDefaultTrade(defaultTrade)
+    }
+  }, [defaultTrade])
+
+  const sizeFormatter = new Intl.NumberFormat(locale, { style: "unit", unit: "megabyte", maximumFractionDigits: 1 })
+  const pendingCount = items.filter((item) => item.status === "pending").length
+  const readyCount = items.filter((item) => item.status === "ready").length
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    addFiles(Array.from(event.dataTransfer.files), trade)
+  }
+
+  const tradeSelect = (
+    value: string,
+    onChange: (next: string) => void,
+    label: string,
+    disabled = false,
+    errorId?: string,
+  ) => (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      disabled={disabled}
+      aria-label={label}
+      aria-invalid={errorId ? true : undefined}
+      aria-describedby={errorId}
+      className="rounded-lg border border-slate-300 px-2 py-1 text-xs disabled:bg-slate-50 disabled:text-slate-500"
+    >
+      {TRADES.map((option) => (
+        <option key={option} value={option}>
+          {t(`documents.tradeOptions.${option}`)}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <section className="lg:col-span-1 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="mb-4">
+        <h3 className="text-base font-semibold text-slate-900">{t("documents.uploadNew")}</h3>
+        {email && <p className="mt-1 text-xs text-slate-500">{email}</p>}
+      </div>
+
+      <div
+        onDragOver={(event) => {
+          event.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={clsx(
+          "flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed px-4 py-8 text-center text-sm transition",
+          isDragging ? "border-blue-400 bg-blue-50" : "border-slate-300",
+        )}
+        data-testid="upload-dropzone"
+      >
+        <p className="font-medium text-slate-700">{t("documents.queue.dropTitle", { defaultValue: "Drag PDFs here" })}</p>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="text-sm font-medium text-blue-600 hover:underline"
+        >
+          {t("documents.queue.browse", { defaultValue: "or choose files" })}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/pdf"
+          multiple
+          aria-label={t("documents.fields.file")}
+          onChange={(event) => {
+            addFiles(Array.from(event.target.files ?? []), trade)
+            event.target.value = ""
+          }}
+          className="hidden"
+        />
+      </div>
+
+      <label className="mt-4 flex items-center justify-between gap-3 text-sm font-medium text-slate-700">
+        {t("documents.queue.defaultTrade", { defaultValue: "Trade for new files" })}
+        {tradeSelect(
+          trade,
+          (next) => {
+            hasTradeOverride.current = true
+            setDefaultTrade(next)
+          },
+          t("documents.fields.trade"),
+        )}
+      </label>
+
+      {items.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-100" aria-label={t("documents.queue.title", { defaultValue: "Upload queue" })}>
+          {items.map((item) => {
+            const meta = STATUS_META[item.status]
+            const { byField, unmatched } = mapFieldErrors(item.fieldErrors ?? [], UPLOAD_FIELD_CONTROLS)
+            return (
+              <li key={item.id} className="space-y-2 py-3 text-sm" data-upload-status={item.status}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    {item.status === "ready" && item.documentId ? (
+                      <Link href={`/documents/${item.documentId}`} className="block truncate font-medium text-slate-900 hover:underline">
+                        {item.name}
+                      </Link>
+                    ) : (
+                      <p className="truncate font-medium text-slate-900">{item.name}</p>
+                    )}
+                    <p className="text-xs text-slate-500">{sizeFormatter.format(item.size / 1_000_000)}</p>
+                    <FieldErrorMessage id={`upload-${item.id}-file-error`} error={byField.file} />
+                  </div>
+                  <Badge variant={meta.variant}>
+                    {item.status === "uploading"
+                      ? t("documents.queue.progress", {
+                          defaultValue: "Uploading {{percent}}%",
+                          percent: Math.round(item.progress * 100),
+                        })
+                      : t(meta.key, { defaultValue: meta.defaultLabel })}
+                  </Badge>
+                </div>
+                {item.status === "uploading" && (
+                  <div className="h-1.5 overflow-hidden rounded-full bg-slate-100">
+                    <div
+                      className="h-full rounded-full bg-blue-600 transition-[width]"
+                      style={{ width: `${Math.round(item.progress * 100)}%` }}
+                      role="progressbar"
+                      aria-valuenow={Math.round(item.progress * 100)}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-label={item.name}
+                    />
+                  </div>
+                )}
+                {item.error && <p className="text-xs text-rose-600">{item.error}</p>}
+                <FieldErrorSummary errors={unmatched} />
+                <div className="flex flex-wrap items-center gap-2">
+                  {tradeSelect(
+                    item.trade,
+                    (next) => setTrade(item.id, next),
+                    t("documents.queue.tradeFor", { defaultValue: "Trade for {{name}}", name: item.name }),
+                    !TRADE_EDITABLE.includes(item.status),
+                    byField.trade ? `upload-${item.id}-trade-error` : undefined,
+                  )}
+                  {RETRYABLE_STATUSES.includes(item.status) && (
+                    <button type="button" onClick={() => retry(item.id)} className="text-xs font-medium text-blue-600 hover:underline">
+                      {t("documents.queue.retry", { defaultValue: "Retry" })}
+                    </button>
+                  )}
+                  {CANCELLABLE_STATUSES.includes(item.status) ? (
+                    <button type="button" onClick={() => cancel(item.id)} className="text-xs font-medium text-slate-600 hover:underline">
+                      {t("actions.cancel")}
+                    </button>
+                  ) : (
+                    item.status !== "processing" && (
+                      <button type="button" onClick={() => remove(item.id)} className="text-xs font-medium text-slate-600 hover:underline">
+                        {t("documents.queue.remove", { defaultValue: "Remove" })}
+                      </button>
+                    )
+                  )}
+                </div>
+                <FieldErrorMessage id={`upload-${item.id}-trade-error`} error={byField.trade} />
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="mt-4 space-y-2">
+        <button
+          type="button"
+          onClick={startPending}
+          disabled={pendingCount === 0}
+          className="inline-flex w-full items-center justify-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+        >
+          {pendingCount > 0
+            ? t("documents.queue.uploadCount", { count: pendingCount, defaultValue: "Upload {{count}} files" })
+            : t("actions.upload")}
+        </button>
+        {readyCount > 0 && (
+          <button type="button" onClick={clearFinished} className="w-full text-xs font-medium text-slate-600 hover:underline">
+            {t("documents.queue.clearFinished", { defaultValue: "Clear processed files" })}
+          </button>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -1,9 +1,16 @@
 import type { Metadata } from "next"
 import { Geist, Geist_Mono } from "next/font/google"
+import { cookies } from "next/headers"
 
 import { LocaleProvider } from "@/components/locale-provider"
+import { OrgProvider } from "@/components/org-provider"
+import { OutboxProvider } from "@/components/outbox-provider"
+import { RealtimeProvider } from "@/components/realtime-provider"
+import { SessionProvider } from "@/components/session-provider"
 import { ThemeProvider } from "@/components/theme-provider"
 import { AppToaster } from "@/components/ui/toaster"
+import { LOCALE_COOKIE, normalizeLocale } from "@/lib/locale"
+import { ORG_COOKIE } from "@/lib/org"
 
 import "./globals.css"
 
@@ -22,17 +29,27 @@ export const metadata: Metadata = {
   description: "Compliance cockpit for trade contractors",
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const cookieStore = await cookies()
+  const locale = normalizeLocale(cookieStore.get(LOCALE_COOKIE)?.value)
+  const orgId = cookieStore.get(ORG_COOKIE)?.value ?? null
+
   return (
-    <html lang="en" data-theme="light">
+    <html lang={locale} data-theme="light">
       <body className={`${geistSans.variable} ${geistMono.variable} bg-[color:var(--background)] text-[color:var(--foreground)] antialiased`}>
         <ThemeProvider>
-          <LocaleProvider>
-            {children}
+          <LocaleProvider initialLocale={locale}>
+            <SessionProvider>
+              <OrgProvider initialOrgId={orgId}>
+                <OutboxProvider>
+                  <RealtimeProvider>{children}</RealtimeProvider>
+                </OutboxProvider>
+              </OrgProvider>
+            </SessionProvider>
             <AppToaster />
           </LocaleProvider>
         </ThemeProvider>
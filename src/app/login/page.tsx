@@ -1,93 +1,273 @@
 "use client"
-import { FormEvent, useState } from "react"
+import { FormEvent, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useTranslation } from "react-i18next"
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000"
+import { LanguageToggle } from "@/components/language-toggle"
+import { useLocale } from "@/components/locale-provider"
+import { ApiError, fieldErrorsOf, formatFieldError } from "@/lib/api/client"
+import {
+  DEFAULT_RESEND_COOLDOWN_SECONDS,
+  LOGIN_CODE_LENGTH,
+  readResendCooldown,
+  requestMagicLink,
+  resendCooldownOf,
+  saveResendCooldown,
+  signInProblem,
+  verifyLoginCode,
+} from "@/lib/auth"
+import { RETURN_TO_PARAM, safeRedirectPath } from "@/lib/session"
 
-const localeOptions = [
-  { value: "en", label: "English" },
-  { value: "es", label: "Español" },
-]
+// "code" is the code form without a fresh link, for an email that already arrived.
+type Step = "email" | "sent" | "code"
+
+// Set by SessionProvider when a session expired, so signing in returns there.
+const returnPath = () => safeRedirectPath(new URLSearchParams(window.location.search).get(RETURN_TO_PARAM))
 
 export default function LoginPage() {
+  const { t } = useTranslation()
+  const { locale } = useLocale()
+  const router = useRouter()
+  const [step, setStep] = useState<Step>("email")
   const [email, setEmail] = useState("")
-  const [locale, setLocale] = useState("en")
-  const [status, setStatus] = useState<"idle" | "sending" | "sent" | "error">("idle")
+  const [code, setCode] = useState("")
+  const [isSending, setIsSending] = useState(false)
+  const [isVerifying, setIsVerifying] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [emailError, setEmailError] = useState<string | null>(null)
+  const [codeError, setCodeError] = useState<string | null>(null)
+  const [resendAt, setResendAt] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    setStatus("sending")
-    setError(null)
+  // A reload while waiting for the email comes back to the code form.
+  useEffect(() => {
+    const cooldown = readResendCooldown()
+    if (cooldown) {
+      setEmail(cooldown.email)
+      setResendAt(cooldown.until)
+      setStep("sent")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (resendAt <= now) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [now, resendAt])
+
+  const secondsLeft = Math.max(0, Math.ceil((resendAt - now) / 1000))
+
+  const startCooldown = (seconds: number) => {
+    const current = Date.now()
+    saveResendCooldown(email, seconds)
+    setNow(current)
+    setResendAt(current + seconds * 1000)
+  }
 
+  const sendLink = async () => {
+    setIsSending(true)
+    setError(null)
+    setEmailError(null)
     try {
-      const response = await fetch(`${API_URL}/auth/magic-link`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, preferred_locale: locale, redirect_path: "/documents" }),
-      })
-
-      if (!response.ok) {
-        const payload = await response.json().catch(() => ({ detail: "Unable to send link" }))
-        throw new Error(payload.detail ?? "Unable to send link")
+      const response = await requestMagicLink({ email, preferred_locale: locale, redirect_path: returnPath() })
+      startCooldown(response.resend_after_seconds ?? DEFAULT_RESEND_COOLDOWN_SECONDS)
+      setStep("sent")
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 429) {
+        startCooldown(resendCooldownOf(err))
+        setStep("sent")
+        setError(t("login.tooManyRequests", { defaultValue: "A link was sent recently. Check your inbox or wait to request another." }))
+        return
+      }
+      const fieldError = fieldErrorsOf(err).find((item) => item.field === "email")
+      if (fieldError) {
+        setEmailError(formatFieldError(fieldError, t))
+        return
       }
+      setError(
+        signInProblem(err) === "unavailable"
+          ? t("login.sendFailed", { defaultValue: "We couldn't send the link. Check your connection and try again." })
+          : err instanceof Error
+            ? err.message
+            : t("app.error"),
+      )
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleSubmitEmail = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    void sendLink()
+  }
 
-      setStatus("sent")
+  const handleSubmitCode = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsVerifying(true)
+    setError(null)
+    setCodeError(null)
+    try {
+      const response = await verifyLoginCode(email, code.trim())
+      // The path round-trips through the backend; never follow it off-site.
+      router.replace(safeRedirectPath(response.redirect_path ?? returnPath()))
     } catch (err) {
-      setStatus("error")
-      setError(err instanceof Error ? err.message : "Unable to send link")
+      switch (signInProblem(err)) {
+        case "expired":
+          setCodeError(
+            t("login.codeExpired", { defaultValue: "This code has expired or was already used. Send a new link to get a new code." }),
+          )
+          break
+        case "invalid":
+          setCodeError(t("login.codeInvalid", { defaultValue: "That code is not correct. Check the email and try again." }))
+          break
+        default:
+          setError(t("login.verifyFailed", { defaultValue: "We couldn't check the code. Check your connection and try again." }))
+      }
+      setIsVerifying(false)
     }
   }
 
+  const changeEmail = () => {
+    setStep("email")
+    setCode("")
+    setError(null)
+    setCodeError(null)
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-slate-50 p-6">
       <div className="w-full max-w-md rounded-lg bg-white p-8 shadow">
-        <h1 className="text-2xl font-bold text-slate-900">Compliance Copilot</h1>
-        <p className="mt-2 text-sm text-slate-600">
-          Enter your email to receive a secure login link. No password needed.
-        </p>
-
-        <form className="mt-6 space-y-4" onSubmit={handleSubmit}>
-          <div>
-            <label className="block text-sm font-medium text-slate-700">Email</label>
-            <input
-              type="email"
-              required
-              value={email}
-              onChange={(event) => setEmail(event.target.value)}
-              className="mt-1 w-full rounded border border-slate-300 p-2 focus:border-blue-600 focus:outline-none"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-700">Language</label>
-            <select
-              value={locale}
-              onChange={(event) => setLocale(event.target.value)}
-              className="mt-1 w-full rounded border border-slate-300 p-2"
-            >
-              {localeOptions.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
-          </div>
-          <button
-            type="submit"
-            disabled={status === "sending"}
-            className="w-full rounded bg-blue-600 py-2 text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
-          >
-            {status === "sending" ? "Sending link..." : "Send magic link"}
-          </button>
-        </form>
-
-        {status === "sent" && (
-          <p className="mt-4 rounded bg-green-50 p-3 text-sm text-green-700">
-            Magic link sent! Check your inbox to continue.
-          </p>
-        )}
-        {status === "error" && error && (
-          <p className="mt-4 rounded bg-red-50 p-3 text-sm text-red-700">{error}</p>
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-2xl font-bold text-slate-900">{t("app.name")}</h1>
+          <LanguageToggle />
+        </div>
+
+        {step === "email" ? (
+          <>
+            <p className="mt-2 text-sm text-slate-600">
+              {t("login.intro", { defaultValue: "Enter your email to receive a secure sign-in link. No password needed." })}
+            </p>
+            <form className="mt-6 space-y-4" onSubmit={handleSubmitEmail} noValidate>
+              <div>
+                <label htmlFor="login-email" className="block text-sm font-medium text-slate-700">
+                  {t("login.email", { defaultValue: "Email" })}
+                </label>
+                <input
+                  id="login-email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(event) => {
+                    setEmail(event.target.value)
+                    setEmailError(null)
+                  }}
+                  aria-invalid={emailError ? true : undefined}
+                  aria-describedby={emailError ? "login-email-error" : undefined}
+                  className="mt-1 w-full rounded border border-slate-300 p-2 focus:border-blue-600 focus:outline-none"
+                />
+                {emailError && (
+                  <p id="login-email-error" className="mt-1 text-sm text-red-700">
+                    {emailError}
+                  </p>
+                )}
+              </div>
+              <button
+                type="submit"
+                disabled={isSending || !email.trim()}
+                className="w-full rounded bg-blue-600 py-2 text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+              >
+                {isSending
+                  ? t("login.sending", { defaultValue: "Sending link…" })
+                  : t("login.send", { defaultValue: "Send sign-in link" })}
+              </button>
+              <button
+                type="button"
+                onClick={() => setStep("code")}
+                disabled={!email.trim()}
+                className="w-full text-sm font-medium text-blue-700 hover:underline disabled:cursor-not-allowed disabled:text-slate-400 disabled:no-underline"
+              >
+                {t("login.haveCode", { defaultValue: "I already have a code" })}
+              </button>
+            </form>
+          </>
+        ) : (
+          <>
+            {step === "sent" ? (
+              <div className="mt-4 rounded bg-green-50 p-3 text-sm text-green-700" role="status">
+                {t("login.sent", {
+                  email,
+                  defaultValue: "We sent a sign-in link to {{email}}. Open it on this device to continue.",
+                })}
+              </div>
+            ) : (
+              <p className="mt-2 text-sm text-slate-600">
+                {t("login.codeFor", { email, defaultValue: "Signing in as {{email}}." })}
+              </p>
+            )}
+
+            <form className="mt-6 space-y-3" onSubmit={handleSubmitCode}>
+              <label htmlFor="login-code" className="block text-sm font-medium text-slate-700">
+                {t("login.codeLabel", {
+                  digits: LOGIN_CODE_LENGTH,
+                  defaultValue: "Link not working? Enter the {{digits}}-digit code from the email.",
+                })}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="login-code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  pattern="[0-9]*"
+                  maxLength={LOGIN_CODE_LENGTH}
+                  value={code}
+                  onChange={(event) => {
+                    setCode(event.target.value.replace(/\D/g, ""))
+                    setCodeError(null)
+                  }}
+                  aria-invalid={codeError ? true : undefined}
+                  aria-describedby={codeError ? "login-code-error" : undefined}
+                  className="w-full rounded border border-slate-300 p-2 font-mono tracking-widest focus:border-blue-600 focus:outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={isVerifying || code.length !== LOGIN_CODE_LENGTH}
+                  className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+                >
+                  {isVerifying
+                    ? t("login.verifying", { defaultValue: "Signing in…" })
+                    : t("login.verify", { defaultValue: "Sign in" })}
+                </button>
+              </div>
+              {codeError && (
+                <p id="login-code-error" className="text-sm text-red-700">
+                  {codeError}
+                </p>
+              )}
+            </form>
+
+            <div className="mt-6 flex flex-wrap items-center justify-between gap-2 text-sm">
+              <button
+                type="button"
+                onClick={() => void sendLink()}
+                disabled={isSending || secondsLeft > 0}
+                className="font-medium text-blue-700 hover:underline disabled:cursor-not-allowed disabled:text-slate-400 disabled:no-underline"
+              >
+                {secondsLeft > 0
+                  ? t("login.resendIn", { seconds: secondsLeft, defaultValue: "Resend link in {{seconds}}s" })
+                  : step === "sent"
+                    ? t("login.resend", { defaultValue: "Resend link" })
+                    : t("login.sendNew", { defaultValue: "Send a new link" })}
+              </button>
+              <button type="button" onClick={changeEmail} className="text-slate-600 hover:underline">
+                {t("login.differentEmail", { defaultValue: "Use a different email" })}
+              </button>
+            </div>
+          </>
         )}
+
+        {error && <p className="mt-4 rounded bg-red-50 p-3 text-sm text-red-700">{error}</p>}
       </div>
     </div>
   )
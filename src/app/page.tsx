@@ -1,5 +1,38 @@
-import { redirect } from "next/navigation"
+import { DashboardClient, type DashboardData } from "@/app/dashboard-client"
+import type { DocumentsResponse } from "@/app/documents/documents-client"
+import type { Permit } from "@/app/permits/permits-client"
+import type { RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { serverApiFetch, serverPrefetch } from "@/lib/api/server"
+import { DOCUMENT_ATTENTION_QUERY, REQUIREMENT_TILE_KEYS, tileQuery } from "@/lib/dashboard"
 
-export default function Home() {
-  redirect("/documents")
+async function fetchInitialDashboard(): Promise<DashboardData> {
+  const [profile, requirementPages, permits, training, documents] = await Promise.all([
+    serverPrefetch("dashboard", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch("dashboard", () =>
+      Promise.all(
+        REQUIREMENT_TILE_KEYS.map((key) =>
+          serverApiFetch<RequirementsResponse>("/requirements", { searchParams: tileQuery(key) }),
+        ),
+      ),
+    ),
+    serverPrefetch("dashboard", () => serverApiFetch<Permit[]>("/permits")),
+    serverPrefetch("dashboard", () => serverApiFetch<TrainingCert[]>("/training")),
+    serverPrefetch("dashboard", () =>
+      serverApiFetch<DocumentsResponse>("/documents", { searchParams: DOCUMENT_ATTENTION_QUERY }),
+    ),
+  ])
+  const requirements = requirementPages
+    ? (Object.fromEntries(
+        REQUIREMENT_TILE_KEYS.map((key, index) => [key, requirementPages[index]]),
+      ) as DashboardData["requirements"])
+    : null
+  return { profile, requirements, permits, training, documents }
+}
+
+export default async function Home() {
+  const initialData = await fetchInitialDashboard()
+
+  return <DashboardClient initialData={initialData} />
 }
@@ -11,10 +11,11 @@ import { useLocale } from "@/components/locale-provider"
 import { DataTable } from "@/components/ui/data-table"
 import { Badge, type BadgeVariant } from "@/components/ui/badge"
 import { Pagination } from "@/components/ui/pagination"
+import { ReminderDialog } from "@/components/reminder-dialog"
 import { ApiError, API_URL } from "@/lib/api/client"
 import { EyeIcon, BellIcon } from "@/components/ui/icons"
-import { setMockToastMessage } from "@/lib/testing"
 import { formatDate, isDueWithin, isOverdue } from "@/lib/dates"
+import type { ReminderSubject } from "@/lib/reminders"
 import { useApiData } from "@/hooks/useApiData"
 import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
 import { usePersistedLocale } from "@/hooks/usePersistedLocale"
@@ -53,6 +54,7 @@ export function PermitsClient({ initialPermits, initialProfile }: PermitsClientP
   const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
 
   const [page, setPage] = useState(1)
+  const [reminderSubject, setReminderSubject] = useState<ReminderSubject | null>(null)
   const [permitRows, setPermitRows] = useState<Permit[]>(() => initialPermits ?? [])
 
   const {
@@ -108,15 +110,14 @@ export function PermitsClient({ initialPermits, initialProfile }: PermitsClientP
     [t],
   )
 
-  const handleRenew = useCallback(
-    (record: Permit) => {
-      toast.info(t("permits.renewReminder"), {
-        description: record.name,
-      })
-      setMockToastMessage(t("permits.renewReminder"))
-    },
-    [t],
-  )
+  const handleRenew = useCallback((record: Permit) => {
+    setReminderSubject({
+      type: "permit",
+      id: record.id,
+      title: record.name,
+      dueDate: record.expires_at ?? null,
+    })
+  }, [])
 
   const columns = useMemo<ColumnDef<Permit>[]>(() => {
     return [
@@ -241,6 +242,11 @@ export function PermitsClient({ initialPermits, initialProfile }: PermitsClientP
           />
         </div>
       </div>
+      <ReminderDialog
+        subject={reminderSubject}
+        defaultRecipient={profile?.user?.email}
+        onClose={() => setReminderSubject(null)}
+      />
     </AppShell>
   )
 }
@@ -1,39 +1,26 @@
 import { notFound } from "next/navigation"
 
 import { AppShell } from "@/components/layout/app-shell"
-import { serverApiFetch } from "@/lib/api/server"
+import { SERVER_PREFETCH_ENABLED, serverApiFetch, serverPrefetch } from "@/lib/api/server"
 
 import type { Requirement } from "@/app/requirements/requirements-client"
 import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
 import { RequirementDetailClient } from "@/app/requirements/[id]/requirement-detail-client"
-import { ApiError } from "@/lib/api/client"
+import { RequirementDetailLoader } from "@/app/requirements/[id]/requirement-detail-loader"
 
 async function fetchRequirement(id: string) {
-  let profile: AuthMeResponse | null = null
-  let requirement: Requirement | null = null
-
-  try {
-    profile = await serverApiFetch<AuthMeResponse>("/auth/me")
-  } catch (error) {
-    if (!(error instanceof ApiError && error.status === 401)) {
-      console.warn("[requirements] profile fetch failed", error)
-    }
-  }
-
-  try {
-    requirement = await serverApiFetch<Requirement>(`/requirements/${id}`)
-  } catch (error) {
-    if (!(error instanceof ApiError && error.status === 401)) {
-      console.warn(`[requirements:${id}] fetch failed`, error)
-    }
-    requirement = null
-  }
-
+  const [profile, requirement] = await Promise.all([
+    serverPrefetch("requirements", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch(`requirements:${id}`, () => serverApiFetch<Requirement>(`/requirements/${id}`)),
+  ])
   return { profile, requirement }
 }
 
 export default async function RequirementDetailPage({ params }: { params: { id: string } | Promise<{ id: string }> }) {
   const resolved = await Promise.resolve(params)
+  if (!SERVER_PREFETCH_ENABLED) {
+    return <RequirementDetailLoader id={resolved.id} />
+  }
   const { profile, requirement } = await fetchRequirement(resolved.id)
 
   if (!requirement) {
@@ -1,16 +1,43 @@
 "use client"
 
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 import { useTranslation } from "react-i18next"
 
 import { LanguageToggle } from "@/components/language-toggle"
 import { useLocale } from "@/components/locale-provider"
+import { MemberPicker } from "@/components/member-picker"
+import { useOrg } from "@/components/org-provider"
+import { PdfSourceViewer } from "@/components/pdf-source-viewer"
+import { ReminderDialog } from "@/components/reminder-dialog"
+import { useUnsavedChanges } from "@/components/session-provider"
+import { Badge } from "@/components/ui/badge"
+import { FieldErrorMessage, FieldErrorSummary } from "@/components/ui/field-error"
+import { useApiData } from "@/hooks/useApiData"
 import { usePersistedLocale } from "@/hooks/usePersistedLocale"
-import { apiFetch, ApiError } from "@/lib/api/client"
+import { useRequirementCache } from "@/hooks/useRequirementCache"
+import { API_URL, apiFetch, ApiError, fieldErrorsOf, mapFieldErrors, type FieldError } from "@/lib/api/client"
 import { formatDate } from "@/lib/dates"
+import { assigneeOf, memberLabel } from "@/lib/members"
+import { orgHeaders } from "@/lib/org"
+import type { ReminderSubject } from "@/lib/reminders"
+import { parseSourceRef } from "@/lib/source-ref"
+import {
+  ANCHOR_TYPES,
+  FREQUENCIES,
+  completionHistory,
+  parseAnchorType,
+  parseFrequency,
+  requiresInterval as frequencyRequiresInterval,
+  ruleFromRequirement,
+  type RecurrenceRule,
+} from "@/lib/recurrence"
+import type { DocumentRecord } from "@/app/documents/documents-client"
 import type { Requirement } from "@/app/requirements/requirements-client"
+import { SchedulePreview } from "@/app/requirements/schedule-preview"
+import { TRIAGE_FIELD_CONTROLS, type TriageControl } from "@/app/requirements/triage-panel"
 import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
 
 type StatusOption = {
@@ -36,27 +63,6 @@ const STATUS_OPTIONS: StatusOption[] = [
   STATUS_LABELS.DONE,
 ]
 
-const TRIAGE_FREQUENCIES = [
-  "BEFORE_EACH_USE",
-  "DAILY",
-  "WEEKLY",
-  "MONTHLY",
-  "QUARTERLY",
-  "ANNUAL",
-  "EVERY_N_DAYS",
-  "EVERY_N_WEEKS",
-  "EVERY_N_MONTHS",
-  "ONE_TIME",
-] as const
-
-const TRIAGE_ANCHORS = [
-  "UPLOAD_DATE",
-  "ISSUE_DATE",
-  "CALENDAR",
-  "FIRST_COMPLETION",
-  "CUSTOM_DATE",
-] as const
-
 const deriveDateInput = (value: string | null | undefined): string => {
   if (!value) return ""
   try {
@@ -80,12 +86,10 @@ const deriveAnchorMeta = (value: Record<string, unknown> | null | undefined) =>
   return { date, interval }
 }
 
+// A deactivated assignee starts the form empty: sending them back would be refused.
 const extractAssignee = (requirement: Requirement) => {
-  const attrs = (requirement.attributes ?? {}) as Record<string, unknown>
-  const fromRoot = typeof attrs.assignee === "string" ? attrs.assignee : undefined
-  const triageMeta = (attrs.triage ?? {}) as Record<string, unknown>
-  const fromTriage = typeof triageMeta.assignee === "string" ? triageMeta.assignee : undefined
-  return (fromRoot ?? fromTriage ?? "") as string
+  const assignee = assigneeOf(requirement)
+  return assignee?.active ? assignee.email : ""
 }
 
 const humanizeToken = (value: string) =>
@@ -131,6 +135,7 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
   const { locale, setLocale } = useLocale()
   const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
   const { t } = useTranslation()
+  const { orgId } = useOrg()
 
   const [currentRequirement, setCurrentRequirement] = useState(requirement)
   const [baselineStatus, setBaselineStatus] = useState(requirement.status ?? "OPEN")
@@ -140,6 +145,7 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
   const [isSaving, setIsSaving] = useState(false)
   const [isArchiving, setIsArchiving] = useState(false)
   const [isRestoring, setIsRestoring] = useState(false)
+  const [reminderSubject, setReminderSubject] = useState<ReminderSubject | null>(null)
   const initialFrequency = requirement.frequency ?? ""
   const initialAnchorType = requirement.anchor_type ?? ""
   const { date: initialAnchorDate, interval: initialInterval } = deriveAnchorMeta(
@@ -156,6 +162,10 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
   const [anchorDate, setAnchorDate] = useState(initialAnchorDate)
   const [intervalValue, setIntervalValue] = useState(initialInterval)
   const [assignee, setAssignee] = useState(initialAssignee)
+  const [serverErrors, setServerErrors] = useState<{
+    byField: Partial<Record<TriageControl, FieldError>>
+    unmatched: FieldError[]
+  }>({ byField: {}, unmatched: [] })
 
   const archiveMeta = useMemo(() => extractArchiveMeta(currentRequirement), [currentRequirement])
   const [archiveState, setArchiveState] = useState<string | null>(archiveMeta.state)
@@ -163,20 +173,31 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
   const [archiveRequestedAt, setArchiveRequestedAt] = useState<string | undefined>(archiveMeta.requestedAt)
   const [archiveRequestedBy, setArchiveRequestedBy] = useState<string | undefined>(archiveMeta.requestedBy)
 
+  // The list page publishes its optimistic and server copies here, so the
+  // form follows changes made elsewhere unless it has unsaved edits.
+  const { data: latestRequirement = requirement, mutate: refreshRequirement } = useApiData<Requirement>(
+    `/requirements/${requirement.id}`,
+    undefined,
+    { fallbackData: requirement },
+  )
+  const { publish } = useRequirementCache()
+  const isDirtyRef = useRef(false)
+
   useEffect(() => {
-    setCurrentRequirement(requirement)
-    const initialStatus = requirement.status ?? "OPEN"
-    const initialDue = deriveDateInput(requirement.due_date)
+    if (isDirtyRef.current) return
+    setCurrentRequirement(latestRequirement)
+    const initialStatus = latestRequirement.status ?? "OPEN"
+    const initialDue = deriveDateInput(latestRequirement.due_date)
     setBaselineStatus(initialStatus)
     setBaselineDueDate(initialDue)
     setStatus(initialStatus)
     setDueDate(initialDue)
-    const nextFrequency = requirement.frequency ?? ""
-    const nextAnchorType = requirement.anchor_type ?? ""
+    const nextFrequency = latestRequirement.frequency ?? ""
+    const nextAnchorType = latestRequirement.anchor_type ?? ""
     const { date: nextAnchorDate, interval: nextInterval } = deriveAnchorMeta(
-      requirement.anchor_value as Record<string, unknown> | undefined,
+      latestRequirement.anchor_value as Record<string, unknown> | undefined,
     )
-    const nextAssignee = extractAssignee(requirement)
+    const nextAssignee = extractAssignee(latestRequirement)
     setBaselineFrequency(nextFrequency)
     setFrequency(nextFrequency)
     setBaselineAnchorType(nextAnchorType)
@@ -187,12 +208,12 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
     setIntervalValue(nextInterval)
     setBaselineAssignee(nextAssignee)
     setAssignee(nextAssignee)
-    const initialArchive = extractArchiveMeta(requirement)
+    const initialArchive = extractArchiveMeta(latestRequirement)
     setArchiveState(initialArchive.state)
     setArchiveReason(initialArchive.reason)
     setArchiveRequestedAt(initialArchive.requestedAt)
     setArchiveRequestedBy(initialArchive.requestedBy)
-  }, [requirement])
+  }, [latestRequirement])
 
   const isTriageMode = baselineStatus === "PENDING_REVIEW"
   const triageDirty =
@@ -203,10 +224,29 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
     assignee !== baselineAssignee ||
     status !== baselineStatus ||
     dueDate !== baselineDueDate
-  const standardDirty = status !== baselineStatus || dueDate !== baselineDueDate
+  const standardDirty = status !== baselineStatus || dueDate !== baselineDueDate || assignee !== baselineAssignee
   const isDirty = isTriageMode ? triageDirty : standardDirty
+  useEffect(() => {
+    isDirtyRef.current = isDirty
+  })
+  useUnsavedChanges(isDirty)
   const retentionDisabled = archiveState === "archived"
 
+  const savedRule = useMemo(() => ruleFromRequirement(currentRequirement), [currentRequirement])
+  const completions = useMemo(() => completionHistory(currentRequirement), [currentRequirement])
+  const currentAssignee = assigneeOf(currentRequirement)
+  const draftRule = useMemo<RecurrenceRule | null>(() => {
+    const parsed = parseFrequency(frequency)
+    if (!parsed) return null
+    return {
+      frequency: parsed,
+      anchorType: parseAnchorType(anchorType),
+      anchorDate: anchorDate ? `${anchorDate}T00:00:00Z` : null,
+      interval: intervalValue ? Number(intervalValue) : null,
+      dueDate: dueDate ? `${dueDate}T00:00:00Z` : null,
+    }
+  }, [anchorDate, anchorType, dueDate, frequency, intervalValue])
+
   const retentionLabel = useMemo(() => {
     if (archiveState === "archived") {
       return t("requirements.detail.archivedBadge", { defaultValue: "Archived" })
@@ -230,6 +270,14 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
     return { title, description }
   }, [locale, currentRequirement.description_en, currentRequirement.description_es, currentRequirement.title_en, currentRequirement.title_es])
 
+  const { data: sourceDocument } = useApiData<DocumentRecord>(
+    currentRequirement.document_id ? `/documents/${currentRequirement.document_id}` : null,
+  )
+  const sourceUrl = sourceDocument?.download_path
+    ? `${API_URL}${sourceDocument.download_path}`
+    : sourceDocument?.download_url
+  const sourceLocation = useMemo(() => parseSourceRef(currentRequirement.source_ref), [currentRequirement.source_ref])
+
   const statusOptions = useMemo(() => {
     const base: StatusOption[] = [...STATUS_OPTIONS]
     if (
@@ -272,11 +320,6 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
     setArchiveRequestedBy(parsed.requestedBy)
   }
 
-  const syncRequirementFromServer = useCallback(async () => {
-    const latest = await apiFetch<Requirement>(`/requirements/${requirement.id}`)
-    hydrateFromResponse(latest)
-  }, [requirement.id])
-
   const handleBack = () => {
     if (isDirty) {
       const confirmed = window.confirm(
@@ -301,8 +344,17 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
     router.back()
   }
 
+  const clearFieldError = (control: TriageControl) =>
+    setServerErrors((prev) => (prev.byField[control] ? { ...prev, byField: { ...prev.byField, [control]: undefined } } : prev))
+
+  const fieldProps = (control: TriageControl) =>
+    serverErrors.byField[control]
+      ? { "aria-invalid": true, "aria-describedby": `requirement-${control}-error` }
+      : {}
+
   const handleSave = async () => {
     setIsSaving(true)
+    setServerErrors({ byField: {}, unmatched: [] })
     try {
       if (!isDirty) {
         toast.info(t("requirements.detail.noChanges", { defaultValue: "No changes to save." }))
@@ -319,7 +371,7 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
           toast.error(t("triage.dueRequired", { defaultValue: "Set a due date before saving." }))
           return
         }
-        const requiresInterval = frequency.startsWith("EVERY_N_")
+        const requiresInterval = frequencyRequiresInterval(frequency)
         const intervalNumber = intervalValue ? Number(intervalValue) : undefined
         if (requiresInterval && (!intervalNumber || Number.isNaN(intervalNumber) || intervalNumber <= 0)) {
           toast.error(t("triage.intervalRequired", { defaultValue: "Provide an interval value" }))
@@ -372,31 +424,46 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
         const result = await apiFetch<{ items: Requirement[]; updated: number }>("/requirements/triage/bulk", {
           method: "POST",
           body: JSON.stringify(payload),
+          headers: orgHeaders(orgId),
         })
         if (Array.isArray(result.items) && result.items.length > 0) {
           hydrateFromResponse(result.items[0])
+          await publish(result.items)
         } else {
-          await syncRequirementFromServer()
+          await refreshRequirement()
         }
         toast.success(t("requirements.detail.triageSuccess", { defaultValue: "Requirement updated" }))
         router.push("/requirements")
       } else {
-        const payload: { status?: string; due_date?: string | null } = {}
+        const payload: { status?: string; due_date?: string | null; assignee?: string | null } = {}
         if (status !== baselineStatus) {
           payload.status = status
         }
         if (dueDate !== baselineDueDate) {
           payload.due_date = dueDate ? new Date(`${dueDate}T12:00:00Z`).toISOString() : null
         }
+        if (assignee !== baselineAssignee) {
+          payload.assignee = assignee || null
+        }
         const updated = await apiFetch<Requirement>(`/requirements/${requirement.id}`, {
           method: "PATCH",
           body: JSON.stringify(payload),
+          headers: orgHeaders(orgId),
         })
         hydrateFromResponse(updated)
+        await publish([updated])
         toast.success(t("requirements.detail.saveSuccess", { defaultValue: "Requirement updated" }))
         router.push("/requirements")
       }
     } catch (error) {
+      // SessionProvider takes over on 401 and warns about the unsaved edits.
+      if (error instanceof ApiError && error.status === 401) return
+      const fieldErrors = fieldErrorsOf(error)
+      if (fieldErrors.length > 0) {
+        setServerErrors(mapFieldErrors(fieldErrors, TRIAGE_FIELD_CONTROLS))
+        toast.error(t("validation.fixFields", { defaultValue: "Fix the highlighted fields and try again." }))
+        return
+      }
       const message = error instanceof ApiError ? error.message : t("requirements.detail.saveError", { defaultValue: "Unable to save requirement" })
       toast.error(message)
     } finally {
@@ -408,8 +475,11 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
     if (retentionDisabled) {
       return
     }
-    toast.info(t("requirements.renewReminder", { defaultValue: locale === "es" ? "Recordatorio programado" : "Reminder scheduled" }), {
-      description: localized.title,
+    setReminderSubject({
+      type: "requirement",
+      id: currentRequirement.id,
+      title: localized.title,
+      dueDate: currentRequirement.due_date ?? null,
     })
   }
 
@@ -432,9 +502,10 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
       const updated = await apiFetch<Requirement>(`/requirements/${requirement.id}/archive`, {
         method: "POST",
         body: JSON.stringify({ reason }),
+        headers: orgHeaders(orgId),
       })
       hydrateFromResponse(updated)
-      await syncRequirementFromServer()
+      await publish([updated])
       toast.success(t("requirements.detail.archived", { defaultValue: "Requirement archived" }))
       router.push("/requirements")
     } catch (error) {
@@ -455,9 +526,10 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
       const updated = await apiFetch<Requirement>(`/requirements/${requirement.id}/archive/restore`, {
         method: "POST",
         body: JSON.stringify({}),
+        headers: orgHeaders(orgId),
       })
       hydrateFromResponse(updated)
-      await syncRequirementFromServer()
+      await publish([updated])
       toast.success(t("requirements.detail.restored", { defaultValue: "Requirement restored" }))
       router.push("/requirements")
     } catch (error) {
@@ -506,7 +578,40 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
         <div className="space-y-4">
           <div>
             <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">{locale === "es" ? "Documento" : "Document"}</p>
-            <p className="mt-1 text-sm text-slate-800">{currentRequirement.document_name ?? "—"}</p>
+            {currentRequirement.document_id ? (
+              <Link href={`/documents/${currentRequirement.document_id}`} className="mt-1 block text-sm text-slate-800 hover:text-blue-700 hover:underline">
+                {currentRequirement.document_name ?? currentRequirement.document_id}
+              </Link>
+            ) : (
+              <p className="mt-1 text-sm text-slate-800">{currentRequirement.document_name ?? "—"}</p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="requirement-assignee" className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {t("triage.assignee", { defaultValue: "Assignee (optional)" })}
+            </label>
+            <MemberPicker
+              id="requirement-assignee"
+              value={assignee}
+              onChange={(email) => {
+                setAssignee(email)
+                clearFieldError("assignee")
+              }}
+              {...fieldProps("assignee")}
+              disabled={archiveState === "archived"}
+              className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 md:max-w-sm"
+            />
+            <FieldErrorMessage id="requirement-assignee-error" error={serverErrors.byField.assignee} />
+            {currentAssignee && !currentAssignee.active && (
+              <p className="flex flex-wrap items-center gap-2 text-sm text-amber-700">
+                <Badge variant="warning">{t("members.deactivated", { defaultValue: "Deactivated" })}</Badge>
+                {t("members.reassign", {
+                  name: memberLabel(currentAssignee),
+                  defaultValue: "{{name}} was deactivated. Choose a new assignee.",
+                })}
+              </p>
+            )}
           </div>
 
           <div className="grid gap-4 md:grid-cols-2">
@@ -514,7 +619,11 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
               <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">{locale === "es" ? "Estado" : "Status"}</label>
               <select
                 value={status}
-                onChange={(event) => setStatus(event.target.value)}
+                onChange={(event) => {
+                  setStatus(event.target.value)
+                  clearFieldError("status")
+                }}
+                {...fieldProps("status")}
                 className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
                 disabled={archiveState === "archived"}
               >
@@ -524,15 +633,21 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
                   </option>
                 ))}
               </select>
+              <FieldErrorMessage id="requirement-status-error" error={serverErrors.byField.status} />
             </div>
             <div>
               <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">{locale === "es" ? "Fecha límite" : t("requirements.table.due")}</label>
               <input
                 type="date"
                 value={dueDate}
-                onChange={(event) => setDueDate(event.target.value)}
+                onChange={(event) => {
+                  setDueDate(event.target.value)
+                  clearFieldError("dueDate")
+                }}
+                {...fieldProps("dueDate")}
                 className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
               />
+              <FieldErrorMessage id="requirement-dueDate-error" error={serverErrors.byField.dueDate} />
               <p className="mt-1 text-xs text-slate-500">
                 {currentRequirement.due_date
                   ? formatDate(currentRequirement.due_date, locale)
@@ -565,30 +680,23 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
                   </label>
                   <select
                     value={frequency}
-                    onChange={(event) => setFrequency(event.target.value)}
+                    onChange={(event) => {
+                      setFrequency(event.target.value)
+                      clearFieldError("frequency")
+                    }}
+                    {...fieldProps("frequency")}
                     className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
                   >
                 <option value="">{t("triage.frequencyPlaceholder", { defaultValue: "Choose frequency" })}</option>
-                {TRIAGE_FREQUENCIES.map((value) => (
+                {FREQUENCIES.map((value) => (
                   <option key={value} value={value}>
                     {t(`frequencies.${toTranslationKey(value)}`, { defaultValue: humanizeToken(value) })}
                   </option>
                 ))}
               </select>
+                  <FieldErrorMessage id="requirement-frequency-error" error={serverErrors.byField.frequency} />
             </div>
-                <div className="space-y-1">
-                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                    {t("triage.assignee", { defaultValue: "Assignee email (optional)" })}
-                  </label>
-                  <input
-                    type="email"
-                    value={assignee}
-                    onChange={(event) => setAssignee(event.target.value)}
-                    placeholder="triage@example.com"
-                    className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
-                  />
-                </div>
-                {frequency.startsWith("EVERY_N_") && (
+                {frequencyRequiresInterval(frequency) && (
                   <div className="space-y-1">
                     <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                       {t("triage.interval", { defaultValue: "Interval" })}
@@ -597,10 +705,15 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
                       type="number"
                       min={1}
                       value={intervalValue}
-                      onChange={(event) => setIntervalValue(event.target.value)}
+                      onChange={(event) => {
+                        setIntervalValue(event.target.value)
+                        clearFieldError("interval")
+                      }}
+                      {...fieldProps("interval")}
                       className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
                       placeholder="5"
                     />
+                    <FieldErrorMessage id="requirement-interval-error" error={serverErrors.byField.interval} />
                     <p className="text-xs text-slate-500">
                       {t("triage.intervalHint", { defaultValue: "Required for every-N schedules." })}
                     </p>
@@ -612,16 +725,21 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
                   </label>
                   <select
                     value={anchorType}
-                    onChange={(event) => setAnchorType(event.target.value)}
+                    onChange={(event) => {
+                      setAnchorType(event.target.value)
+                      clearFieldError("anchorType")
+                    }}
+                    {...fieldProps("anchorType")}
                     className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800"
                   >
                 <option value="">{t("triage.anchorTypePlaceholder", { defaultValue: "Select reference" })}</option>
-                {TRIAGE_ANCHORS.map((value) => (
+                {ANCHOR_TYPES.map((value) => (
                   <option key={value} value={value}>
                     {t(`anchors.${toTranslationKey(value)}`, { defaultValue: humanizeToken(value) })}
                   </option>
                 ))}
               </select>
+                  <FieldErrorMessage id="requirement-anchorType-error" error={serverErrors.byField.anchorType} />
                   <p className="text-xs text-slate-500">
                     {t("triage.anchorTypeHint", {
                       defaultValue: "Use upload date or first completion to schedule future cycles.",
@@ -635,10 +753,15 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
                   <input
                     type="date"
                     value={anchorDate}
-                    onChange={(event) => setAnchorDate(event.target.value)}
+                    onChange={(event) => {
+                      setAnchorDate(event.target.value)
+                      clearFieldError("anchorDate")
+                    }}
+                    {...fieldProps("anchorDate")}
                     disabled={!anchorType || anchorType === "FIRST_COMPLETION"}
                     className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
                   />
+                  <FieldErrorMessage id="requirement-anchorDate-error" error={serverErrors.byField.anchorDate} />
                   <p className="text-xs text-slate-500">
                     {t("triage.anchorDateHint", {
                       defaultValue: "Optional date to start the schedule.",
@@ -646,10 +769,21 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
                   </p>
                 </div>
               </div>
+              <SchedulePreview rule={draftRule} completions={completions} />
             </div>
           )}
+
+          {status !== "PENDING_REVIEW" && savedRule && (
+            <SchedulePreview rule={savedRule} completions={completions} />
+          )}
         </div>
 
+        {serverErrors.unmatched.length > 0 && (
+          <div className="mt-6">
+            <FieldErrorSummary errors={serverErrors.unmatched} />
+          </div>
+        )}
+
         <div className="mt-6 flex flex-wrap items-center gap-3">
           <button
             type="button"
@@ -680,6 +814,25 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
         </div>
       </div>
 
+      {sourceUrl && (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="mb-4">
+            <h3 className="text-sm font-semibold text-slate-700">
+              {t("requirements.detail.source.title", { defaultValue: "Source document" })}
+            </h3>
+            {currentRequirement.source_ref && (
+              <p className="mt-1 text-xs text-slate-500">{currentRequirement.source_ref}</p>
+            )}
+          </div>
+          <PdfSourceViewer
+            url={sourceUrl}
+            page={sourceLocation.page}
+            section={sourceLocation.section}
+            passage={currentRequirement.source_excerpt ?? null}
+          />
+        </div>
+      )}
+
       <div className="rounded-2xl border border-slate-200 bg-slate-50 p-5">
         <div className="flex items-center justify-between">
           <h3 className="text-sm font-semibold text-slate-700">
@@ -730,6 +883,11 @@ export function RequirementDetailClient({ requirement, profile }: RequirementDet
           </div>
         )}
       </div>
+      <ReminderDialog
+        subject={reminderSubject}
+        defaultRecipient={profile?.user?.email}
+        onClose={() => setReminderSubject(null)}
+      />
     </div>
   )
 }
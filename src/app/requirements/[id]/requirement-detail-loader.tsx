@@ -0,0 +1,36 @@
+"use client"
+
+import { notFound } from "next/navigation"
+import { useTranslation } from "react-i18next"
+
+import { AppShell } from "@/components/layout/app-shell"
+import { useApiData } from "@/hooks/useApiData"
+import { useAuthedProfile } from "@/hooks/useAuthedProfile"
+import { ApiError } from "@/lib/api/client"
+import type { Requirement } from "@/app/requirements/requirements-client"
+import { RequirementDetailClient } from "@/app/requirements/[id]/requirement-detail-client"
+
+/** Fetches the requirement in the browser, for mock mode where the page skips its server prefetch. */
+export function RequirementDetailLoader({ id }: { id: string }) {
+  const { t } = useTranslation()
+  const { data: profile } = useAuthedProfile()
+  const { data: requirement, error } = useApiData<Requirement>(`/requirements/${id}`)
+
+  if (error instanceof ApiError && error.status === 404) {
+    notFound()
+  }
+
+  if (!requirement) {
+    return (
+      <AppShell title={t("requirements.title")} description={profile?.org?.name ?? ""}>
+        <p className="text-sm text-slate-500">{t("app.loading")}</p>
+      </AppShell>
+    )
+  }
+
+  return (
+    <AppShell title={requirement.title_en} description={profile?.org?.name ?? ""}>
+      <RequirementDetailClient requirement={requirement} profile={profile ?? null} />
+    </AppShell>
+  )
+}
@@ -0,0 +1,131 @@
+import type { SortOrder } from "@/app/documents/library-query"
+
+export const FACETS_PATH = "/requirements/facets"
+
+export const REQUIREMENT_SORTS = ["due_date", "category", "status", "document_name"] as const
+export const REQUIREMENT_PAGE_SIZES = [10, 25, 50] as const
+export const DEFAULT_REQUIREMENT_PAGE_SIZE = 10
+export const REQUIREMENT_GROUPS = ["document", "category"] as const
+export const DUE_FILTERS = ["overdue", "due7", "due30"] as const
+export const STATUS_FILTERS = ["active", "completed", "archived", "triage"] as const
+
+export type RequirementSort = (typeof REQUIREMENT_SORTS)[number]
+export type RequirementGroup = (typeof REQUIREMENT_GROUPS)[number]
+export type DueFilter = (typeof DUE_FILTERS)[number]
+export type StatusFilter = (typeof STATUS_FILTERS)[number]
+
+/** Backend statuses each status filter stands for; archived ones are asked for with `archived=true` instead. */
+const STATUS_QUERY_MAP: Record<StatusFilter, string[]> = {
+  active: ["OPEN", "REVIEW"],
+  completed: ["DONE", "READY"],
+  archived: [],
+  triage: ["PENDING_REVIEW"],
+}
+
+/** Category and source-document filters; a requirement matching any listed value is shown. */
+export type FacetFilters = {
+  categories: string[]
+  documentIds: string[]
+}
+
+/** Search and ordering of the requirements list; no `sort` keeps the backend's default order. */
+export type RequirementSearch = {
+  q: string
+  sort: RequirementSort | null
+  order: SortOrder
+}
+
+type ParamReader = (key: string) => string | null | undefined
+
+const splitList = (value: string | null | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean)
+
+export function parseRequirementSearch(read: ParamReader): RequirementSearch {
+  const sort = read("sort")
+  return {
+    q: (read("q") ?? "").trim(),
+    sort: sort && (REQUIREMENT_SORTS as readonly string[]).includes(sort) ? (sort as RequirementSort) : null,
+    order: read("order") === "desc" ? "desc" : "asc",
+  }
+}
+
+export function parseDueFilters(read: ParamReader): DueFilter[] {
+  const tokens = splitList(read("due"))
+  return DUE_FILTERS.filter((option) => tokens.includes(option))
+}
+
+/** Status filters from the `archived` and `status` params; any status of a filter selects the whole filter. */
+export function parseStatusFilters(read: ParamReader): StatusFilter[] {
+  const selected = new Set<StatusFilter>()
+  if (read("archived") === "true") {
+    selected.add("archived")
+  }
+  const tokens = splitList(read("status")).map((token) => token.toUpperCase())
+  if (tokens.some((token) => token === "DONE" || token === "READY")) {
+    selected.add("completed")
+  }
+  if (tokens.some((token) => token === "OPEN" || token === "REVIEW")) {
+    selected.add("active")
+  }
+  if (tokens.some((token) => token === "PENDING_REVIEW")) {
+    selected.add("triage")
+  }
+  return Array.from(selected)
+}
+
+/**
+ * The `archived` or `status` param, for `/requirements` and the page URL
+ * alike. Archived wins, since the backend lists archived rows on their own.
+ */
+export function toStatusEntries(filters: StatusFilter[]): Record<string, string> {
+  if (filters.includes("archived")) return { archived: "true" }
+  const statuses = new Set(
+    STATUS_FILTERS.filter((filter) => filters.includes(filter)).flatMap((filter) => STATUS_QUERY_MAP[filter]),
+  )
+  return statuses.size > 0 ? { status: Array.from(statuses).join(",") } : {}
+}
+
+/** Rows per page from the `limit` param; only the sizes offered in the list are accepted. */
+export function parsePageSize(read: ParamReader): number {
+  const size = Number.parseInt(read("limit") ?? "", 10)
+  return (REQUIREMENT_PAGE_SIZES as readonly number[]).includes(size) ? size : DEFAULT_REQUIREMENT_PAGE_SIZE
+}
+
+/** The `q`, `sort` and `order` params for `/requirements` and for the page URL alike. */
+export function toSearchEntries(search: RequirementSearch): Record<string, string> {
+  const entries: Record<string, string> = {}
+  if (search.q) entries.q = search.q
+  if (search.sort) {
+    entries.sort = search.sort
+    entries.order = search.order
+  }
+  return entries
+}
+
+export function parseFacetFilters(read: ParamReader): FacetFilters {
+  return { categories: splitList(read("category")), documentIds: splitList(read("document_id")) }
+}
+
+/** The `category` and `document_id` params, sent to `/requirements` and `/requirements/facets`. */
+export function toFacetEntries(filters: FacetFilters): Record<string, string> {
+  const entries: Record<string, string> = {}
+  if (filters.categories.length > 0) entries.category = filters.categories.join(",")
+  if (filters.documentIds.length > 0) entries.document_id = filters.documentIds.join(",")
+  return entries
+}
+
+/** Grouping only rearranges the loaded page, so `group` stays in the URL and is never sent to the API. */
+export function parseGroupBy(read: ParamReader): RequirementGroup | null {
+  const group = read("group")
+  return group && (REQUIREMENT_GROUPS as readonly string[]).includes(group) ? (group as RequirementGroup) : null
+}
+
+/** Header clicks cycle ascending, descending, then back to the default order. */
+export function nextSort(search: RequirementSearch, column: RequirementSort): Pick<RequirementSearch, "sort" | "order"> {
+  if (search.sort !== column) return { sort: column, order: "asc" }
+  if (search.order === "asc") return { sort: column, order: "desc" }
+  return { sort: null, order: "asc" }
+}
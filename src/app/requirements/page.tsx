@@ -1,10 +1,17 @@
+import {
+  parseDueFilters,
+  parseFacetFilters,
+  parsePageSize,
+  parseRequirementSearch,
+  parseStatusFilters,
+  toFacetEntries,
+  toSearchEntries,
+  toStatusEntries,
+} from "@/app/requirements/list-query"
 import { RequirementsClient, RequirementsResponse } from "@/app/requirements/requirements-client"
 import { AuthMeResponse } from "@/hooks/useAuthedProfile"
-import { serverApiFetch } from "@/lib/api/server"
-
-const PAGE_SIZE = 10
-
-const filterKeys = new Set(["overdue", "due7", "due30"])
+import { serverApiFetch, serverPrefetch } from "@/lib/api/server"
+import { ASSIGNED_TO_ME } from "@/lib/members"
 
 type SearchParams = Record<string, string | string[] | undefined>
 
@@ -36,27 +43,33 @@ async function resolveSearchParams(searchParams: PageProps["searchParams"]): Pro
 async function fetchInitialRequirements(searchParams: PageProps["searchParams"]) {
   const params = await resolveSearchParams(searchParams)
   const pageParam = typeof params.page === "string" ? params.page : Array.isArray(params.page) ? params.page[0] : undefined
-  const dueParam = typeof params.due === "string" ? params.due : Array.isArray(params.due) ? params.due[0] : undefined
 
   const page = Number.isInteger(Number(pageParam)) && Number(pageParam) > 0 ? Number(pageParam) : 1
-  const due = dueParam && filterKeys.has(dueParam) ? dueParam : undefined
+  const read = (key: string) => {
+    const value = params[key]
+    return Array.isArray(value) ? value[0] : value
+  }
+  const search = parseRequirementSearch(read)
+  const dueFilters = parseDueFilters(read)
 
-  try {
-    const [profile, requirements] = await Promise.all([
-      serverApiFetch<AuthMeResponse>("/auth/me"),
+  const [profile, requirements] = await Promise.all([
+    serverPrefetch("requirements", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch("requirements", () =>
       serverApiFetch<RequirementsResponse>("/requirements", {
         searchParams: {
           page,
-          limit: PAGE_SIZE,
-          ...(due ? { due } : {}),
+          limit: parsePageSize(read),
+          // Built like the list's own query, so the prefetch lands under the key it reads.
+          ...(dueFilters.length > 0 ? { due: dueFilters.join(",") } : {}),
+          ...(read("assignee") === ASSIGNED_TO_ME ? { assignee: ASSIGNED_TO_ME } : {}),
+          ...toSearchEntries(search),
+          ...toFacetEntries(parseFacetFilters(read)),
+          ...toStatusEntries(parseStatusFilters(read)),
         },
       }),
-    ])
-    return { profile, requirements }
-  } catch (error) {
-    console.warn("[requirements] Prefetch failed", error)
-    return { profile: null, requirements: null }
-  }
+    ),
+  ])
+  return { profile, requirements }
 }
 
 export default async function RequirementsPage({ searchParams }: PageProps) {
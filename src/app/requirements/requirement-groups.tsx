@@ -0,0 +1,139 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ColumnDef } from "@tanstack/react-table"
+import { useTranslation } from "react-i18next"
+
+import { FacetBucket, Requirement, formatCategoryLabel } from "./requirements-client"
+import type { RequirementGroup } from "./list-query"
+import { Badge } from "@/components/ui/badge"
+import { DataTable } from "@/components/ui/data-table"
+import { ChevronDownIcon } from "@/components/ui/icons"
+import { isOverdue } from "@/lib/dates"
+
+type Props = {
+  rows: Requirement[]
+  groupBy: RequirementGroup
+  /** Server counts for the grouped facet; until they load, the page's own rows are counted. */
+  buckets?: FacetBucket[]
+  columns: ColumnDef<Requirement>[]
+  /** Rows per page of the list; no group can hold more. */
+  pageSize: number
+  emptyMessage: string
+  isLoading: boolean
+  loadingMessage: string
+}
+
+type Group = {
+  key: string
+  label: string
+  rows: Requirement[]
+}
+
+/** The loaded page split into collapsible sections, in the order the rows arrived. */
+export function RequirementGroups({
+  rows,
+  groupBy,
+  buckets,
+  columns,
+  pageSize,
+  emptyMessage,
+  isLoading,
+  loadingMessage,
+}: Props) {
+  const { t } = useTranslation()
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set())
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, Group>()
+    rows.forEach((row) => {
+      const key = (groupBy === "document" ? row.document_id : row.category) ?? ""
+      const group = byKey.get(key) ?? {
+        key,
+        label:
+          groupBy === "document"
+            ? (row.document_name ?? t("requirements.groups.noDocument", { defaultValue: "No source document" }))
+            : row.category
+              ? formatCategoryLabel(row.category, t)
+              : t("requirements.groups.uncategorized", { defaultValue: "Uncategorized" }),
+        rows: [],
+      }
+      group.rows.push(row)
+      byKey.set(key, group)
+    })
+    return Array.from(byKey.values())
+  }, [groupBy, rows, t])
+
+  const toggle = (key: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+
+  if (groups.length === 0) {
+    return (
+      <DataTable<Requirement>
+        columns={columns}
+        data={[]}
+        isLoading={isLoading}
+        loadingMessage={loadingMessage}
+        emptyMessage={emptyMessage}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-4" data-testid="requirement-groups">
+      {groups.map((group, index) => {
+        const bucket = buckets?.find((item) => (item.value ?? "") === group.key)
+        const count = bucket?.count ?? group.rows.length
+        const overdue =
+          bucket?.overdue ?? group.rows.filter((row) => row.status !== "DONE" && isOverdue(row.due_date)).length
+        const isCollapsed = collapsed.has(group.key)
+        const panelId = `requirement-group-${index}`
+        return (
+          <section key={group.key} className="space-y-2">
+            <button
+              type="button"
+              onClick={() => toggle(group.key)}
+              aria-expanded={!isCollapsed}
+              aria-controls={panelId}
+              className="flex w-full flex-wrap items-center justify-between gap-2 rounded-xl px-2 py-1 text-left hover:bg-slate-50"
+            >
+              <span className="flex items-center gap-2">
+                <ChevronDownIcon
+                  aria-hidden="true"
+                  className={`h-4 w-4 text-slate-500 transition ${isCollapsed ? "-rotate-90" : ""}`}
+                />
+                <span className="font-semibold text-slate-900">{group.label}</span>
+                <span className="text-sm text-slate-500">
+                  {t("requirements.groups.count", { count, defaultValue: "{{count}} requirements" })}
+                </span>
+              </span>
+              {overdue > 0 && (
+                <Badge variant="danger">
+                  {t("requirements.groups.overdue", { count: overdue, defaultValue: "{{count}} overdue" })}
+                </Badge>
+              )}
+            </button>
+            {!isCollapsed && (
+              <div id={panelId}>
+                <DataTable<Requirement>
+                  columns={columns}
+                  data={group.rows}
+                  emptyMessage={emptyMessage}
+                  pageSize={pageSize}
+                />
+              </div>
+            )}
+          </section>
+        )
+      })}
+    </div>
+  )
+}
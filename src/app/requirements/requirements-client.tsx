@@ -9,18 +9,54 @@ import { useTranslation } from "react-i18next"
 import { AppShell } from "@/components/layout/app-shell"
 import { LanguageToggle } from "@/components/language-toggle"
 import { useLocale } from "@/components/locale-provider"
+import { OutboxStatus } from "@/components/outbox-status"
+import { useOutbox, type SendResult } from "@/components/outbox-provider"
 import { DataTable } from "@/components/ui/data-table"
 import { Badge, type BadgeVariant } from "@/components/ui/badge"
 import { Pagination } from "@/components/ui/pagination"
+import { ReminderDialog } from "@/components/reminder-dialog"
+import {
+  DEFAULT_REQUIREMENT_PAGE_SIZE,
+  DUE_FILTERS,
+  FACETS_PATH,
+  REQUIREMENT_GROUPS,
+  REQUIREMENT_PAGE_SIZES,
+  STATUS_FILTERS,
+  nextSort,
+  parseDueFilters,
+  parseFacetFilters,
+  parseGroupBy,
+  parsePageSize,
+  parseRequirementSearch,
+  parseStatusFilters,
+  toFacetEntries,
+  toSearchEntries,
+  toStatusEntries,
+  type DueFilter,
+  type FacetFilters,
+  type RequirementGroup,
+  type RequirementSearch,
+  type RequirementSort,
+  type StatusFilter,
+} from "./list-query"
+import { RequirementGroups } from "./requirement-groups"
+import { SavedViews } from "./saved-views"
 import { TriagePanel } from "./triage-panel"
 import { EyeIcon, BellIcon, CheckIcon, TrashIcon } from "@/components/ui/icons"
-import { ApiError, apiFetch } from "@/lib/api/client"
+import { ApiError, fieldErrorsOf } from "@/lib/api/client"
 import { formatDate, daysUntil } from "@/lib/dates"
+import type { Locale } from "@/lib/i18n"
+import { ASSIGNED_TO_ME, assigneeOf, memberLabel, type Assignee } from "@/lib/members"
+import type { ReminderSubject } from "@/lib/reminders"
+import { viewQueryOf } from "@/lib/requirement-views"
+import { applyArchive, applyCompletion, applyTriage, type TriagePayload } from "@/lib/requirement-updates"
 import { useApiData } from "@/hooks/useApiData"
 import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
 import { usePersistedLocale } from "@/hooks/usePersistedLocale"
+import { useRequirementCache } from "@/hooks/useRequirementCache"
+import { useSearchInput } from "@/hooks/useSearchInput"
 
-const PAGE_SIZE = 10
+const SEARCH_DEBOUNCE_MS = 300
 
 type UiStatus = "OPEN" | "NEEDS_REVIEW" | "NEEDS_TRIAGE" | "COMPLETED" | "ARCHIVED" | "OVERDUE"
 
@@ -74,8 +110,11 @@ export type Requirement = {
   due_date?: string | null
   status: string
   source_ref?: string | null
+  /** Text of the passage the requirement was extracted from. */
+  source_excerpt?: string | null
   next_due?: string | null
   archive_state?: string | null
+  assignee?: Assignee | null
   attributes?: Record<string, unknown>
 }
 
@@ -88,17 +127,28 @@ export type RequirementsResponse = {
   }
 }
 
-type DueFilter = "overdue" | "due7" | "due30"
-type StatusFilter = "active" | "completed" | "archived" | "triage"
+/** One value of a facet with how many requirements in the filtered list have it. */
+export type FacetBucket = {
+  /** Category, or document id; null collects requirements without one. */
+  value: string | null
+  /** Display name: the category itself, or the document's name. */
+  label: string | null
+  count: number
+  overdue: number
+}
 
-const dueFilterOptions: DueFilter[] = ["overdue", "due7", "due30"]
-const statusFilterOptions: StatusFilter[] = ["active", "completed", "archived", "triage"]
+/**
+ * Counts from `/requirements/facets` for the list's current filters. Each
+ * facet ignores its own filter, so picking a category still shows the others.
+ */
+export type RequirementFacets = {
+  categories: FacetBucket[]
+  documents: FacetBucket[]
+}
 
-const STATUS_QUERY_MAP: Record<StatusFilter, string[]> = {
-  active: ["OPEN", "REVIEW"],
-  completed: ["DONE", "READY"],
-  archived: [],
-  triage: ["PENDING_REVIEW"],
+const GROUP_LABELS: Record<RequirementGroup, string> = {
+  document: "Source document",
+  category: "Category",
 }
 
 const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
@@ -108,37 +158,92 @@ const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
   triage: "Needs triage",
 }
 
-function parseDueFilters(params: URLSearchParams | null): DueFilter[] {
-  if (!params) return []
-  const raw = params.get("due")
-  if (!raw) return []
-  const tokens = raw.split(",").map((token) => token.trim())
-  return dueFilterOptions.filter((option) => tokens.includes(option))
+// A queued mutation has no server copy yet; its row keeps the optimistic state.
+const confirmedItems = (result: SendResult<Requirement>) => (result.queued ? [] : [result.data])
+
+type FacetOptionsProps = {
+  title: string
+  buckets: FacetBucket[] | undefined
+  selected: string[]
+  formatLabel: (bucket: FacetBucket) => string
+  onToggle: (value: string) => void
+  t: (key: string, options?: Record<string, unknown>) => string
 }
 
-function parseStatusFilters(params: URLSearchParams | null): StatusFilter[] {
-  const selected = new Set<StatusFilter>()
-  if (params?.get("archived") === "true") {
-    selected.add("archived")
-  }
-  const rawStatus = params?.get("status")
-  if (rawStatus) {
-    const tokens = rawStatus.split(",").map((token) => token.trim().toUpperCase())
-    if (tokens.some((token) => token === "DONE" || token === "READY")) {
-      selected.add("completed")
-    }
-    if (tokens.some((token) => token === "OPEN" || token === "REVIEW")) {
-      selected.add("active")
+function FacetOptions({ title, buckets, selected, formatLabel, onToggle, t }: FacetOptionsProps) {
+  const options = (buckets ?? []).filter((bucket) => bucket.value !== null)
+  // A picked value the other filters leave empty is still listed so it can be unpicked.
+  selected.forEach((value) => {
+    if (!options.some((bucket) => bucket.value === value)) {
+      options.push({ value, label: null, count: 0, overdue: 0 })
     }
-    if (tokens.some((token) => token === "PENDING_REVIEW")) {
-      selected.add("triage")
-    }
-  }
-  return Array.from(selected)
+  })
+  return (
+    <div className="mt-4 border-t border-slate-200 pt-4">
+      <p className="text-xs font-semibold uppercase text-slate-500">{title}</p>
+      <div className="mt-3 max-h-48 space-y-2 overflow-y-auto">
+        {options.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            {buckets ? t("requirements.filters.noValues", { defaultValue: "Nothing to filter by" }) : t("app.loading")}
+          </p>
+        ) : (
+          options.map((bucket) => (
+            <label
+              key={bucket.value}
+              className="flex items-center justify-between gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-600 hover:border-slate-300"
+            >
+              <span className="min-w-0 truncate">{formatLabel(bucket)}</span>
+              <span className="ml-auto text-xs text-slate-400">{bucket.count}</span>
+              <input
+                type="checkbox"
+                checked={selected.includes(bucket.value ?? "")}
+                onChange={() => onToggle(bucket.value ?? "")}
+              />
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+type SortHeaderProps = {
+  label: string
+  column: RequirementSort
+  search: RequirementSearch
+  onSort: (column: RequirementSort) => void
+  t: (key: string, options?: Record<string, unknown>) => string
+}
+
+function SortHeader({ label, column, search, onSort, t }: SortHeaderProps) {
+  const direction = search.sort === column ? search.order : null
+  const description =
+    direction === "asc"
+      ? t("requirements.sort.ascending", { column: label, defaultValue: "{{column}}, sorted ascending" })
+      : direction === "desc"
+        ? t("requirements.sort.descending", { column: label, defaultValue: "{{column}}, sorted descending" })
+        : t("requirements.sort.by", { column: label, defaultValue: "Sort by {{column}}" })
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(column)}
+      aria-label={description}
+      title={description}
+      data-sort={direction ?? undefined}
+      className={`inline-flex items-center gap-1 uppercase tracking-wide transition hover:text-slate-800 ${
+        direction ? "text-slate-900" : ""
+      }`}
+    >
+      {label}
+      <span aria-hidden="true" className={direction ? undefined : "text-slate-300"}>
+        {direction === "desc" ? "↓" : direction === "asc" ? "↑" : "↕"}
+      </span>
+    </button>
+  )
 }
 
 function buildColumns(
-  locale: string,
+  locale: Locale,
   t: (key: string, options?: Record<string, unknown>) => string,
   completingId: string | null,
   handleView: (requirement: Requirement) => void,
@@ -151,6 +256,9 @@ function buildColumns(
   handleArchive: (requirement: Requirement) => void,
   toggleSelectAll: (checked: boolean) => void,
   selectAllState: { allSelected: boolean; someSelected: boolean; hasSelectable: boolean },
+  syncingIds: Set<string>,
+  search: RequirementSearch,
+  handleSort: (column: RequirementSort) => void,
 ): ColumnDef<Requirement>[] {
   const columns: ColumnDef<Requirement>[] = []
 
@@ -174,7 +282,7 @@ function buildColumns(
       ),
       cell: ({ row }) => {
         const requirement = row.original
-        if (requirement.status !== "PENDING_REVIEW") {
+        if (requirement.status !== "PENDING_REVIEW" || syncingIds.has(requirement.id)) {
           return null
         }
         const checked = selectedIds.has(requirement.id)
@@ -194,7 +302,7 @@ function buildColumns(
 
   columns.push(
     {
-      header: t("requirements.table.document"),
+      header: () => <SortHeader label={t("requirements.table.document")} column="document_name" search={search} onSort={handleSort} t={t} />,
       accessorKey: "document_name",
       cell: ({ row }) => {
         const record = row.original
@@ -213,7 +321,7 @@ function buildColumns(
         const record = row.original
         const title = locale === "es" ? record.title_es : record.title_en
         const description = locale === "es" ? record.description_es : record.description_en
-        const triageMeta = (record.attributes as Record<string, any> | undefined)?.triage as
+        const triageMeta = record.attributes?.triage as
           | { reasons?: string[]; assignee?: string; resolved_at?: string }
           | undefined
         const reasons = Array.isArray(triageMeta?.reasons) ? triageMeta?.reasons : []
@@ -236,7 +344,7 @@ function buildColumns(
       },
     },
     {
-      header: t("requirements.table.category"),
+      header: () => <SortHeader label={t("requirements.table.category")} column="category" search={search} onSort={handleSort} t={t} />,
       accessorKey: "category",
       cell: ({ row }) => {
         const label = formatCategoryLabel(row.original.category, t)
@@ -252,7 +360,7 @@ function buildColumns(
       },
     },
     {
-      header: t("requirements.table.due"),
+      header: () => <SortHeader label={t("requirements.table.due")} column="due_date" search={search} onSort={handleSort} t={t} />,
       accessorKey: "due_date",
       cell: ({ row }) => {
         const record = row.original
@@ -260,7 +368,7 @@ function buildColumns(
       },
     },
     {
-      header: t("requirements.table.status"),
+      header: () => <SortHeader label={t("requirements.table.status")} column="status" search={search} onSort={handleSort} t={t} />,
       accessorKey: "status",
       cell: ({ row }) => {
         const record = row.original
@@ -276,9 +384,34 @@ function buildColumns(
         const uiStatus = deriveUiStatus(record)
         const meta = UI_STATUS_META[uiStatus]
         return (
-          <Badge variant={meta?.variant ?? "muted"}>
-            {t(meta?.labelKey ?? "statuses.open", { defaultValue: meta?.defaultLabel ?? uiStatus })}
-          </Badge>
+          <div className="flex flex-wrap items-center gap-1">
+            <Badge variant={meta?.variant ?? "muted"}>
+              {t(meta?.labelKey ?? "statuses.open", { defaultValue: meta?.defaultLabel ?? uiStatus })}
+            </Badge>
+            {syncingIds.has(record.id) && (
+              <Badge variant="default">{t("outbox.pendingSync", { defaultValue: "Pending sync" })}</Badge>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      header: t("requirements.table.assignee", { defaultValue: "Assignee" }),
+      id: "assignee",
+      cell: ({ row }) => {
+        const assignee = assigneeOf(row.original)
+        if (!assignee) {
+          return <span className="text-xs text-slate-400">—</span>
+        }
+        return (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-sm text-slate-600" title={assignee.email}>
+              {memberLabel(assignee)}
+            </span>
+            {!assignee.active && (
+              <Badge variant="warning">{t("members.deactivated", { defaultValue: "Deactivated" })}</Badge>
+            )}
+          </div>
         )
       },
     },
@@ -313,6 +446,8 @@ function buildColumns(
       cell: ({ row }) => {
         const record = row.original
         const isPending = completingId === record.id
+        // A queued change has not reached the backend yet; don't stack another on it.
+        const isSyncing = syncingIds.has(record.id)
         const hasRetentionHold = record.archive_state === "archived" || record.status === "ARCHIVED"
         const isPendingReview = record.status === "PENDING_REVIEW"
         return (
@@ -328,7 +463,7 @@ function buildColumns(
             <button
               type="button"
               onClick={() => handleComplete(record)}
-              disabled={isPending || record.status === "DONE" || hasRetentionHold || isPendingReview}
+              disabled={isPending || isSyncing || record.status === "DONE" || hasRetentionHold || isPendingReview}
               className="inline-flex items-center justify-center rounded-full border border-blue-200 p-2 text-blue-700 transition hover:bg-blue-50 disabled:cursor-not-allowed disabled:opacity-50"
               aria-label={t("actions.complete")}
             >
@@ -347,8 +482,9 @@ function buildColumns(
               <button
                 type="button"
                 onClick={() => handleDismiss([record])}
+                disabled={isSyncing}
                 aria-label={t("requirements.actions.archive", { defaultValue: "Archive" })}
-                className="inline-flex items-center justify-center rounded-full border border-rose-200 p-2 text-rose-600 transition hover:bg-rose-50"
+                className="inline-flex items-center justify-center rounded-full border border-rose-200 p-2 text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
               >
                 <TrashIcon className="h-4 w-4" />
               </button>
@@ -357,8 +493,9 @@ function buildColumns(
                 <button
                   type="button"
                   onClick={() => handleArchive(record)}
+                  disabled={isSyncing}
                   aria-label={t("requirements.archiveAction", { defaultValue: "Archive requirement" })}
-                  className="inline-flex items-center justify-center rounded-full border border-rose-200 p-2 text-rose-600 transition hover:bg-rose-50"
+                  className="inline-flex items-center justify-center rounded-full border border-rose-200 p-2 text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
                 >
                   <TrashIcon className="h-4 w-4" />
                 </button>
@@ -373,6 +510,11 @@ function buildColumns(
   return columns
 }
 
+type RequirementsClientProps = {
+  initialRequirements?: RequirementsResponse | null
+  initialProfile?: AuthMeResponse | null
+}
+
 export function RequirementsClient({ initialRequirements, initialProfile }: RequirementsClientProps) {
   const router = useRouter()
   const pathname = usePathname()
@@ -384,16 +526,28 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
   const { data: profile, isLoading: profileLoading } = useAuthedProfile(initialProfile)
 
   const [completingId, setCompletingId] = useState<string | null>(null)
-  const [requirementRows, setRequirementRows] = useState<Requirement[]>(() => initialRequirements?.items ?? [])
+  const { send, pending: outboxPending } = useOutbox()
+  const syncingIds = useMemo(
+    () => new Set(outboxPending.flatMap((entry) => entry.requirementIds)),
+    [outboxPending],
+  )
   const [filtersOpen, setFiltersOpen] = useState(false)
   const filtersContainerRef = useRef<HTMLDivElement | null>(null)
   const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [reminderSubject, setReminderSubject] = useState<ReminderSubject | null>(null)
 
-  const selectedDueFilters = useMemo(() => parseDueFilters(searchParams), [searchParams])
-  const selectedStatusFilters = useMemo(() => parseStatusFilters(searchParams), [searchParams])
+  const selectedDueFilters = useMemo(() => parseDueFilters((key) => searchParams?.get(key)), [searchParams])
+  const selectedStatusFilters = useMemo(() => parseStatusFilters((key) => searchParams?.get(key)), [searchParams])
+  const search = useMemo(() => parseRequirementSearch((key) => searchParams?.get(key)), [searchParams])
+  const pageSize = parsePageSize((key) => searchParams?.get(key))
+  const facetFilters = useMemo(() => parseFacetFilters((key) => searchParams?.get(key)), [searchParams])
+  const groupBy = parseGroupBy((key) => searchParams?.get(key))
+  const assignedToMe = searchParams?.get("assignee") === ASSIGNED_TO_ME
+  const viewQuery = useMemo(() => viewQueryOf(searchParams), [searchParams])
 
   const [pendingDueFilters, setPendingDueFilters] = useState<DueFilter[]>(selectedDueFilters)
   const [pendingStatusFilters, setPendingStatusFilters] = useState<StatusFilter[]>(selectedStatusFilters)
+  const [pendingFacets, setPendingFacets] = useState<FacetFilters>(facetFilters)
 
   useEffect(() => {
     setPendingDueFilters(selectedDueFilters)
@@ -403,6 +557,10 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
     setPendingStatusFilters(selectedStatusFilters)
   }, [selectedStatusFilters])
 
+  useEffect(() => {
+    setPendingFacets(facetFilters)
+  }, [facetFilters])
+
   const ensureFiltersClosedOnClickAway = useCallback((event: MouseEvent) => {
     if (!filtersContainerRef.current) {
       return
@@ -432,38 +590,20 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
   const queryParams = useMemo(() => {
     const base: Record<string, string | number | boolean> = {
       page: requestedPage,
-      limit: PAGE_SIZE,
+      limit: pageSize,
+      ...toSearchEntries(search),
+      ...toFacetEntries(facetFilters),
+      ...toStatusEntries(selectedStatusFilters),
     }
     if (selectedDueFilters.length > 0) {
       base.due = selectedDueFilters.join(",")
     }
-
-    const includeArchived = selectedStatusFilters.includes("archived")
-    if (includeArchived) {
-      base.archived = "true"
-    } else {
-      const includeActive = selectedStatusFilters.includes("active")
-      const includeCompleted = selectedStatusFilters.includes("completed")
-      const includeTriage = selectedStatusFilters.includes("triage")
-      if (includeActive || includeCompleted || includeTriage) {
-        const statusTokens = new Set<string>()
-        if (includeActive) {
-          STATUS_QUERY_MAP.active.forEach((value) => statusTokens.add(value))
-        }
-        if (includeCompleted) {
-          STATUS_QUERY_MAP.completed.forEach((value) => statusTokens.add(value))
-        }
-        if (includeTriage) {
-          STATUS_QUERY_MAP.triage.forEach((value) => statusTokens.add(value))
-        }
-        if (statusTokens.size > 0) {
-          base.status = Array.from(statusTokens).join(",")
-        }
-      }
+    if (assignedToMe) {
+      base.assignee = ASSIGNED_TO_ME
     }
 
     return base
-  }, [requestedPage, selectedDueFilters, selectedStatusFilters])
+  }, [assignedToMe, facetFilters, pageSize, requestedPage, search, selectedDueFilters, selectedStatusFilters])
 
   const {
     data: requirements,
@@ -473,30 +613,27 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
   } = useApiData<RequirementsResponse>("/requirements", queryParams, {
     refreshInterval: 120_000,
     fallbackData: initialRequirements ?? undefined,
+    offlineCache: true,
   })
 
-  const refreshAndHydrate = useCallback(
-    async () => {
-      const latest = await refreshRequirements()
-      if (latest?.items) {
-        setRequirementRows([...latest.items])
-      }
-      return latest
-    },
-    [refreshRequirements],
-  )
+  // Facet counts cover every page of the filtered list, so they take the same filters without paging.
+  const facetParams = useMemo(() => {
+    const params = { ...queryParams }
+    delete params.page
+    delete params.limit
+    return params
+  }, [queryParams])
 
-  useEffect(() => {
-    if (profile && !requirements && !profileLoading) {
-      void refreshAndHydrate()
-    }
-  }, [profile, profileLoading, requirements, refreshAndHydrate])
+  const { data: facets } = useApiData<RequirementFacets>(FACETS_PATH, facetParams, { refreshInterval: 120_000 })
+
+  const requirementRows = useMemo(() => requirements?.items ?? [], [requirements?.items])
+  const { applyOptimistic } = useRequirementCache()
 
   useEffect(() => {
-    if (requirements?.items) {
-      setRequirementRows([...requirements.items])
+    if (profile && !requirements && !profileLoading) {
+      void refreshRequirements()
     }
-  }, [requirements?.items])
+  }, [profile, profileLoading, requirements, refreshRequirements])
 
   useEffect(() => {
     setSelectedIds((prev) => prev.filter((id) => requirementRows.some((item) => item.id === id && item.status === "PENDING_REVIEW")))
@@ -509,11 +646,20 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
   }, [requirementsError, t])
 
   const totalItems = requirements?.pagination.total ?? requirementRows.length
-  const pageCount = Math.max(1, Math.ceil(totalItems / PAGE_SIZE))
+  const pageCount = Math.max(1, Math.ceil(totalItems / pageSize))
   const currentPage = requirements?.pagination.page ?? requestedPage
 
   const updateQuery = useCallback(
-    (next: { dueFilters?: DueFilter[]; statusFilters?: StatusFilter[]; page?: number }) => {
+    (next: {
+      dueFilters?: DueFilter[]
+      statusFilters?: StatusFilter[]
+      search?: Partial<RequirementSearch>
+      facets?: FacetFilters
+      groupBy?: RequirementGroup | null
+      assignedToMe?: boolean
+      pageSize?: number
+      page?: number
+    }) => {
       const params = new URLSearchParams(searchParams ? searchParams.toString() : "")
 
       if (next.dueFilters) {
@@ -525,34 +671,43 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
       }
 
       if (next.statusFilters !== undefined) {
-        const normalizedStatuses = next.statusFilters
-        const includeArchived = normalizedStatuses.includes("archived")
+        params.delete("status")
+        params.delete("archived")
+        Object.entries(toStatusEntries(next.statusFilters)).forEach(([key, value]) => params.set(key, value))
+      }
+
+      if (next.search) {
+        for (const key of ["q", "sort", "order"]) params.delete(key)
+        Object.entries(toSearchEntries({ ...search, ...next.search })).forEach(([key, value]) => params.set(key, value))
+      }
+
+      if (next.facets) {
+        params.delete("category")
+        params.delete("document_id")
+        Object.entries(toFacetEntries(next.facets)).forEach(([key, value]) => params.set(key, value))
+      }
 
-        if (includeArchived) {
-          params.delete("status")
-          params.set("archived", "true")
+      if (next.groupBy !== undefined) {
+        if (next.groupBy) {
+          params.set("group", next.groupBy)
         } else {
-          const includeActive = normalizedStatuses.includes("active")
-          const includeCompleted = normalizedStatuses.includes("completed")
-          const includeTriage = normalizedStatuses.includes("triage")
-          if (includeActive || includeCompleted || includeTriage) {
-            const statusTokens = new Set<string>()
-            if (includeActive) {
-              STATUS_QUERY_MAP.active.forEach((value) => statusTokens.add(value))
-            }
-            if (includeCompleted) {
-              STATUS_QUERY_MAP.completed.forEach((value) => statusTokens.add(value))
-            }
-            if (includeTriage) {
-              STATUS_QUERY_MAP.triage.forEach((value) => statusTokens.add(value))
-            }
-            if (statusTokens.size > 0) {
-              params.set("status", Array.from(statusTokens).join(","))
-            }
-          } else {
-            params.delete("status")
-          }
-          params.delete("archived")
+          params.delete("group")
+        }
+      }
+
+      if (next.assignedToMe !== undefined) {
+        if (next.assignedToMe) {
+          params.set("assignee", ASSIGNED_TO_ME)
+        } else {
+          params.delete("assignee")
+        }
+      }
+
+      if (next.pageSize !== undefined) {
+        if (next.pageSize === DEFAULT_REQUIREMENT_PAGE_SIZE) {
+          params.delete("limit")
+        } else {
+          params.set("limit", String(next.pageSize))
         }
       }
 
@@ -564,28 +719,53 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
         }
       }
 
-      setRequirementRows([])
       setSelectedIds([])
       const queryString = params.toString()
       router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
     },
-    [pathname, router, searchParams],
+    [pathname, router, search, searchParams],
+  )
+
+  const commitSearch = useCallback((q: string) => updateQuery({ search: { q }, page: 1 }), [updateQuery])
+  const [searchInput, setSearchInput] = useSearchInput(search.q, commitSearch, SEARCH_DEBOUNCE_MS)
+
+  // A view replaces the whole query rather than merging into it.
+  const applyView = useCallback(
+    (query: string) => {
+      setSelectedIds([])
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    },
+    [pathname, router],
+  )
+
+  const handleSort = useCallback(
+    (column: RequirementSort) => updateQuery({ search: nextSort(search, column), page: 1 }),
+    [search, updateQuery],
   )
 
   const applyFilters = useCallback(() => {
     const normalizedStatus = [...pendingStatusFilters]
     setPendingStatusFilters(normalizedStatus)
-    updateQuery({ dueFilters: pendingDueFilters, statusFilters: normalizedStatus, page: 1 })
+    updateQuery({ dueFilters: pendingDueFilters, statusFilters: normalizedStatus, facets: pendingFacets, page: 1 })
     setFiltersOpen(false)
-  }, [pendingDueFilters, pendingStatusFilters, updateQuery])
+  }, [pendingDueFilters, pendingFacets, pendingStatusFilters, updateQuery])
 
   const clearFilters = useCallback(() => {
+    const noFacets: FacetFilters = { categories: [], documentIds: [] }
     setPendingDueFilters([])
     setPendingStatusFilters([])
-    updateQuery({ dueFilters: [], statusFilters: [], page: 1 })
+    setPendingFacets(noFacets)
+    updateQuery({ dueFilters: [], statusFilters: [], facets: noFacets, page: 1 })
     setFiltersOpen(false)
   }, [updateQuery])
 
+  const toggleFacet = useCallback((facet: keyof FacetFilters, value: string) => {
+    setPendingFacets((prev) => ({
+      ...prev,
+      [facet]: prev[facet].includes(value) ? prev[facet].filter((item) => item !== value) : [...prev[facet], value],
+    }))
+  }, [])
+
   const toggleDueFilter = useCallback((value: DueFilter) => {
     setPendingDueFilters((prev) => (prev.includes(value) ? prev.filter((item) => item !== value) : [...prev, value]))
   }, [])
@@ -619,14 +799,22 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
         return
       }
       setCompletingId(requirement.id)
+      const completedBy = profile?.user?.email ?? null
       try {
-        const updated = await apiFetch<Requirement>(`/requirements/${requirement.id}/complete`, {
+        const request = send<Requirement>({
+          kind: "complete",
+          path: `/requirements/${requirement.id}/complete`,
           method: "POST",
-          body: JSON.stringify({ completed_by: profile?.user?.email ?? null }),
-        })
+          body: JSON.stringify({ completed_by: completedBy }),
+          requirementIds: [requirement.id],
+          label: requirement.title_en,
+        }).then(confirmedItems)
+        const confirmed = await applyOptimistic(queryParams, [applyCompletion(requirement, completedBy)], request)
+        if (confirmed.length === 0) {
+          toast.info(t("outbox.queued", { defaultValue: "Saved offline. It will sync when you're back online." }))
+          return
+        }
         toast.success(t("requirements.completeSuccess"))
-        setRequirementRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)))
-        await refreshAndHydrate()
       } catch (error) {
         const message = error instanceof ApiError ? error.message : t("requirements.completeError")
         toast.error(message)
@@ -634,16 +822,19 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
         setCompletingId(null)
       }
     },
-    [profile?.user?.email, refreshAndHydrate, t],
+    [applyOptimistic, profile?.user?.email, queryParams, send, t],
   )
 
   const handleRemind = useCallback(
     (requirement: Requirement) => {
-      toast.info(t("requirements.renewReminder"), {
-        description: requirement.title_en,
+      setReminderSubject({
+        type: "requirement",
+        id: requirement.id,
+        title: locale === "es" ? requirement.title_es : requirement.title_en,
+        dueDate: requirement.due_date ?? null,
       })
     },
-    [t],
+    [locale],
   )
 
   const toggleSelection = useCallback((requirement: Requirement, checked: boolean) => {
@@ -710,33 +901,42 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
         archiveReason = trimmed
       }
 
+      const requestedBy = profile?.user?.email ?? null
       try {
-        await Promise.all(
+        const request = Promise.all(
           requirementsToDismiss.map((requirement) =>
-            apiFetch<Requirement>(`/requirements/${requirement.id}/archive`, {
+            send<Requirement>({
+              kind: "archive",
+              path: `/requirements/${requirement.id}/archive`,
               method: "POST",
               body: JSON.stringify({
                 reason: archiveReason,
               }),
-            }),
+              requirementIds: [requirement.id],
+              label: requirement.title_en,
+            }).then(confirmedItems),
           ),
-        )
+        ).then((results) => results.flat())
+        const predicted = requirementsToDismiss.map((requirement) => applyArchive(requirement, archiveReason, requestedBy))
 
+        setSelectedIds((prev) => prev.filter((id) => !requirementsToDismiss.some((req) => req.id === id)))
+        const confirmed = await applyOptimistic(queryParams, predicted, request)
+        if (confirmed.length < predicted.length) {
+          toast.info(t("outbox.queued", { defaultValue: "Saved offline. It will sync when you're back online." }))
+          return
+        }
         const count = requirementsToDismiss.length
         toast.success(
           count === 1
             ? t("triage.dismissed", { defaultValue: "Requirement archived" })
             : t("triage.dismissedMany", { count, defaultValue: "Archived {{count}} requirements" }),
         )
-
-        setSelectedIds((prev) => prev.filter((id) => !requirementsToDismiss.some((req) => req.id === id)))
-        await refreshAndHydrate()
       } catch (error) {
         const message = error instanceof ApiError ? error.message : t("triage.error", { defaultValue: "Unable to update requirements" })
         toast.error(message)
       }
     },
-    [refreshAndHydrate, t],
+    [applyOptimistic, profile?.user?.email, queryParams, send, t],
   )
 
   const archiveRequirement = useCallback(
@@ -757,20 +957,28 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
         return
       }
       try {
-        const updated = await apiFetch<Requirement>(`/requirements/${requirement.id}/archive`, {
+        const request = send<Requirement>({
+          kind: "archive",
+          path: `/requirements/${requirement.id}/archive`,
           method: "POST",
           body: JSON.stringify({ reason }),
-        })
-        toast.success(t("requirements.detail.archived", { defaultValue: "Requirement archived" }))
-        setRequirementRows((prev) => prev.map((row) => (row.id === updated.id ? updated : row)))
+          requirementIds: [requirement.id],
+          label: requirement.title_en,
+        }).then(confirmedItems)
         setSelectedIds((prev) => prev.filter((id) => id !== requirement.id))
-        await refreshAndHydrate()
+        const predicted = applyArchive(requirement, reason, profile?.user?.email ?? null)
+        const confirmed = await applyOptimistic(queryParams, [predicted], request)
+        if (confirmed.length === 0) {
+          toast.info(t("outbox.queued", { defaultValue: "Saved offline. It will sync when you're back online." }))
+          return
+        }
+        toast.success(t("requirements.detail.archived", { defaultValue: "Requirement archived" }))
       } catch (error) {
         const message = error instanceof ApiError ? error.message : t("requirements.detail.archiveError", { defaultValue: "Unable to update retention state" })
         toast.error(message)
       }
     },
-    [refreshAndHydrate, t],
+    [applyOptimistic, profile?.user?.email, queryParams, send, t],
   )
 
   const selectedRequirements = useMemo(
@@ -784,28 +992,39 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
   )
 
   const handleTriageSubmit = useCallback(
-    async (payload: {
-      requirement_ids: string[]
-      frequency?: string
-      anchor_type?: string
-      anchor_value?: Record<string, unknown>
-      due_date?: string
-      assignee?: string
-    }) => {
+    async (payload: TriagePayload) => {
+      const triaged = requirementRows.filter((row) => payload.requirement_ids.includes(row.id))
       try {
-        await apiFetch<{ items: Requirement[]; updated: number }>("/requirements/triage/bulk", {
+        const request = send<{ items: Requirement[]; updated: number }>({
+          kind: "triage",
+          path: "/requirements/triage/bulk",
           method: "POST",
           body: JSON.stringify(payload),
-        })
-        toast.success(t("triage.success", { defaultValue: "Triage updated" }))
+          requirementIds: payload.requirement_ids,
+          label: triaged.map((row) => row.title_en).join(", "),
+        }).then((result) => (result.queued ? [] : result.data.items))
+        const confirmed = await applyOptimistic(
+          queryParams,
+          triaged.map((row) => applyTriage(row, payload)),
+          request,
+        )
         setSelectedIds([])
-        await refreshAndHydrate()
+        if (confirmed.length === 0) {
+          toast.info(t("outbox.queued", { defaultValue: "Saved offline. It will sync when you're back online." }))
+          return
+        }
+        toast.success(t("triage.success", { defaultValue: "Triage updated" }))
       } catch (error) {
+        // The panel shows validation errors next to the fields they belong to.
+        if (fieldErrorsOf(error).length > 0) {
+          toast.error(t("validation.fixFields", { defaultValue: "Fix the highlighted fields and try again." }))
+          throw error
+        }
         console.error("[triage] bulk update failed", error)
         toast.error(t("triage.error", { defaultValue: "Unable to update triage" }))
       }
     },
-    [refreshAndHydrate, t],
+    [applyOptimistic, queryParams, requirementRows, send, t],
   )
 
   const selectionSet = useMemo(() => new Set(selectedIds), [selectedIds])
@@ -852,6 +1071,9 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
         archiveRequirement,
         toggleSelectAll,
         selectAllState,
+        syncingIds,
+        search,
+        handleSort,
       ),
     [
       locale,
@@ -867,10 +1089,17 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
       archiveRequirement,
       toggleSelectAll,
       selectAllState,
+      syncingIds,
+      search,
+      handleSort,
     ],
   )
 
   const hasSelection = selectedRequirements.length > 0
+  const emptyMessage =
+    search.q || assignedToMe || facetFilters.categories.length > 0 || facetFilters.documentIds.length > 0
+      ? t("requirements.noMatches", { defaultValue: "No requirements match your search or filters." })
+      : t("empty.requirements")
 
   return (
     <AppShell
@@ -878,85 +1107,126 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
       description={profile?.org?.name ?? ""}
       actions={<LanguageToggle onPersist={(next) => persistLocale(next)} isSaving={isSavingLocale || profileLoading} />}
     >
-      <div className="mb-6 flex justify-end">
-        <div className="relative" ref={filtersContainerRef}>
+      <OutboxStatus />
+
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          placeholder={t("requirements.searchPlaceholder", { defaultValue: "Search requirements" })}
+          aria-label={t("requirements.searchPlaceholder", { defaultValue: "Search requirements" })}
+          className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm sm:max-w-sm"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <SavedViews query={viewQuery} onApply={applyView} />
           <button
             type="button"
-            onClick={() => setFiltersOpen((open) => !open)}
+            onClick={() => updateQuery({ assignedToMe: !assignedToMe, page: 1 })}
+            aria-pressed={assignedToMe}
             className={`inline-flex items-center rounded-full px-4 py-2 text-sm font-semibold transition ${
-              filtersOpen ? "bg-slate-900 text-white" : "border border-slate-300 text-slate-700 hover:bg-slate-100"
+              assignedToMe ? "bg-slate-900 text-white" : "border border-slate-300 text-slate-700 hover:bg-slate-100"
             }`}
           >
-            <svg
-              aria-hidden="true"
-              className="mr-2 h-4 w-4"
-              viewBox="0 0 20 20"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="1.5"
-            >
-              <path strokeLinecap="round" strokeLinejoin="round" d="M3 5h14M5 10h10M8 15h4" />
-            </svg>
-            <span className="text-sm">{t("actions.filter")}</span>
+            {t("requirements.assignedToMe", { defaultValue: "Assigned to me" })}
           </button>
-          {filtersOpen && (
-            <div className="absolute right-0 z-20 mt-3 w-80 rounded-2xl border border-slate-200 bg-white p-4 shadow-xl">
-              <div>
-                <p className="text-xs font-semibold uppercase text-slate-500">{t("requirements.filters.label")}</p>
-                <div className="mt-3 space-y-2">
-                  {dueFilterOptions.map((option) => (
-                    <label
-                      key={option}
-                      className="flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-600 hover:border-slate-300"
-                    >
-                      <span>{t(`filters.${option}`)}</span>
-                      <input
-                        type="checkbox"
-                        checked={pendingDueFilters.includes(option)}
-                        onChange={() => toggleDueFilter(option)}
-                      />
-                    </label>
-                  ))}
+          <div className="relative" ref={filtersContainerRef}>
+            <button
+              type="button"
+              onClick={() => setFiltersOpen((open) => !open)}
+              className={`inline-flex items-center rounded-full px-4 py-2 text-sm font-semibold transition ${
+                filtersOpen ? "bg-slate-900 text-white" : "border border-slate-300 text-slate-700 hover:bg-slate-100"
+              }`}
+            >
+              <svg
+                aria-hidden="true"
+                className="mr-2 h-4 w-4"
+                viewBox="0 0 20 20"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="1.5"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 5h14M5 10h10M8 15h4" />
+              </svg>
+              <span className="text-sm">{t("actions.filter")}</span>
+            </button>
+            {filtersOpen && (
+              <div className="absolute right-0 z-20 mt-3 max-h-[70vh] w-80 overflow-y-auto rounded-2xl border border-slate-200 bg-white p-4 shadow-xl">
+                <div>
+                  <p className="text-xs font-semibold uppercase text-slate-500">{t("requirements.filters.label")}</p>
+                  <div className="mt-3 space-y-2">
+                    {DUE_FILTERS.map((option) => (
+                      <label
+                        key={option}
+                        className="flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-600 hover:border-slate-300"
+                      >
+                        <span>{t(`filters.${option}`)}</span>
+                        <input
+                          type="checkbox"
+                          checked={pendingDueFilters.includes(option)}
+                          onChange={() => toggleDueFilter(option)}
+                        />
+                      </label>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              <div className="mt-4 border-t border-slate-200 pt-4">
-                <p className="text-xs font-semibold uppercase text-slate-500">{t("requirements.filters.statusLabel")}</p>
-                <div className="mt-3 space-y-2">
-                  {statusFilterOptions.map((option) => (
-                    <label
-                      key={option}
-                      className="flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-600 hover:border-slate-300"
-                    >
-                      <span>{t(`statusFilters.${option}`, { defaultValue: STATUS_FILTER_LABELS[option] })}</span>
-                      <input
-                        type="checkbox"
-                        checked={pendingStatusFilters.includes(option)}
-                        onChange={() => toggleStatusFilter(option)}
-                      />
-                    </label>
-                  ))}
+                <div className="mt-4 border-t border-slate-200 pt-4">
+                  <p className="text-xs font-semibold uppercase text-slate-500">{t("requirements.filters.statusLabel")}</p>
+                  <div className="mt-3 space-y-2">
+                    {STATUS_FILTERS.map((option) => (
+                      <label
+                        key={option}
+                        className="flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-600 hover:border-slate-300"
+                      >
+                        <span>{t(`statusFilters.${option}`, { defaultValue: STATUS_FILTER_LABELS[option] })}</span>
+                        <input
+                          type="checkbox"
+                          checked={pendingStatusFilters.includes(option)}
+                          onChange={() => toggleStatusFilter(option)}
+                        />
+                      </label>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              <div className="mt-4 flex items-center justify-between border-t border-slate-200 pt-4">
-                <button
-                  type="button"
-                  onClick={clearFilters}
-                  className="text-sm font-semibold text-slate-500 hover:text-slate-700"
-                >
-                  {t("actions.clear", { defaultValue: "Clear" })}
-                </button>
-                <button
-                  type="button"
-                  onClick={applyFilters}
-                  className="inline-flex items-center rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800"
-                >
-                  {t("actions.apply", { defaultValue: "Apply" })}
-                </button>
+                <FacetOptions
+                  title={t("requirements.filters.categoryLabel", { defaultValue: "Category" })}
+                  buckets={facets?.categories}
+                  selected={pendingFacets.categories}
+                  formatLabel={(bucket) => formatCategoryLabel(bucket.value, t)}
+                  onToggle={(value) => toggleFacet("categories", value)}
+                  t={t}
+                />
+
+                <FacetOptions
+                  title={t("requirements.filters.documentLabel", { defaultValue: "Source document" })}
+                  buckets={facets?.documents}
+                  selected={pendingFacets.documentIds}
+                  formatLabel={(bucket) => bucket.label ?? bucket.value ?? "—"}
+                  onToggle={(value) => toggleFacet("documentIds", value)}
+                  t={t}
+                />
+
+                <div className="mt-4 flex items-center justify-between border-t border-slate-200 pt-4">
+                  <button
+                    type="button"
+                    onClick={clearFilters}
+                    className="text-sm font-semibold text-slate-500 hover:text-slate-700"
+                  >
+                    {t("actions.clear", { defaultValue: "Clear" })}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={applyFilters}
+                    className="inline-flex items-center rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800"
+                  >
+                    {t("actions.apply", { defaultValue: "Apply" })}
+                  </button>
+                </div>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
       </div>
 
@@ -969,16 +1239,61 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
       >
         <div className={hasSelection ? "space-y-6" : undefined}>
           <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
-            <DataTable<Requirement>
-              key={locale}
-              columns={columns}
-              data={requirementRows}
-              isLoading={requirementsLoading && requirementRows.length === 0}
-              loadingMessage={t("app.loading")}
-              emptyMessage={t("empty.requirements")}
-              pageSize={PAGE_SIZE}
-            />
-            <div className="mt-6 flex items-center justify-end">
+            <div className="mb-4 flex justify-end">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                {t("requirements.groups.label", { defaultValue: "Group by" })}
+                <select
+                  value={groupBy ?? ""}
+                  onChange={(event) => updateQuery({ groupBy: (event.target.value || null) as RequirementGroup | null })}
+                  className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+                >
+                  <option value="">{t("requirements.groups.none", { defaultValue: "No grouping" })}</option>
+                  {REQUIREMENT_GROUPS.map((group) => (
+                    <option key={group} value={group}>
+                      {t(`requirements.groups.${group}`, { defaultValue: GROUP_LABELS[group] })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {groupBy ? (
+              <RequirementGroups
+                key={`${locale}-${groupBy}-${pageSize}`}
+                rows={requirementRows}
+                groupBy={groupBy}
+                buckets={groupBy === "document" ? facets?.documents : facets?.categories}
+                columns={columns}
+                pageSize={pageSize}
+                isLoading={requirementsLoading && requirementRows.length === 0}
+                loadingMessage={t("app.loading")}
+                emptyMessage={emptyMessage}
+              />
+            ) : (
+              <DataTable<Requirement>
+                key={`${locale}-${pageSize}`}
+                columns={columns}
+                data={requirementRows}
+                isLoading={requirementsLoading && requirementRows.length === 0}
+                loadingMessage={t("app.loading")}
+                emptyMessage={emptyMessage}
+                pageSize={pageSize}
+              />
+            )}
+            <div className="mt-6 flex flex-wrap items-center justify-end gap-4">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                {t("requirements.pageSize", { defaultValue: "Rows per page" })}
+                <select
+                  value={pageSize}
+                  onChange={(event) => updateQuery({ pageSize: Number(event.target.value), page: 1 })}
+                  className="rounded-lg border border-slate-300 px-2 py-1 text-sm"
+                >
+                  {REQUIREMENT_PAGE_SIZES.map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </label>
               <Pagination
                 page={currentPage}
                 pageCount={pageCount}
@@ -999,6 +1314,11 @@ export function RequirementsClient({ initialRequirements, initialProfile }: Requ
           />
         )}
       </div>
+      <ReminderDialog
+        subject={reminderSubject}
+        defaultRecipient={profile?.user?.email}
+        onClose={() => setReminderSubject(null)}
+      />
     </AppShell>
   )
 }
@@ -1014,7 +1334,7 @@ function formatFrequencyLabel(value: string | null | undefined, t: (key: string,
   return formatted.charAt(0).toUpperCase() + formatted.slice(1)
 }
 
-function formatCategoryLabel(value: string | null | undefined, t: (key: string, options?: Record<string, unknown>) => string): string {
+export function formatCategoryLabel(value: string | null | undefined, t: (key: string, options?: Record<string, unknown>) => string): string {
   if (!value) {
     return "—"
   }
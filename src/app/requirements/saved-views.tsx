@@ -0,0 +1,239 @@
+"use client"
+
+import { FormEvent, useEffect, useRef, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { toast } from "sonner"
+
+import { useOrg } from "@/components/org-provider"
+import { useApiData } from "@/hooks/useApiData"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { ApiError, fieldErrorsOf, formatFieldError } from "@/lib/api/client"
+import { VIEWS_PATH, createView, deleteView, updateView, type RequirementView } from "@/lib/requirement-views"
+
+type Props = {
+  /** The current page query, as `viewQueryOf` builds it. */
+  query: string
+  onApply: (query: string) => void
+}
+
+export function SavedViews({ query, onApply }: Props) {
+  const { t } = useTranslation()
+  const { orgId } = useOrg()
+  const { data: profile } = useApiData<AuthMeResponse>("/auth/me")
+  const { data: views, mutate } = useApiData<RequirementView[]>(VIEWS_PATH)
+  const [formOpen, setFormOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [shared, setShared] = useState(false)
+  const [makeDefault, setMakeDefault] = useState(false)
+  const [nameError, setNameError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  // The default view only replaces an empty query once per visit, so clearing the filters afterwards sticks.
+  const defaultChecked = useRef(false)
+
+  useEffect(() => {
+    if (!views || defaultChecked.current) return
+    defaultChecked.current = true
+    const preferred = views.find((view) => view.is_default)
+    if (preferred && query === "" && preferred.query !== "") {
+      onApply(preferred.query)
+    }
+  }, [onApply, query, views])
+
+  useEffect(() => {
+    if (!formOpen) return
+    const handlePointer = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setFormOpen(false)
+    }
+    document.addEventListener("mousedown", handlePointer)
+    return () => document.removeEventListener("mousedown", handlePointer)
+  }, [formOpen])
+
+  const email = profile?.user.email
+  const active = views?.find((view) => view.query === query) ?? null
+  const ownViews = views?.filter((view) => view.owner_email === email) ?? []
+  const sharedViews = views?.filter((view) => view.owner_email !== email) ?? []
+
+  const openForm = () => {
+    setName("")
+    setShared(false)
+    setMakeDefault(false)
+    setNameError(null)
+    setFormOpen(true)
+  }
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsSaving(true)
+    setNameError(null)
+    try {
+      await createView({ name: name.trim(), query, visibility: shared ? "org" : "personal", is_default: makeDefault }, orgId)
+      await mutate()
+      setFormOpen(false)
+      toast.success(t("requirements.views.saved", { defaultValue: "View saved" }))
+    } catch (error) {
+      const fieldError = fieldErrorsOf(error).find((item) => item.field === "name")
+      if (fieldError) {
+        setNameError(formatFieldError(fieldError, t))
+      } else {
+        toast.error(error instanceof ApiError ? error.message : t("requirements.views.saveError", { defaultValue: "Unable to save the view" }))
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleDefault = async (view: RequirementView) => {
+    try {
+      await updateView(view.id, { is_default: !view.is_default }, orgId)
+      await mutate()
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : t("requirements.views.updateError", { defaultValue: "Unable to update the view" }))
+    }
+  }
+
+  const handleDelete = async (view: RequirementView) => {
+    if (!window.confirm(t("requirements.views.confirmDelete", { name: view.name, defaultValue: "Delete the view \"{{name}}\"?" }))) {
+      return
+    }
+    try {
+      await deleteView(view.id, orgId)
+      await mutate()
+      toast.success(t("requirements.views.deleted", { defaultValue: "View deleted" }))
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : t("requirements.views.deleteError", { defaultValue: "Unable to delete the view" }))
+    }
+  }
+
+  // The link carries the filters themselves, so it works for people the view is not shared with.
+  const copyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ""}`
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success(t("requirements.views.linkCopied", { defaultValue: "Link copied" }))
+    } catch {
+      toast.error(t("requirements.views.copyFailed", { defaultValue: "Couldn't copy the link. Copy it from the address bar instead." }))
+    }
+  }
+
+  const optionLabel = (view: RequirementView) =>
+    view.is_default ? t("requirements.views.defaultSuffix", { name: view.name, defaultValue: "{{name}} (default)" }) : view.name
+
+  const buttonClass =
+    "inline-flex items-center rounded-full border border-slate-300 px-3 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+
+  return (
+    <div ref={containerRef} className="relative flex flex-wrap items-center gap-2">
+      <select
+        value={active?.id ?? ""}
+        onChange={(event) => {
+          const view = views?.find((item) => item.id === event.target.value)
+          if (view) onApply(view.query)
+        }}
+        aria-label={t("requirements.views.label", { defaultValue: "Saved views" })}
+        className="max-w-56 rounded-full border border-slate-300 px-3 py-2 text-sm text-slate-700"
+      >
+        <option value="" disabled>
+          {views && views.length > 0
+            ? t("requirements.views.choose", { defaultValue: "Saved views" })
+            : t("requirements.views.none", { defaultValue: "No saved views" })}
+        </option>
+        {ownViews.length > 0 && (
+          <optgroup label={t("requirements.views.mine", { defaultValue: "My views" })}>
+            {ownViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {optionLabel(view)}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sharedViews.length > 0 && (
+          <optgroup label={t("requirements.views.shared", { defaultValue: "Shared with the organization" })}>
+            {sharedViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {optionLabel(view)}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      {active ? (
+        <>
+          <button type="button" onClick={() => void toggleDefault(active)} className={buttonClass}>
+            {active.is_default
+              ? t("requirements.views.unsetDefault", { defaultValue: "Remove as default" })
+              : t("requirements.views.setDefault", { defaultValue: "Make default" })}
+          </button>
+          {active.owner_email === email && (
+            <button type="button" onClick={() => void handleDelete(active)} className={buttonClass}>
+              {t("requirements.views.delete", { defaultValue: "Delete view" })}
+            </button>
+          )}
+        </>
+      ) : (
+        <button type="button" onClick={openForm} aria-expanded={formOpen} className={buttonClass}>
+          {t("requirements.views.save", { defaultValue: "Save view" })}
+        </button>
+      )}
+      <button type="button" onClick={() => void copyLink()} className={buttonClass}>
+        {t("requirements.views.copyLink", { defaultValue: "Copy link" })}
+      </button>
+
+      {formOpen && (
+        <form
+          onSubmit={handleSave}
+          noValidate
+          className="absolute right-0 top-full z-20 mt-3 w-80 space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-xl"
+        >
+          <div>
+            <label htmlFor="saved-view-name" className="block text-sm font-medium text-slate-700">
+              {t("requirements.views.name", { defaultValue: "View name" })}
+            </label>
+            <input
+              id="saved-view-name"
+              value={name}
+              onChange={(event) => {
+                setName(event.target.value)
+                setNameError(null)
+              }}
+              autoFocus
+              aria-invalid={nameError ? true : undefined}
+              aria-describedby={nameError ? "saved-view-name-error" : undefined}
+              className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            />
+            {nameError && (
+              <p id="saved-view-name-error" className="mt-1 text-sm text-red-700">
+                {nameError}
+              </p>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={shared} onChange={(event) => setShared(event.target.checked)} />
+            {t("requirements.views.shareWithOrg", { defaultValue: "Share with my organization" })}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={makeDefault} onChange={(event) => setMakeDefault(event.target.checked)} />
+            {t("requirements.views.useAsDefault", { defaultValue: "Open the list with this view" })}
+          </label>
+          <div className="flex items-center justify-between border-t border-slate-200 pt-3">
+            <button
+              type="button"
+              onClick={() => setFormOpen(false)}
+              className="text-sm font-semibold text-slate-500 hover:text-slate-700"
+            >
+              {t("actions.cancel", { defaultValue: "Cancel" })}
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim()}
+              className="inline-flex items-center rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {t("actions.save")}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { useMemo } from "react"
+import { useTranslation } from "react-i18next"
+
+import { useLocale } from "@/components/locale-provider"
+import { formatDate, isOverdue } from "@/lib/dates"
+import { upcomingOccurrences, type RecurrenceRule } from "@/lib/recurrence"
+
+type SchedulePreviewProps = {
+  rule: RecurrenceRule | null
+  completions?: Date[]
+  count?: number
+}
+
+export function SchedulePreview({ rule, completions, count = 5 }: SchedulePreviewProps) {
+  const { t } = useTranslation()
+  const { locale } = useLocale()
+
+  const occurrences = useMemo(
+    () => (rule ? upcomingOccurrences(rule, { count, completions }) : []),
+    [completions, count, rule],
+  )
+
+  let emptyMessage: string | null = null
+  if (!rule) {
+    emptyMessage = t("schedule.pickFrequency", { defaultValue: "Choose a frequency to preview the schedule." })
+  } else if (rule.frequency === "BEFORE_EACH_USE") {
+    emptyMessage = t("schedule.beforeEachUse", { defaultValue: "Checked before each use, so there is no calendar schedule." })
+  } else if (rule.anchorType === "FIRST_COMPLETION" && occurrences.length === 0) {
+    emptyMessage = t("schedule.afterFirstCompletion", { defaultValue: "The schedule starts after the first completion." })
+  } else if (occurrences.length === 0) {
+    emptyMessage = t("schedule.incomplete", { defaultValue: "Add a due date or interval to preview the schedule." })
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-3">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-600">
+        {t("schedule.previewTitle", { defaultValue: "Upcoming due dates" })}
+      </p>
+      {emptyMessage ? (
+        <p className="text-xs text-slate-500">{emptyMessage}</p>
+      ) : (
+        <ol className="space-y-1 text-sm text-slate-700">
+          {occurrences.map((date) => {
+            const iso = date.toISOString()
+            return (
+              <li key={iso} className="flex items-center justify-between gap-2">
+                <span>{formatDate(iso, locale)}</span>
+                {isOverdue(iso) && (
+                  <span className="text-xs font-medium text-rose-600">{t("statuses.overdue")}</span>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
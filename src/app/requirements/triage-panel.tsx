@@ -5,7 +5,19 @@ import { useTranslation } from "react-i18next"
 import { toast } from "sonner"
 
 import { Requirement, formatTriageReason } from "./requirements-client"
+import { SchedulePreview } from "./schedule-preview"
+import { MemberPicker } from "@/components/member-picker"
+import { FieldErrorMessage, FieldErrorSummary } from "@/components/ui/field-error"
 import { TrashIcon } from "@/components/ui/icons"
+import { fieldErrorsOf, mapFieldErrors, type FieldError } from "@/lib/api/client"
+import {
+  ANCHOR_TYPES,
+  FREQUENCIES,
+  parseAnchorType,
+  parseFrequency,
+  requiresInterval as frequencyRequiresInterval,
+  type RecurrenceRule,
+} from "@/lib/recurrence"
 
 type Props = {
   selected: Requirement[]
@@ -31,34 +43,32 @@ type FormState = {
   status?: string
 }
 
-const FREQUENCIES = [
-  "BEFORE_EACH_USE",
-  "DAILY",
-  "WEEKLY",
-  "MONTHLY",
-  "QUARTERLY",
-  "ANNUAL",
-  "EVERY_N_DAYS",
-  "EVERY_N_WEEKS",
-  "EVERY_N_MONTHS",
-  "ONE_TIME",
-] as const
-
-const ANCHORS = [
-  "UPLOAD_DATE",
-  "ISSUE_DATE",
-  "CALENDAR",
-  "FIRST_COMPLETION",
-  "CUSTOM_DATE",
-] as const
+export type TriageControl = keyof FormState
+
+/** Where the triage request's fields are edited, for showing 422 errors inline. */
+export const TRIAGE_FIELD_CONTROLS: Record<string, TriageControl> = {
+  status: "status",
+  frequency: "frequency",
+  anchor_type: "anchorType",
+  anchor_value: "interval",
+  "anchor_value.date": "anchorDate",
+  due_date: "dueDate",
+  assignee: "assignee",
+}
+
+const errorId = (control: TriageControl) => `triage-${control}-error`
 
 export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props) {
   const { t } = useTranslation()
   const [form, setForm] = useState<FormState>({ status: "OPEN" })
   const [submitting, setSubmitting] = useState(false)
   const [dismissing, setDismissing] = useState(false)
+  const [serverErrors, setServerErrors] = useState<{
+    byField: Partial<Record<TriageControl, FieldError>>
+    unmatched: FieldError[]
+  }>({ byField: {}, unmatched: [] })
 
-  const needsInterval = (form.frequency ?? "").startsWith("EVERY_N_")
+  const needsInterval = frequencyRequiresInterval(form.frequency)
 
   const selectionSummary = useMemo(() => {
     if (selected.length === 0) return { reasons: [], titles: [] as string[] }
@@ -66,17 +76,21 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
     const titles: string[] = []
     selected.forEach((item) => {
       titles.push(item.title_en)
-      const triageMeta = (item.attributes as Record<string, any>)?.triage
-      const values = Array.isArray(triageMeta?.reasons) ? triageMeta?.reasons : []
-      values.forEach((value: string) => reasons.add(value))
+      const triageMeta = item.attributes?.triage as { reasons?: unknown } | undefined
+      const values = Array.isArray(triageMeta?.reasons) ? (triageMeta.reasons as string[]) : []
+      values.forEach((value) => reasons.add(value))
     })
     return { reasons: Array.from(reasons), titles }
   }, [selected])
 
-  const handleChange = (field: keyof FormState, value: string | undefined) => {
+  const handleChange = (field: TriageControl, value: string | undefined) => {
     setForm((prev) => ({ ...prev, [field]: value }))
+    setServerErrors((prev) => (prev.byField[field] ? { ...prev, byField: { ...prev.byField, [field]: undefined } } : prev))
   }
 
+  const fieldProps = (control: TriageControl) =>
+    serverErrors.byField[control] ? { "aria-invalid": true, "aria-describedby": errorId(control) } : {}
+
   const handleSubmit = async (event: FormEvent) => {
     event.preventDefault()
 
@@ -94,7 +108,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
       toast.error(t("triage.dueRequired", { defaultValue: "Set a due date before resolving." }))
       return
     }
-    const requiresInterval = frequency?.startsWith("EVERY_N_") ?? false
+    const requiresInterval = frequencyRequiresInterval(frequency)
     const intervalValue = form.interval ? Number(form.interval) : undefined
     if (requiresInterval && (!intervalValue || Number.isNaN(intervalValue) || intervalValue <= 0)) {
       toast.error(t("triage.intervalRequired", { defaultValue: "Provide an interval value" }))
@@ -148,8 +162,13 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
         payload.status = form.status
       }
 
+      setServerErrors({ byField: {}, unmatched: [] })
       await onSubmit(payload)
       setForm({ status: "OPEN" })
+    } catch (error) {
+      const fieldErrors = fieldErrorsOf(error)
+      if (fieldErrors.length === 0) throw error
+      setServerErrors(mapFieldErrors(fieldErrors, TRIAGE_FIELD_CONTROLS))
     } finally {
       setSubmitting(false)
     }
@@ -157,6 +176,19 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
 
   const selectedDue = selected.length === 1 ? selected[0].due_date ?? undefined : undefined
   const reasons = selectionSummary.reasons
+
+  const previewRule = useMemo<RecurrenceRule | null>(() => {
+    const frequency = parseFrequency(form.frequency)
+    if (!frequency) return null
+    const dueDate = form.dueDate ? `${form.dueDate}T00:00:00Z` : selectedDue ?? null
+    return {
+      frequency,
+      anchorType: parseAnchorType(form.anchorType),
+      anchorDate: form.anchorDate ? `${form.anchorDate}T00:00:00Z` : null,
+      interval: form.interval ? Number(form.interval) : null,
+      dueDate,
+    }
+  }, [form.anchorDate, form.anchorType, form.dueDate, form.frequency, form.interval, selectedDue])
   const titles = selectionSummary.titles
 
   const handleDismissClick = async () => {
@@ -222,6 +254,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
           </label>
           <select
             id="triage-status"
+            {...fieldProps("status")}
             className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
             value={form.status ?? ""}
             onChange={(event) => handleChange("status", event.target.value || undefined)}
@@ -231,6 +264,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
             <option value="REVIEW">{t("statuses.review", { defaultValue: "Needs review" })}</option>
             <option value="DONE">{t("statuses.done", { defaultValue: "Completed" })}</option>
           </select>
+          <FieldErrorMessage id={errorId("status")} error={serverErrors.byField.status} />
         </div>
 
         <div className="space-y-2">
@@ -239,6 +273,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
           </label>
           <select
             id="triage-frequency"
+            {...fieldProps("frequency")}
             className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
             value={form.frequency ?? ""}
             onChange={(event) => handleChange("frequency", event.target.value || undefined)}
@@ -250,6 +285,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
               </option>
             ))}
           </select>
+          <FieldErrorMessage id={errorId("frequency")} error={serverErrors.byField.frequency} />
         </div>
 
         {needsInterval && (
@@ -259,6 +295,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
             </label>
             <input
               id="triage-interval"
+              {...fieldProps("interval")}
               type="number"
               min={1}
               className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
@@ -266,6 +303,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
               onChange={(event) => handleChange("interval", event.target.value || undefined)}
               placeholder="5"
             />
+            <FieldErrorMessage id={errorId("interval")} error={serverErrors.byField.interval} />
             <p className="text-xs text-slate-500">
               {t("triage.intervalHint", { defaultValue: "Required for every-N schedules" })}
             </p>
@@ -279,17 +317,19 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
             </label>
             <select
               id="triage-anchor-type"
+              {...fieldProps("anchorType")}
               className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
               value={form.anchorType ?? ""}
               onChange={(event) => handleChange("anchorType", event.target.value || undefined)}
             >
               <option value="">{t("triage.anchorTypePlaceholder", { defaultValue: "Select reference" })}</option>
-              {ANCHORS.map((value) => (
+              {ANCHOR_TYPES.map((value) => (
                 <option key={value} value={value}>
                   {t(`anchors.${toTranslationKey(value)}`, { defaultValue: humanizeToken(value) })}
                 </option>
               ))}
             </select>
+            <FieldErrorMessage id={errorId("anchorType")} error={serverErrors.byField.anchorType} />
             <p className="text-xs text-slate-500">
               {t("triage.anchorTypeHint", {
                 defaultValue: "Use upload date or first completion to schedule future cycles.",
@@ -302,12 +342,14 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
             </label>
             <input
               id="triage-anchor-date"
+              {...fieldProps("anchorDate")}
               type="date"
               className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
               value={form.anchorDate ?? ""}
               onChange={(event) => handleChange("anchorDate", event.target.value || undefined)}
               disabled={!form.anchorType || form.anchorType === "FIRST_COMPLETION"}
             />
+            <FieldErrorMessage id={errorId("anchorDate")} error={serverErrors.byField.anchorDate} />
             <p className="text-xs text-slate-500">
               {t("triage.anchorDateHint", {
                 defaultValue: "Optional date to start the schedule (leave blank to use today).",
@@ -322,25 +364,29 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
           </label>
           <input
             id="triage-due-date"
+            {...fieldProps("dueDate")}
             type="date"
             className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
             value={form.dueDate ?? (selectedDue ? selectedDue.slice(0, 10) : "")}
             onChange={(event) => handleChange("dueDate", event.target.value || undefined)}
           />
+          <FieldErrorMessage id={errorId("dueDate")} error={serverErrors.byField.dueDate} />
         </div>
 
+        <SchedulePreview rule={previewRule} />
+
         <div className="space-y-2">
           <label className="block text-sm font-medium text-slate-700" htmlFor="triage-assignee">
             {t("triage.assignee", { defaultValue: "Assignee" })}
           </label>
-          <input
+          <MemberPicker
             id="triage-assignee"
-            type="email"
+            {...fieldProps("assignee")}
             className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm shadow-sm"
             value={form.assignee ?? ""}
-            onChange={(event) => handleChange("assignee", event.target.value || undefined)}
-            placeholder="triage@example.com"
+            onChange={(email) => handleChange("assignee", email || undefined)}
           />
+          <FieldErrorMessage id={errorId("assignee")} error={serverErrors.byField.assignee} />
         </div>
 
         {titles.length > 0 && (
@@ -359,6 +405,8 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
           </div>
         )}
 
+        <FieldErrorSummary errors={serverErrors.unmatched} />
+
         <div className="flex flex-wrap gap-3">
           <button
             type="submit"
@@ -386,6 +434,7 @@ export function TriagePanel({ selected, onSubmit, onDismiss, onCancel }: Props)
             type="button"
             onClick={() => {
               setForm({ status: "OPEN" })
+              setServerErrors({ byField: {}, unmatched: [] })
               onCancel()
             }}
             disabled={submitting || dismissing}
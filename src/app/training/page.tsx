@@ -1,30 +1,12 @@
 import { TrainingClient, TrainingCert } from "@/app/training/training-client"
 import { AuthMeResponse } from "@/hooks/useAuthedProfile"
-import { serverApiFetch } from "@/lib/api/server"
-
-async function fetchInitialTraining(): Promise<{
-  profile: AuthMeResponse | null
-  training: TrainingCert[] | null
-}> {
-  try {
-    const [profile, training] = await Promise.all([
-      serverApiFetch<AuthMeResponse>("/auth/me"),
-      serverApiFetch<TrainingCert[]>("/training"),
-    ])
-    return { profile, training }
-  } catch (error) {
-    console.warn("[training] Prefetch failed", error)
-    return { profile: null, training: null }
-  }
-}
+import { serverApiFetch, serverPrefetch } from "@/lib/api/server"
 
 export default async function TrainingPage() {
-  const initialData = await fetchInitialTraining()
+  const [profile, training] = await Promise.all([
+    serverPrefetch("training", () => serverApiFetch<AuthMeResponse>("/auth/me")),
+    serverPrefetch("training", () => serverApiFetch<TrainingCert[]>("/training")),
+  ])
 
-  return (
-    <TrainingClient
-      initialProfile={initialData.profile}
-      initialTraining={initialData.training}
-    />
-  )
+  return <TrainingClient initialProfile={profile} initialTraining={training} />
 }
@@ -11,10 +11,11 @@ import { useLocale } from "@/components/locale-provider"
 import { DataTable } from "@/components/ui/data-table"
 import { Badge, type BadgeVariant } from "@/components/ui/badge"
 import { Pagination } from "@/components/ui/pagination"
+import { ReminderDialog } from "@/components/reminder-dialog"
 import { ApiError, API_URL } from "@/lib/api/client"
 import { EyeIcon, BellIcon } from "@/components/ui/icons"
-import { setMockToastMessage } from "@/lib/testing"
 import { formatDate, isDueWithin, isOverdue } from "@/lib/dates"
+import type { ReminderSubject } from "@/lib/reminders"
 import { useApiData } from "@/hooks/useApiData"
 import { AuthMeResponse, useAuthedProfile } from "@/hooks/useAuthedProfile"
 import { usePersistedLocale } from "@/hooks/usePersistedLocale"
@@ -52,6 +53,7 @@ export function TrainingClient({ initialTraining, initialProfile }: TrainingClie
   const { persistLocale, isSaving: isSavingLocale } = usePersistedLocale()
 
   const [page, setPage] = useState(1)
+  const [reminderSubject, setReminderSubject] = useState<ReminderSubject | null>(null)
   const [trainingRows, setTrainingRows] = useState<TrainingCert[]>(() => initialTraining ?? [])
 
   const {
@@ -110,15 +112,14 @@ export function TrainingClient({ initialTraining, initialProfile }: TrainingClie
     [t],
   )
 
-  const handleRenew = useCallback(
-    (record: TrainingCert) => {
-      toast.info(t("training.renewReminder"), {
-        description: record.worker_name,
-      })
-      setMockToastMessage(t("training.renewReminder"))
-    },
-    [t],
-  )
+  const handleRenew = useCallback((record: TrainingCert) => {
+    setReminderSubject({
+      type: "training",
+      id: record.id,
+      title: `${record.worker_name} · ${record.certification_type}`,
+      dueDate: record.expires_at ?? null,
+    })
+  }, [])
 
   const columns = useMemo<ColumnDef<TrainingCert>[]>(() => {
     return [
@@ -249,6 +250,11 @@ export function TrainingClient({ initialTraining, initialProfile }: TrainingClie
           />
         </div>
       </div>
+      <ReminderDialog
+        subject={reminderSubject}
+        defaultRecipient={profile?.user?.email}
+        onClose={() => setReminderSubject(null)}
+      />
     </AppShell>
   )
 }
@@ -0,0 +1,107 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useRef, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { toast } from "sonner"
+
+import { useOutbox } from "@/components/outbox-provider"
+import { useApiData } from "@/hooks/useApiData"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { signOut } from "@/lib/account"
+
+export function AccountMenu() {
+  const { t } = useTranslation()
+  const { pending } = useOutbox()
+  const { data: profile } = useApiData<AuthMeResponse>("/auth/me")
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSigningOut, setIsSigningOut] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointer = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false)
+    }
+    document.addEventListener("mousedown", handlePointer)
+    document.addEventListener("keydown", handleKey)
+    return () => {
+      document.removeEventListener("mousedown", handlePointer)
+      document.removeEventListener("keydown", handleKey)
+    }
+  }, [isOpen])
+
+  const handleSignOut = async () => {
+    // Queued changes are replayed with the session; signing out drops them.
+    if (
+      pending.length > 0 &&
+      !window.confirm(
+        t("account.signOutPending", {
+          count: pending.length,
+          defaultValue: "{{count}} offline changes have not synced yet and will be lost. Sign out anyway?",
+        }),
+      )
+    ) {
+      return
+    }
+    setIsSigningOut(true)
+    try {
+      await signOut()
+    } catch {
+      toast.error(t("account.signOutFailed", { defaultValue: "Could not sign out. Try again." }))
+      setIsSigningOut(false)
+    }
+  }
+
+  const email = profile?.user.email
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={t("account.menu", { defaultValue: "Account menu" })}
+        className="flex h-9 w-9 items-center justify-center rounded-full border border-slate-300 text-sm font-semibold uppercase text-slate-700 transition hover:bg-slate-100"
+      >
+        {email ? email.charAt(0) : "?"}
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-40 mt-2 w-64 rounded-xl border border-[color:var(--border)] bg-[color:var(--surface)] py-2 shadow-lg"
+        >
+          {profile && (
+            <div className="border-b border-[color:var(--border)] px-4 pb-2">
+              <p className="truncate text-sm font-medium text-[color:var(--foreground)]">{profile.user.email}</p>
+              <p className="truncate text-xs text-slate-500">{profile.org.name}</p>
+            </div>
+          )}
+          <Link
+            href="/account"
+            role="menuitem"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 text-sm text-slate-600 transition hover:bg-slate-100"
+          >
+            {t("account.settings", { defaultValue: "Account settings" })}
+          </Link>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleSignOut}
+            disabled={isSigningOut}
+            className="block w-full px-4 py-2 text-left text-sm text-slate-600 transition hover:bg-slate-100 disabled:opacity-60"
+          >
+            {isSigningOut
+              ? t("account.signingOut", { defaultValue: "Signing out…" })
+              : t("account.signOut", { defaultValue: "Sign out" })}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
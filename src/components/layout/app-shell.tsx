@@ -7,13 +7,17 @@ import { useTranslation } from "react-i18next"
 
 import clsx from "clsx"
 
+import { AccountMenu } from "@/components/layout/account-menu"
+import { OrgSwitcher } from "@/components/layout/org-switcher"
 import { ThemeToggle } from "@/components/theme-toggle"
 
 const navItems = [
+  { href: "/", key: "nav.dashboard" },
   { href: "/documents", key: "nav.documents" },
   { href: "/requirements", key: "nav.requirements" },
   { href: "/permits", key: "nav.permits" },
   { href: "/training", key: "nav.training" },
+  { href: "/calendar", key: "nav.calendar" },
 ]
 
 type AppShellProps = {
@@ -35,7 +39,7 @@ export function AppShell({ title, description, actions, children }: AppShellProp
         </div>
         <nav className="mt-2 space-y-1 px-4">
           {navItems.map((item) => {
-            const isActive = pathname.startsWith(item.href)
+            const isActive = item.href === "/" ? pathname === "/" : pathname.startsWith(item.href)
             return (
               <Link
                 key={item.href}
@@ -61,8 +65,10 @@ export function AppShell({ title, description, actions, children }: AppShellProp
               {description ? <p className="mt-1 text-sm text-slate-600">{description}</p> : null}
             </div>
             <div className="flex items-center gap-3">
+              <OrgSwitcher />
               <ThemeToggle />
               {actions}
+              <AccountMenu />
             </div>
           </div>
         </div>
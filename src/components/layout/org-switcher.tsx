@@ -0,0 +1,33 @@
+"use client"
+
+import { useTranslation } from "react-i18next"
+
+import { useOrg } from "@/components/org-provider"
+import { useApiData } from "@/hooks/useApiData"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+
+/** Picks the org the app works in; hidden for users who belong to only one. */
+export function OrgSwitcher() {
+  const { t } = useTranslation()
+  const { isSwitching, switchOrg } = useOrg()
+  const { data: profile } = useApiData<AuthMeResponse>("/auth/me")
+
+  if (!profile || profile.orgs.length < 2) return null
+
+  return (
+    <select
+      value={profile.org.id}
+      onChange={(event) => switchOrg(event.target.value)}
+      disabled={isSwitching}
+      aria-label={t("org.switch", { defaultValue: "Switch organization" })}
+      aria-busy={isSwitching}
+      className="max-w-48 truncate rounded-full border border-slate-300 bg-transparent px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:bg-slate-100 disabled:opacity-60"
+    >
+      {profile.orgs.map((org) => (
+        <option key={org.id} value={org.id}>
+          {org.name}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -3,7 +3,8 @@
 import { I18nextProvider } from "react-i18next"
 import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
 
-import i18n, { Locale, changeLanguage } from "@/lib/i18n"
+import { Locale, createI18nInstance } from "@/lib/i18n"
+import { LOCALE_COOKIE, LOCALE_COOKIE_MAX_AGE_SECONDS } from "@/lib/locale"
 
 type LocaleContextValue = {
   locale: Locale
@@ -12,33 +13,24 @@ type LocaleContextValue = {
 
 const LocaleContext = createContext<LocaleContextValue | undefined>(undefined)
 
-const STORAGE_KEY = "compliance-copilot-locale"
-
 type LocaleProviderProps = {
   children: ReactNode
+  /** Negotiated by the middleware from the locale cookie or `Accept-Language`. */
   initialLocale?: Locale
 }
 
 export function LocaleProvider({ children, initialLocale = "en" }: LocaleProviderProps) {
   const [locale, setLocaleState] = useState<Locale>(initialLocale)
+  const [i18n] = useState(() => createI18nInstance(initialLocale))
 
+  // The cookie lets the next server render start in the chosen language.
   useEffect(() => {
-    const saved = typeof window !== "undefined" ? window.localStorage.getItem(STORAGE_KEY) : null
-    if (saved === "en" || saved === "es") {
-      setLocaleState(saved)
-    } else if (initialLocale && initialLocale !== locale) {
-      setLocaleState(initialLocale)
-    }
-    // We only want this to run once on mount
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
-
-  useEffect(() => {
-    changeLanguage(locale)
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem(STORAGE_KEY, locale)
+    if (i18n.language !== locale) {
+      void i18n.changeLanguage(locale)
     }
-  }, [locale])
+    document.documentElement.lang = locale
+    document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE_SECONDS}; samesite=lax`
+  }, [i18n, locale])
 
   const setLocale = useCallback((nextLocale: Locale) => {
     setLocaleState(nextLocale)
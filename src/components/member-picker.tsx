@@ -0,0 +1,144 @@
+"use client"
+
+import { KeyboardEvent, useEffect, useId, useState } from "react"
+import { useTranslation } from "react-i18next"
+
+import { useApiData } from "@/hooks/useApiData"
+import { MEMBERS_PATH, memberLabel, type OrgMember } from "@/lib/members"
+
+const SEARCH_DEBOUNCE_MS = 200
+const MAX_SUGGESTIONS = 8
+
+type Props = {
+  id: string
+  /** Email of the picked member, or "" for none. */
+  value: string
+  onChange: (email: string) => void
+  className?: string
+  placeholder?: string
+  disabled?: boolean
+  "aria-invalid"?: boolean
+  "aria-describedby"?: string
+}
+
+/**
+ * Autocomplete over the org directory. Only active members can be picked;
+ * text that was typed but not picked is dropped when the field loses focus.
+ */
+export function MemberPicker({ id, value, onChange, className, placeholder, disabled, ...aria }: Props) {
+  const { t } = useTranslation()
+  const listId = useId()
+  const [text, setText] = useState(value)
+  const [query, setQuery] = useState("")
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  useEffect(() => {
+    setText(value)
+  }, [value])
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setQuery(text.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeoutId)
+  }, [text])
+
+  // The previous query's members must not stay on screen, or Enter would pick from them.
+  const { data: members, isLoading } = useApiData<OrgMember[]>(
+    isOpen ? MEMBERS_PATH : null,
+    { q: query, active: true, limit: MAX_SUGGESTIONS },
+    { keepPreviousData: false },
+  )
+  // Until the debounce catches up, the list belongs to text the user has since changed.
+  const isPending = query !== text.trim() || isLoading
+  const options = isPending ? [] : (members ?? [])
+
+  const pick = (member: OrgMember | null) => {
+    const email = member?.email ?? ""
+    setText(email)
+    setIsOpen(false)
+    if (email !== value) onChange(email)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault()
+      setIsOpen(true)
+      if (options.length > 0) {
+        const step = event.key === "ArrowDown" ? 1 : -1
+        setHighlighted((index) => (index + step + options.length) % options.length)
+      }
+    } else if (event.key === "Enter" && isOpen && (isPending || options[highlighted])) {
+      // Ignored until the list matches the typed text, without submitting the form meanwhile.
+      event.preventDefault()
+      if (!isPending) pick(options[highlighted])
+    } else if (event.key === "Escape" && isOpen) {
+      event.preventDefault()
+      setIsOpen(false)
+      setText(value)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        aria-activedescendant={isOpen && options[highlighted] ? `${listId}-${highlighted}` : undefined}
+        {...aria}
+        value={text}
+        disabled={disabled}
+        placeholder={placeholder ?? t("members.search", { defaultValue: "Search people in your organization" })}
+        onChange={(event) => {
+          setText(event.target.value)
+          setHighlighted(0)
+          setIsOpen(true)
+          if (!event.target.value.trim()) pick(null)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => {
+          setIsOpen(false)
+          setText(value)
+        }}
+        onKeyDown={handleKeyDown}
+        className={className}
+      />
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-30 mt-1 max-h-60 w-full overflow-y-auto rounded-lg border border-slate-200 bg-white py-1 text-sm shadow-lg"
+        >
+          {options.length === 0 ? (
+            <li className="px-3 py-2 text-slate-500">
+              {isPending ? t("app.loading") : t("members.noMatches", { defaultValue: "No active members match" })}
+            </li>
+          ) : (
+            options.map((member, index) => (
+              <li
+                key={member.id}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === highlighted}
+                // Picking on mousedown keeps the blur from closing the list first.
+                onMouseDown={(event) => {
+                  event.preventDefault()
+                  pick(member)
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`cursor-pointer px-3 py-2 ${index === highlighted ? "bg-slate-100" : ""}`}
+              >
+                <span className="block font-medium text-slate-800">{memberLabel(member)}</span>
+                {member.name && <span className="block text-xs text-slate-500">{member.email}</span>}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { Fragment, ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useRef, useTransition } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { useSWRConfig } from "swr"
+
+import { rememberActiveOrg } from "@/lib/org"
+
+type OrgContextValue = {
+  /** Org every request and cache key is scoped to; null is the user's default org. */
+  orgId: string | null
+  /** True from a switch until the server has rendered the page for the new org. */
+  isSwitching: boolean
+  switchOrg: (orgId: string) => void
+}
+
+const OrgContext = createContext<OrgContextValue | undefined>(undefined)
+
+type OrgProviderProps = {
+  children: ReactNode
+  /** Read by the root layout from the org cookie, so it changes once the switch has been rendered. */
+  initialOrgId?: string | null
+}
+
+export function OrgProvider({ children, initialOrgId = null }: OrgProviderProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { mutate } = useSWRConfig()
+  const [isSwitching, startTransition] = useTransition()
+  const orgId = initialOrgId
+  const previousOrgId = useRef(orgId)
+
+  // Keys carry the org, so the previous org's entries can never be read again; drop them.
+  useEffect(() => {
+    if (previousOrgId.current === orgId) return
+    previousOrgId.current = orgId
+    void mutate((key) => Array.isArray(key) && key[2] !== orgId, undefined, { revalidate: false })
+  }, [mutate, orgId])
+
+  const switchOrg = useCallback(
+    (nextOrgId: string) => {
+      rememberActiveOrg(nextOrgId)
+      // A record page belongs to the old org; land on the list it came from.
+      const section = `/${pathname.split("/")[1] ?? ""}`
+      startTransition(() => {
+        if (section !== pathname) {
+          router.replace(section)
+        }
+        router.refresh()
+      })
+    },
+    [pathname, router],
+  )
+
+  const value = useMemo(() => ({ orgId, isSwitching, switchOrg }), [isSwitching, orgId, switchOrg])
+
+  // Remounting drops page state that was seeded from the previous org's server props.
+  return (
+    <OrgContext.Provider value={value}>
+      <Fragment key={orgId ?? ""}>{children}</Fragment>
+    </OrgContext.Provider>
+  )
+}
+
+export function useOrg() {
+  const context = useContext(OrgContext)
+  if (!context) {
+    throw new Error("useOrg must be used within OrgProvider")
+  }
+  return context
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useSWRConfig } from "swr"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import { useOrg } from "@/components/org-provider"
+import { ApiError, apiFetch } from "@/lib/api/client"
+import { IDEMPOTENCY_KEY_HEADER, createRequestId } from "@/lib/api/request"
+import { orgHeaders } from "@/lib/org"
+import {
+  enqueueMutation,
+  isBrowserOffline,
+  isNetworkFailure,
+  listMutations,
+  removeMutation,
+  type OutboxConflict,
+  type OutboxEntry,
+  type OutboxMutation,
+  wasNeverSent,
+} from "@/lib/outbox"
+
+export type SendResult<T> = { queued: false; data: T } | { queued: true; entry: OutboxEntry }
+
+type OutboxContextValue = {
+  isOnline: boolean
+  isSyncing: boolean
+  /** Queued mutations, oldest first. */
+  pending: OutboxEntry[]
+  /** Queued mutations the backend rejected on replay, kept until dismissed. */
+  conflicts: OutboxConflict[]
+  /** Sends the mutation now, or queues it when offline, when the connection fails or behind other queued mutations. */
+  send: <T>(mutation: OutboxMutation) => Promise<SendResult<T>>
+  dismissConflicts: () => void
+}
+
+const OutboxContext = createContext<OutboxContextValue | undefined>(undefined)
+
+// No answer, or an answer that says "try again later": keep the entry and stop.
+// Replaying after a timeout is safe because the idempotency key stays the same.
+const shouldRetryLater = (error: unknown) =>
+  isNetworkFailure(error) || (error instanceof ApiError && (error.status === 401 || error.status === 429 || error.status >= 500))
+
+const mutationHeaders = (orgId: string | null | undefined, idempotencyKey: string) => ({
+  ...orgHeaders(orgId),
+  [IDEMPOTENCY_KEY_HEADER]: idempotencyKey,
+})
+
+export function OutboxProvider({ children }: { children: ReactNode }) {
+  const { t } = useTranslation()
+  const router = useRouter()
+  const { mutate } = useSWRConfig()
+  const { orgId } = useOrg()
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [pending, setPending] = useState<OutboxEntry[]>([])
+  const [conflicts, setConflicts] = useState<OutboxConflict[]>([])
+  const pendingRef = useRef(pending)
+  const flushing = useRef(false)
+
+  useEffect(() => {
+    pendingRef.current = pending
+  })
+
+  const flush = useCallback(async () => {
+    if (flushing.current || isBrowserOffline()) return
+    flushing.current = true
+    setIsSyncing(true)
+    let synced = 0
+    const rejected: OutboxConflict[] = []
+    try {
+      // Re-read after each pass: changes made while replaying were queued behind it.
+      let stopped = false
+      while (!stopped) {
+        const entries = await listMutations()
+        if (entries.length === 0) break
+        for (const entry of entries) {
+          try {
+            await apiFetch(entry.path, {
+              method: entry.method,
+              body: entry.body,
+              headers: mutationHeaders(entry.orgId, entry.idempotencyKey ?? `outbox-${entry.id}-${entry.queuedAt}`),
+            })
+            synced += 1
+          } catch (error) {
+            if (shouldRetryLater(error)) {
+              stopped = true
+              break
+            }
+            // Anything else is final: replaying it again would fail the same way.
+            rejected.push({
+              entry,
+              status: error instanceof ApiError ? error.status : 0,
+              message: error instanceof Error ? error.message : String(error),
+            })
+          }
+          await removeMutation(entry.id)
+          setPending((previous) => previous.filter((item) => item.id !== entry.id))
+        }
+      }
+    } catch (error) {
+      console.warn("[outbox] Unable to replay queued changes", error)
+    } finally {
+      flushing.current = false
+      setIsSyncing(false)
+    }
+
+    if (synced === 0 && rejected.length === 0) return
+    if (synced > 0) {
+      toast.success(t("outbox.synced", { count: synced, defaultValue: "Synced {{count}} offline changes" }))
+    }
+    if (rejected.length > 0) {
+      setConflicts((previous) => [...previous, ...rejected])
+      toast.error(
+        t("outbox.rejected", { count: rejected.length, defaultValue: "{{count}} offline changes could not be applied" }),
+      )
+    }
+    await mutate((key) => Array.isArray(key) && typeof key[0] === "string" && key[0].startsWith("/requirements"))
+    router.refresh()
+  }, [mutate, router, t])
+
+  useEffect(() => {
+    setIsOnline(!isBrowserOffline())
+    listMutations()
+      .then((entries) => {
+        setPending(entries)
+        if (entries.length > 0) void flush()
+      })
+      .catch((error) => console.warn("[outbox] Unable to read queued changes", error))
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      void flush()
+    }
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [flush])
+
+  const send = useCallback(
+    async <T,>(mutation: OutboxMutation): Promise<SendResult<T>> => {
+      const idempotencyKey = createRequestId()
+      const queue = async () => {
+        const entry = await enqueueMutation(mutation, orgId, idempotencyKey)
+        setPending((previous) => [...previous, entry])
+        return { queued: true as const, entry }
+      }
+      // Anything already queued must reach the backend first.
+      if (isBrowserOffline() || pendingRef.current.length > 0) {
+        const result = await queue()
+        void flush()
+        return result
+      }
+      try {
+        const data = await apiFetch<T>(mutation.path, {
+          method: mutation.method,
+          body: mutation.body,
+          headers: mutationHeaders(orgId, idempotencyKey),
+        })
+        return { queued: false, data }
+      } catch (error) {
+        // After a timeout the change may already be applied; let the caller roll back instead.
+        if (wasNeverSent(error)) return queue()
+        throw error
+      }
+    },
+    [flush, orgId],
+  )
+
+  const dismissConflicts = useCallback(() => setConflicts([]), [])
+
+  const value = useMemo(
+    () => ({ isOnline, isSyncing, pending, conflicts, send, dismissConflicts }),
+    [conflicts, dismissConflicts, isOnline, isSyncing, pending, send],
+  )
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>
+}
+
+export function useOutbox() {
+  const context = useContext(OutboxContext)
+  if (!context) {
+    throw new Error("useOutbox must be used within OutboxProvider")
+  }
+  return context
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useTranslation } from "react-i18next"
+
+import { useOutbox } from "@/components/outbox-provider"
+import type { OutboxConflict } from "@/lib/outbox"
+
+const conflictReason = (conflict: OutboxConflict, t: (key: string, options?: Record<string, unknown>) => string) => {
+  if (conflict.status === 404) {
+    return t("outbox.reasons.notFound", { defaultValue: "It no longer exists." })
+  }
+  if (conflict.status === 403) {
+    return t("outbox.reasons.forbidden", { defaultValue: "You no longer have access to it." })
+  }
+  return conflict.message
+}
+
+/** Offline notice, queued-change count and the changes the backend rejected on replay. */
+export function OutboxStatus() {
+  const { t } = useTranslation()
+  const { isOnline, isSyncing, pending, conflicts, dismissConflicts } = useOutbox()
+
+  if (isOnline && pending.length === 0 && conflicts.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mb-6 space-y-3" data-testid="outbox-status">
+      {(!isOnline || pending.length > 0) && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800" role="status">
+          <p className="font-medium">
+            {!isOnline
+              ? t("outbox.offline", { defaultValue: "You're offline. Showing the last synced data." })
+              : isSyncing
+                ? t("outbox.syncing", { defaultValue: "Syncing offline changes…" })
+                : t("outbox.waiting", { defaultValue: "Waiting to sync offline changes." })}
+          </p>
+          {pending.length > 0 && (
+            <p className="mt-1 text-xs">
+              {t("outbox.pendingCount", {
+                count: pending.length,
+                defaultValue: "{{count}} changes will sync when the connection returns.",
+              })}
+            </p>
+          )}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800" role="alert">
+          <div className="flex items-start justify-between gap-3">
+            <p className="font-medium">
+              {t("outbox.conflictsTitle", {
+                count: conflicts.length,
+                defaultValue: "{{count}} offline changes could not be applied",
+              })}
+            </p>
+            <button type="button" onClick={dismissConflicts} className="text-xs font-semibold hover:underline">
+              {t("outbox.dismiss", { defaultValue: "Dismiss" })}
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs">
+            {conflicts.map((conflict) => (
+              <li key={conflict.entry.id}>
+                <span className="font-semibold">
+                  {t(`outbox.kinds.${conflict.entry.kind}`, { defaultValue: conflict.entry.kind })}: {conflict.entry.label}
+                </span>{" "}
+                — {conflictReason(conflict, t)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,271 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useTranslation } from "react-i18next"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { TextItem } from "pdfjs-dist/types/src/display/api"
+
+import { findHeading, findPassage, type TextRange } from "@/lib/source-ref"
+
+type PdfModule = typeof import("pdfjs-dist")
+
+let pdfjsPromise: Promise<PdfModule> | null = null
+
+// pdf.js touches browser globals on import, so it is only loaded once a viewer mounts.
+const loadPdfjs = () => {
+  pdfjsPromise ??= import("pdfjs-dist").then((pdfjs) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+    return pdfjs
+  })
+  return pdfjsPromise
+}
+
+type Match = {
+  page: number
+  kind: "passage" | "section" | "page"
+  ranges: TextRange[]
+}
+
+type Highlight = { left: number; top: number; width: number; height: number }
+
+const textItems = async (document: PDFDocumentProxy, pageNumber: number) => {
+  const page = await document.getPage(pageNumber)
+  const content = await page.getTextContent()
+  return content.items.filter((item): item is TextItem => "str" in item)
+}
+
+/** The referenced page is searched first; the rest of the document is the fallback. */
+async function locate(document: PDFDocumentProxy, page: number | null, section: string | null, passage: string | null) {
+  const start = page && page <= document.numPages ? page : 1
+  const order = [start, ...Array.from({ length: document.numPages }, (_, index) => index + 1).filter((n) => n !== start)]
+
+  if (passage) {
+    for (const pageNumber of order) {
+      const ranges = findPassage((await textItems(document, pageNumber)).map((item) => item.str), passage)
+      if (ranges) return { page: pageNumber, kind: "passage", ranges } satisfies Match
+    }
+  }
+  if (section) {
+    for (const pageNumber of order) {
+      const items = await textItems(document, pageNumber)
+      const heading = findHeading(
+        items.map((item) => item.str),
+        section,
+      )
+      if (heading !== null) {
+        return {
+          page: pageNumber,
+          kind: "section",
+          ranges: [{ item: heading, start: 0, end: items[heading].str.length }],
+        } satisfies Match
+      }
+    }
+  }
+  return { page: start, kind: "page", ranges: [] } satisfies Match
+}
+
+type PdfSourceViewerProps = {
+  url: string
+  page: number | null
+  section: string | null
+  passage: string | null
+}
+
+export function PdfSourceViewer({ url, page, section, passage }: PdfSourceViewerProps) {
+  const { t } = useTranslation()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading")
+  const [match, setMatch] = useState<Match | null>(null)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [highlights, setHighlights] = useState<Highlight[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    let destroy: (() => Promise<void>) | null = null
+    setStatus("loading")
+    setPdf(null)
+
+    loadPdfjs()
+      .then(async (pdfjs) => {
+        // The file is served by the API on another origin, behind the session cookie.
+        const task = pdfjs.getDocument({ url, withCredentials: true })
+        destroy = () => task.destroy()
+        const document = await task.promise
+        const located = await locate(document, page, section, passage)
+        if (cancelled) return
+        setPdf(document)
+        setMatch(located)
+        setPageNumber(located.page)
+        setStatus("ready")
+      })
+      .catch((error) => {
+        if (cancelled) return
+        console.warn("[source-viewer] Unable to open document", error)
+        setStatus("error")
+      })
+
+    return () => {
+      cancelled = true
+      void destroy?.()
+    }
+  }, [url, page, section, passage])
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return
+    const canvas = canvasRef.current
+    const container = containerRef.current
+    let cancelled = false
+    let cancelRender: (() => void) | null = null
+
+    const render = async () => {
+      const pdfjs = await loadPdfjs()
+      const pdfPage = await pdf.getPage(pageNumber)
+      if (cancelled) return
+      const scale = container.clientWidth / pdfPage.getViewport({ scale: 1 }).width
+      const viewport = pdfPage.getViewport({ scale })
+      const outputScale = window.devicePixelRatio || 1
+      canvas.width = Math.floor(viewport.width * outputScale)
+      canvas.height = Math.floor(viewport.height * outputScale)
+      canvas.style.width = `${Math.floor(viewport.width)}px`
+      canvas.style.height = `${Math.floor(viewport.height)}px`
+
+      const task = pdfPage.render({
+        canvas,
+        viewport,
+        transform: outputScale === 1 ? undefined : [outputScale, 0, 0, outputScale, 0, 0],
+      })
+      cancelRender = () => task.cancel()
+      await task.promise
+
+      const ranges = match && match.page === pageNumber ? match.ranges : []
+      const items = ranges.length > 0 ? await textItems(pdf, pageNumber) : []
+      if (cancelled) return
+      const next = ranges.flatMap((range) => {
+        const item = items[range.item]
+        if (!item) return []
+        const [, , c, d, e, f] = pdfjs.Util.transform(viewport.transform, item.transform)
+        const height = Math.hypot(c, d)
+        const width = item.width * viewport.scale
+        const length = Math.max(item.str.length, range.end)
+        return [
+          {
+            left: e + (width * range.start) / length,
+            top: f - height,
+            width: (width * (range.end - range.start)) / length,
+            height,
+          },
+        ]
+      })
+      setHighlights(next)
+      if (next.length > 0) {
+        container.scrollTop = Math.max(0, next[0].top - container.clientHeight / 3)
+      }
+    }
+
+    render().catch((error) => {
+      if (cancelled || (error instanceof Error && error.name === "RenderingCancelledException")) return
+      console.warn("[source-viewer] Unable to render page", error)
+      setStatus("error")
+    })
+
+    return () => {
+      cancelled = true
+      cancelRender?.()
+    }
+  }, [match, pageNumber, pdf])
+
+  const pageCount = pdf?.numPages ?? 0
+  const notice =
+    status !== "ready" || !match
+      ? null
+      : match.kind === "passage"
+        ? t("requirements.detail.source.foundPassage", {
+            defaultValue: "Extracted passage highlighted on page {{page}}.",
+            page: match.page,
+          })
+        : match.kind === "section"
+          ? t("requirements.detail.source.foundSection", {
+              defaultValue: "Showing section “{{section}}” on page {{page}}.",
+              section,
+              page: match.page,
+            })
+          : passage || section
+            ? t("requirements.detail.source.notFound", {
+                defaultValue: "The extracted passage could not be located; showing page {{page}}.",
+                page: match.page,
+              })
+            : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <p className={match?.kind === "page" ? "text-amber-700" : "text-slate-600"}>
+          {status === "loading"
+            ? t("requirements.detail.source.loading", { defaultValue: "Loading document…" })
+            : status === "error"
+              ? t("requirements.detail.source.error", { defaultValue: "The document could not be displayed here." })
+              : notice}
+        </p>
+        <div className="flex items-center gap-2">
+          {status === "ready" && (
+            <>
+              <button
+                type="button"
+                onClick={() => setPageNumber((current) => Math.max(1, current - 1))}
+                disabled={pageNumber <= 1}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-slate-600 transition hover:border-slate-300 disabled:cursor-not-allowed disabled:opacity-50"
+                aria-label={t("requirements.detail.source.previousPage", { defaultValue: "Previous page" })}
+              >
+                ←
+              </button>
+              <span className="text-xs text-slate-500">
+                {t("requirements.detail.source.pageOf", {
+                  defaultValue: "Page {{page}} of {{total}}",
+                  page: pageNumber,
+                  total: pageCount,
+                })}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPageNumber((current) => Math.min(pageCount, current + 1))}
+                disabled={pageNumber >= pageCount}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-slate-600 transition hover:border-slate-300 disabled:cursor-not-allowed disabled:opacity-50"
+                aria-label={t("requirements.detail.source.nextPage", { defaultValue: "Next page" })}
+              >
+                →
+              </button>
+            </>
+          )}
+          <a
+            href={`${url}#page=${pageNumber}`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            {t("requirements.detail.source.openInTab", { defaultValue: "Open in new tab" })}
+          </a>
+        </div>
+      </div>
+      <div
+        ref={containerRef}
+        className="relative max-h-[70vh] overflow-auto rounded-xl border border-slate-200 bg-slate-100"
+        data-testid="pdf-source-viewer"
+      >
+        <div className="relative">
+          <canvas ref={canvasRef} className={status === "ready" ? "block" : "hidden"} />
+          {highlights.map((highlight, index) => (
+            <span
+              key={index}
+              className="pointer-events-none absolute rounded-sm bg-yellow-300/50 ring-1 ring-yellow-500/60"
+              style={highlight}
+              data-source-highlight
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
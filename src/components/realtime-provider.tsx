@@ -0,0 +1,85 @@
+"use client"
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
+import { useSWRConfig } from "swr"
+
+import { useOrg } from "@/components/org-provider"
+import { REALTIME_ENABLED } from "@/lib/env"
+import { affectedBy, isLivePath, openRealtimeChannel, type RealtimeEvent } from "@/lib/realtime"
+
+type RealtimeListener = (event: RealtimeEvent) => void
+
+type RealtimeContextValue = {
+  /** True while the event stream is open; interval polling of live paths pauses meanwhile. */
+  isConnected: boolean
+  /** Calls `listener` for every pushed event; returns the unsubscribe function. */
+  subscribe: (listener: RealtimeListener) => () => void
+}
+
+const RealtimeContext = createContext<RealtimeContextValue | undefined>(undefined)
+
+// A burst of events (a bulk triage, a large extraction) becomes one revalidation per key.
+const BATCH_MS = 250
+
+const isLiveKey = (key: unknown) => Array.isArray(key) && typeof key[0] === "string" && isLivePath(key[0])
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { mutate } = useSWRConfig()
+  const { orgId } = useOrg()
+  const [isConnected, setIsConnected] = useState(false)
+  const listeners = useRef(new Set<RealtimeListener>())
+
+  useEffect(() => {
+    if (!REALTIME_ENABLED) return
+    let batch: RealtimeEvent[] = []
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+    let dropped = false
+
+    const flush = () => {
+      const events = batch
+      batch = []
+      flushTimer = null
+      void mutate(affectedBy(events))
+    }
+
+    const close = openRealtimeChannel({
+      orgId,
+      onEvent: (event) => {
+        listeners.current.forEach((listener) => listener(event))
+        batch.push(event)
+        flushTimer ??= setTimeout(flush, BATCH_MS)
+      },
+      onStatusChange: (connected) => {
+        setIsConnected(connected)
+        // Events sent while the stream was down are lost; refetch what they could have changed.
+        if (connected && dropped) void mutate(isLiveKey)
+        dropped = !connected
+      },
+    })
+
+    return () => {
+      close()
+      if (flushTimer) clearTimeout(flushTimer)
+      setIsConnected(false)
+    }
+  }, [mutate, orgId])
+
+  const subscribe = useCallback((listener: RealtimeListener) => {
+    listeners.current.add(listener)
+    return () => {
+      listeners.current.delete(listener)
+    }
+  }, [])
+
+  const value = useMemo(() => ({ isConnected, subscribe }), [isConnected, subscribe])
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext)
+  if (!context) {
+    throw new Error("useRealtime must be used within RealtimeProvider")
+  }
+  return context
+}
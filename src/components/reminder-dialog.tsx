@@ -0,0 +1,315 @@
+"use client"
+
+import { FormEvent, useEffect, useState } from "react"
+import clsx from "clsx"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import { useLocale } from "@/components/locale-provider"
+import { useOrg } from "@/components/org-provider"
+import { ApiError, apiFetch } from "@/lib/api/client"
+import { formatDate } from "@/lib/dates"
+import { orgHeaders } from "@/lib/org"
+import {
+  REMINDER_CHANNELS,
+  REMINDER_LEAD_DAYS,
+  isValidRecipient,
+  parseRecipients,
+  reminderSendAt,
+  type Reminder,
+  type ReminderChannel,
+  type ReminderSubject,
+  type ScheduleRemindersPayload,
+} from "@/lib/reminders"
+import { setMockToastMessage } from "@/lib/testing"
+import { useApiData } from "@/hooks/useApiData"
+
+type ReminderDialogProps = {
+  subject: ReminderSubject | null
+  /** Pre-filled recipient, usually the signed-in user's email. */
+  defaultRecipient?: string | null
+  onClose: () => void
+}
+
+export function ReminderDialog({ subject, defaultRecipient, onClose }: ReminderDialogProps) {
+  const { t } = useTranslation()
+  const { orgId } = useOrg()
+  const { locale } = useLocale()
+  const [leadDays, setLeadDays] = useState<number[]>([...REMINDER_LEAD_DAYS])
+  const [customLead, setCustomLead] = useState("")
+  const [channel, setChannel] = useState<ReminderChannel>("email")
+  const [recipients, setRecipients] = useState(defaultRecipient ?? "")
+  const [submitting, setSubmitting] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  const { data: reminders, mutate, isLoading } = useApiData<Reminder[]>(
+    subject ? "/reminders" : null,
+    subject ? { subject_type: subject.type, subject_id: subject.id } : undefined,
+  )
+
+  useEffect(() => {
+    if (!subject) return
+    setLeadDays([...REMINDER_LEAD_DAYS])
+    setCustomLead("")
+    setChannel("email")
+    setRecipients(defaultRecipient ?? "")
+  }, [defaultRecipient, subject])
+
+  useEffect(() => {
+    if (!subject) return
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose()
+    }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onClose, subject])
+
+  if (!subject) return null
+
+  const toggleLead = (value: number) => {
+    setLeadDays((prev) => (prev.includes(value) ? prev.filter((item) => item !== value) : [...prev, value]))
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const custom = customLead.trim() ? Number(customLead) : null
+    if (custom !== null && (!Number.isInteger(custom) || custom < 0)) {
+      toast.error(t("reminders.invalidLead", { defaultValue: "Lead time must be a whole number of days." }))
+      return
+    }
+    const selectedLeads = Array.from(new Set(custom !== null ? [...leadDays, custom] : leadDays))
+    if (selectedLeads.length === 0) {
+      toast.error(t("reminders.leadRequired", { defaultValue: "Choose at least one lead time." }))
+      return
+    }
+    const recipientList = parseRecipients(recipients)
+    if (recipientList.length === 0 || recipientList.some((value) => !isValidRecipient(value, channel))) {
+      toast.error(
+        channel === "email"
+          ? t("reminders.invalidEmail", { defaultValue: "Enter one or more valid email addresses." })
+          : t("reminders.invalidPhone", { defaultValue: "Enter one or more valid phone numbers." }),
+      )
+      return
+    }
+
+    const payload: ScheduleRemindersPayload = {
+      subject_type: subject.type,
+      subject_id: subject.id,
+      lead_days: selectedLeads.sort((a, b) => b - a),
+      channel,
+      recipients: recipientList,
+    }
+
+    setSubmitting(true)
+    try {
+      const created = await apiFetch<Reminder[]>("/reminders", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        headers: orgHeaders(orgId),
+      })
+      await mutate()
+      const message = t("reminders.scheduled", { count: created.length })
+      toast.success(message, { description: subject.title })
+      setMockToastMessage(message)
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : t("reminders.scheduleError", { defaultValue: "Unable to schedule reminders" })
+      toast.error(message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCancel = async (reminder: Reminder) => {
+    setCancellingId(reminder.id)
+    try {
+      await apiFetch<void>(`/reminders/${reminder.id}`, { method: "DELETE", headers: orgHeaders(orgId) })
+      await mutate()
+      toast.success(t("reminders.cancelled", { defaultValue: "Reminder cancelled" }))
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : t("reminders.cancelError", { defaultValue: "Unable to cancel reminder" })
+      toast.error(message)
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const previewFor = (lead: number) => {
+    if (!subject.dueDate) return null
+    const sendAt = reminderSendAt(subject.dueDate, lead)
+    return sendAt ? formatDate(sendAt.toISOString(), locale) : null
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4"
+      onClick={(event) => {
+        if (event.target === event.currentTarget) onClose()
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reminder-dialog-title"
+        className="w-full max-w-lg space-y-5 rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-xl"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 id="reminder-dialog-title" className="text-base font-semibold text-[color:var(--foreground)]">
+              {t("reminders.title", { defaultValue: "Reminders" })}
+            </h3>
+            <p className="text-sm text-slate-500">{subject.title}</p>
+            <p className="text-xs text-slate-500">
+              {t("reminders.dueOn", { date: formatDate(subject.dueDate, locale), defaultValue: "Due {{date}}" })}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded px-2 py-1 text-sm text-slate-500 transition hover:bg-slate-100"
+            aria-label={t("reminders.close", { defaultValue: "Close" })}
+          >
+            ×
+          </button>
+        </div>
+
+        <section className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-600">
+            {t("reminders.scheduledTitle", { defaultValue: "Scheduled" })}
+          </h4>
+          {isLoading ? (
+            <p className="text-xs text-slate-500">{t("reminders.loading", { defaultValue: "Loading reminders…" })}</p>
+          ) : !reminders || reminders.length === 0 ? (
+            <p className="text-xs text-slate-500">{t("reminders.none", { defaultValue: "No reminders scheduled yet." })}</p>
+          ) : (
+            <ul className="divide-y divide-[color:var(--border)] rounded-md border border-[color:var(--border)]">
+              {reminders.map((reminder) => (
+                <li key={reminder.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-[color:var(--foreground)]">
+                      {t("reminders.leadLabel", { count: reminder.lead_days })}
+                      {" · "}
+                      {formatDate(reminder.send_at, locale)}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {t(`reminders.channels.${reminder.channel}`)} · {reminder.recipients.join(", ")}
+                    </p>
+                  </div>
+                  {reminder.status === "scheduled" ? (
+                    <button
+                      type="button"
+                      onClick={() => handleCancel(reminder)}
+                      disabled={cancellingId === reminder.id}
+                      className="rounded border border-red-200 px-2 py-1 text-xs font-medium text-red-600 transition hover:bg-red-50 disabled:opacity-60"
+                    >
+                      {t("reminders.cancel", { defaultValue: "Cancel" })}
+                    </button>
+                  ) : (
+                    <span className="text-xs text-slate-500">{t(`reminders.statuses.${reminder.status}`)}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-semibold uppercase tracking-wide text-slate-600">
+              {t("reminders.leadTimes", { defaultValue: "Lead times" })}
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {REMINDER_LEAD_DAYS.map((value) => {
+                const preview = previewFor(value)
+                return (
+                  <label
+                    key={value}
+                    className={clsx(
+                      "inline-flex cursor-pointer items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium transition",
+                      leadDays.includes(value)
+                        ? "border-blue-600 bg-blue-50 text-blue-700"
+                        : "border-[color:var(--border)] text-slate-600 hover:bg-slate-100",
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      className="sr-only"
+                      checked={leadDays.includes(value)}
+                      onChange={() => toggleLead(value)}
+                    />
+                    {t("reminders.leadLabel", { count: value })}
+                    {preview && <span className="text-[10px] opacity-70">({preview})</span>}
+                  </label>
+                )
+              })}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              {t("reminders.customLead", { defaultValue: "Other (days before)" })}
+              <input
+                type="number"
+                min={0}
+                value={customLead}
+                onChange={(event) => setCustomLead(event.target.value)}
+                className="w-20 rounded border border-[color:var(--border)] bg-transparent px-2 py-1 text-sm"
+              />
+            </label>
+          </fieldset>
+
+          <label className="block space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <span>{t("reminders.channel", { defaultValue: "Channel" })}</span>
+            <select
+              value={channel}
+              onChange={(event) => setChannel(event.target.value as ReminderChannel)}
+              className="block w-full rounded border border-[color:var(--border)] bg-transparent px-2 py-1.5 text-sm font-normal normal-case tracking-normal text-[color:var(--foreground)]"
+            >
+              {REMINDER_CHANNELS.map((option) => (
+                <option key={option} value={option}>
+                  {t(`reminders.channels.${option}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-600">
+            <span>{t("reminders.recipients", { defaultValue: "Recipients" })}</span>
+            <input
+              type="text"
+              value={recipients}
+              onChange={(event) => setRecipients(event.target.value)}
+              placeholder={
+                channel === "email"
+                  ? t("reminders.emailPlaceholder", { defaultValue: "name@company.com, foreman@company.com" })
+                  : t("reminders.phonePlaceholder", { defaultValue: "+1 512 555 0100" })
+              }
+              className="block w-full rounded border border-[color:var(--border)] bg-transparent px-2 py-1.5 text-sm font-normal normal-case tracking-normal text-[color:var(--foreground)]"
+            />
+          </label>
+
+          {!subject.dueDate && (
+            <p className="text-xs text-amber-700">
+              {t("reminders.noDueDate", { defaultValue: "Set a due date before scheduling reminders." })}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded border border-[color:var(--border)] px-3 py-1.5 text-sm font-medium text-slate-600 transition hover:bg-slate-100"
+            >
+              {t("reminders.close", { defaultValue: "Close" })}
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !subject.dueDate}
+              className="rounded bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-blue-700 disabled:opacity-60"
+            >
+              {submitting
+                ? t("reminders.scheduling", { defaultValue: "Scheduling…" })
+                : t("reminders.schedule", { defaultValue: "Schedule reminders" })}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import { SESSION_EXPIRED_EVENT, isAuthPath, loginPath } from "@/lib/session"
+
+type SessionContextValue = {
+  /** Marks the page as holding unsaved edits; returns the function that clears the mark. */
+  holdUnsavedChanges: () => () => void
+}
+
+const SessionContext = createContext<SessionContextValue | undefined>(undefined)
+
+const currentLocation = () => `${window.location.pathname}${window.location.search}${window.location.hash}`
+
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const { t } = useTranslation()
+  const router = useRouter()
+  const pathname = usePathname()
+  const holds = useRef(new Set<symbol>())
+  // Every request fired after expiry fails with 401 too; react to the first one only.
+  const handling = useRef(false)
+  const [returnTo, setReturnTo] = useState<string | null>(null)
+
+  const signIn = useCallback(
+    (destination: string) => {
+      setReturnTo(null)
+      toast.info(t("session.expired", { defaultValue: "Your session expired. Sign in to continue." }))
+      router.replace(loginPath(destination))
+    },
+    [router, t],
+  )
+
+  useEffect(() => {
+    handling.current = false
+  }, [pathname])
+
+  useEffect(() => {
+    const handleExpired = () => {
+      // Signing in is expected to start without a session.
+      if (handling.current || isAuthPath(window.location.pathname)) return
+      handling.current = true
+      const destination = currentLocation()
+      if (holds.current.size > 0) {
+        setReturnTo(destination)
+        return
+      }
+      signIn(destination)
+    }
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired)
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired)
+  }, [signIn])
+
+  // Magic links usually open in a new tab, so signing in there keeps this
+  // page and its edits; saving again afterwards uses the new session.
+  const signInElsewhere = () => {
+    if (returnTo) {
+      window.open(loginPath(returnTo), "_blank", "noopener")
+    }
+    setReturnTo(null)
+    handling.current = false
+  }
+
+  const holdUnsavedChanges = useCallback(() => {
+    const hold = Symbol("unsaved-changes")
+    holds.current.add(hold)
+    return () => {
+      holds.current.delete(hold)
+    }
+  }, [])
+
+  const value = useMemo(() => ({ holdUnsavedChanges }), [holdUnsavedChanges])
+
+  return (
+    <SessionContext.Provider value={value}>
+      {children}
+      {returnTo && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4">
+          <div
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="session-expired-title"
+            aria-describedby="session-expired-description"
+            className="w-full max-w-md space-y-4 rounded-2xl border border-[color:var(--border)] bg-[color:var(--surface)] p-6 shadow-xl"
+            data-testid="session-expired-dialog"
+          >
+            <h3 id="session-expired-title" className="text-base font-semibold text-[color:var(--foreground)]">
+              {t("session.expiredTitle", { defaultValue: "Your session expired" })}
+            </h3>
+            <p id="session-expired-description" className="text-sm text-slate-600">
+              {t("session.unsavedWarning", {
+                defaultValue:
+                  "This page has unsaved changes. Sign in from a new tab to keep them, then save again here. Signing in on this tab discards them.",
+              })}
+            </p>
+            <div className="flex flex-wrap justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => signIn(returnTo)}
+                className="rounded border border-[color:var(--border)] px-3 py-1.5 text-sm font-medium text-slate-600 transition hover:bg-slate-100"
+              >
+                {t("session.discardAndSignIn", { defaultValue: "Discard changes and sign in" })}
+              </button>
+              <button
+                type="button"
+                onClick={signInElsewhere}
+                className="rounded bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-blue-700"
+              >
+                {t("session.signInNewTab", { defaultValue: "Sign in from a new tab" })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </SessionContext.Provider>
+  )
+}
+
+export function useSession() {
+  const context = useContext(SessionContext)
+  if (!context) {
+    throw new Error("useSession must be used within SessionProvider")
+  }
+  return context
+}
+
+/** Asks before an expired session takes the user away from `isDirty` edits. */
+export function useUnsavedChanges(isDirty: boolean) {
+  const { holdUnsavedChanges } = useSession()
+  useEffect(() => {
+    if (!isDirty) return
+    return holdUnsavedChanges()
+  }, [holdUnsavedChanges, isDirty])
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { useTranslation } from "react-i18next"
+
+import { formatFieldError, type FieldError } from "@/lib/api/errors"
+
+type FieldErrorMessageProps = {
+  id: string
+  error?: FieldError
+}
+
+/** Inline message under a control; point the control's `aria-describedby` at `id`. */
+export function FieldErrorMessage({ id, error }: FieldErrorMessageProps) {
+  const { t } = useTranslation()
+  if (!error) return null
+  return (
+    <p id={id} className="mt-1 text-xs text-rose-600">
+      {formatFieldError(error, t)}
+    </p>
+  )
+}
+
+type FieldErrorSummaryProps = {
+  errors: FieldError[]
+}
+
+/** Errors the form has no control for, e.g. `requirement_ids`. */
+export function FieldErrorSummary({ errors }: FieldErrorSummaryProps) {
+  const { t } = useTranslation()
+  if (errors.length === 0) return null
+  return (
+    <ul role="alert" className="space-y-1 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+      {errors.map((error) => (
+        <li key={`${error.field}:${error.type}`}>
+          {error.field ? `${error.field}: ` : ""}
+          {formatFieldError(error, t)}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -75,3 +75,20 @@ export const TrashIcon = forwardRef<SVGSVGElement, SVGProps<SVGSVGElement>>(func
     </svg>
   )
 })
+
+export const ChevronDownIcon = forwardRef<SVGSVGElement, SVGProps<SVGSVGElement>>(function ChevronDownIcon(props, ref) {
+  return (
+    <svg
+      ref={ref}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="1.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      {...props}
+    >
+      <path d="m6 9 6 6 6-6" />
+    </svg>
+  )
+})
@@ -1,8 +1,31 @@
+import { useRef } from "react"
 import useSWR, { SWRConfiguration } from "swr"
 
-import { ApiError, apiFetch } from "@/lib/api/client"
+import { useOrg } from "@/components/org-provider"
+import { useRealtime } from "@/components/realtime-provider"
+import { ApiError, apiFetch, isAbortError } from "@/lib/api/client"
+import { fetchAllPages, type Paginated } from "@/lib/api/pagination"
+import { orgHeaders } from "@/lib/org"
+import { isNetworkFailure, loadCachedResponse, saveCachedResponse } from "@/lib/outbox"
+import { isLivePath } from "@/lib/realtime"
 
-type KeyTuple = [string, Record<string, string | number | boolean | undefined> | undefined]
+type ApiParams = Record<string, string | number | boolean | undefined>
+
+/** SWR key of a `useApiData` entry: the path, its query and the org it was fetched in. */
+export type ApiDataKey = [string, ApiParams | undefined, string | null]
+
+export const apiDataKey = (path: string, params: ApiParams | undefined, orgId: string | null): ApiDataKey => [
+  path,
+  params,
+  orgId,
+]
+
+type ApiDataConfig = SWRConfiguration & {
+  /** Keep the last response in IndexedDB and serve it when the network is unreachable. */
+  offlineCache?: boolean
+  /** For paginated lists: load every page and cache them as one response. */
+  allPages?: boolean
+}
 
 const defaultConfig: SWRConfiguration = {
   revalidateOnFocus: false,
@@ -13,17 +36,55 @@ const defaultConfig: SWRConfiguration = {
 
 export function useApiData<T>(
   path: string | null,
-  params?: Record<string, string | number | boolean | undefined>,
-  config?: SWRConfiguration,
+  params?: ApiParams,
+  config?: ApiDataConfig,
 ) {
-  const swrKey: KeyTuple | null = path ? [path, params] : null
+  const { offlineCache = false, allPages = false, ...swrConfig } = config ?? {}
+  const { orgId } = useOrg()
+  const swrKey = path ? apiDataKey(path, params, orgId) : null
+  // Switching filters quickly on a slow connection used to stack requests;
+  // a fetch for a new key cancels the one still running for the old key.
+  const inFlight = useRef<{ key: string; controller: AbortController } | null>(null)
+  // Pushed updates stand in for interval polling while the event stream is open.
+  const { isConnected } = useRealtime()
+  const isLive = isConnected && path !== null && isLivePath(path)
 
-  return useSWR<T, ApiError>(
+  const response = useSWR<T, ApiError>(
     swrKey,
-    ([url, search]) => apiFetch<T>(url, { searchParams: search }),
+    async ([url, search, org]: ApiDataKey) => {
+      const key = JSON.stringify([url, search, org])
+      if (inFlight.current && inFlight.current.key !== key) {
+        inFlight.current.controller.abort()
+      }
+      const controller = new AbortController()
+      inFlight.current = { key, controller }
+      try {
+        const request = (searchParams: ApiParams | undefined) =>
+          apiFetch<T>(url, { searchParams, signal: controller.signal, headers: orgHeaders(org) })
+        const data = allPages
+          ? ((await fetchAllPages((page) => request({ ...search, page }) as Promise<Paginated<unknown>>)) as T)
+          : await request(search)
+        if (offlineCache) {
+          saveCachedResponse(key, data).catch((error) => console.warn("[offline] Unable to cache response", error))
+        }
+        return data
+      } catch (error) {
+        const cached = offlineCache && isNetworkFailure(error) ? await loadCachedResponse<T>(key).catch(() => undefined) : undefined
+        if (cached) return cached.data
+        throw error
+      } finally {
+        if (inFlight.current?.controller === controller) {
+          inFlight.current = null
+        }
+      }
+    },
     {
       ...defaultConfig,
-      ...config,
+      ...swrConfig,
+      ...(isLive ? { refreshInterval: 0 } : {}),
     },
   )
+
+  // A superseded request is not a failure worth showing when its key comes back.
+  return isAbortError(response.error) ? { ...response, error: undefined } : response
 }
@@ -1,5 +1,4 @@
 import { useEffect } from "react"
-import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 
 import { useLocale } from "@/components/locale-provider"
@@ -21,11 +20,13 @@ export type OrgSummary = {
 
 export type AuthMeResponse = {
   user: UserProfile
+  /** The org the request was made in. */
   org: OrgSummary
+  /** Every org the user belongs to; empty from backends without multi-org support. */
+  orgs: OrgSummary[]
 }
 
 export function useAuthedProfile(initialData?: AuthMeResponse | null) {
-  const router = useRouter()
   const { setLocale } = useLocale()
   const { t } = useTranslation()
 
@@ -33,15 +34,12 @@ export function useAuthedProfile(initialData?: AuthMeResponse | null) {
     fallbackData: initialData ?? undefined,
   })
 
+  // A 401 is handled by SessionProvider, which sends the user to sign in.
   useEffect(() => {
-    if (response.error instanceof ApiError) {
-      if (response.error.status === 401) {
-        router.replace("/login")
-      } else {
-        toast.error(t("app.error"))
-      }
+    if (response.error instanceof ApiError && response.error.status !== 401) {
+      toast.error(t("app.error"))
     }
-  }, [response.error, router, t])
+  }, [response.error, t])
 
   useEffect(() => {
     if (response.data?.user?.preferred_locale) {
@@ -0,0 +1,70 @@
+import { useCallback } from "react"
+import { useSWRConfig } from "swr"
+
+import { FACETS_PATH } from "@/app/requirements/list-query"
+import type { Requirement, RequirementsResponse } from "@/app/requirements/requirements-client"
+import { useOrg } from "@/components/org-provider"
+import { apiDataKey } from "@/hooks/useApiData"
+import { matchesListParams, mergeIntoPage, type RequirementListParams } from "@/lib/requirement-updates"
+
+const LIST_PATH = "/requirements"
+
+const isListKey = (key: unknown): key is [string, RequirementListParams, string | null] =>
+  Array.isArray(key) && key[0] === LIST_PATH
+
+/**
+ * Keeps every cached copy of a requirement in step with the latest known
+ * version: the detail entry and each list page that shows it. Facet counts
+ * are refetched, since any change can move them.
+ */
+export function useRequirementCache() {
+  const { mutate } = useSWRConfig()
+  const { orgId } = useOrg()
+
+  // Pages whose rows no longer match their filters (an archived row in the
+  // active list) are refetched; every other page just swaps the rows in.
+  const publish = useCallback(
+    async (updated: Requirement[]) => {
+      const latest = Array.from(new Map(updated.map((item) => [item.id, item])).values())
+      if (latest.length === 0) return
+      const ids = new Set(latest.map((item) => item.id))
+      const isOrgListKey = (key: unknown) => isListKey(key) && key[2] === orgId
+      await Promise.all([
+        ...latest.map((item) => mutate(apiDataKey(`${LIST_PATH}/${item.id}`, undefined, orgId), item, { revalidate: false })),
+        mutate<RequirementsResponse | undefined>(
+          isOrgListKey,
+          (current) => current && mergeIntoPage(current, latest),
+          {
+            revalidate: (page, key) =>
+              isListKey(key) && Boolean(page?.items.some((item) => ids.has(item.id) && !matchesListParams(item, key[1]))),
+          },
+        ),
+        mutate((key) => Array.isArray(key) && key[0] === FACETS_PATH && key[2] === orgId),
+      ])
+    },
+    [mutate, orgId],
+  )
+
+  /**
+   * Shows `predicted` on the list page fetched with `listParams` right away
+   * and settles it with `request`, which resolves to the server's copies.
+   * A failed request rolls the page back and rethrows; requirements missing
+   * from the result were queued offline and keep their predicted state.
+   */
+  const applyOptimistic = useCallback(
+    async (listParams: RequirementListParams, predicted: Requirement[], request: Promise<Requirement[]>) => {
+      const confirmed =
+        (await mutate<RequirementsResponse | undefined, Requirement[]>(apiDataKey(LIST_PATH, listParams, orgId), request, {
+          optimisticData: (_committed, displayed) => displayed && mergeIntoPage(displayed, predicted, listParams),
+          populateCache: (items, committed) => committed && mergeIntoPage(committed, [...predicted, ...items], listParams),
+          rollbackOnError: true,
+          revalidate: false,
+        })) ?? []
+      await publish([...predicted, ...confirmed])
+      return confirmed
+    },
+    [mutate, orgId, publish],
+  )
+
+  return { publish, applyOptimistic }
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef, useState } from "react"
+
+/**
+ * A search box bound to a URL param: typing is committed after `delayMs`,
+ * and the box only follows the URL when it changes from elsewhere (back and
+ * forward, a cleared filter). The navigation a commit causes lands while the
+ * user may still be typing, so it must not put the committed text back.
+ */
+export function useSearchInput(value: string, commit: (q: string) => void, delayMs = 300) {
+  const [input, setInput] = useState(value)
+  const committed = useRef(value)
+
+  useEffect(() => {
+    if (value === committed.current) return
+    committed.current = value
+    setInput(value)
+  }, [value])
+
+  useEffect(() => {
+    const trimmed = input.trim()
+    if (trimmed === committed.current) return
+    const timeoutId = setTimeout(() => {
+      committed.current = trimmed
+      commit(trimmed)
+    }, delayMs)
+    return () => clearTimeout(timeoutId)
+  }, [commit, delayMs, input])
+
+  return [input, setInput] as const
+}
@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { useTranslation } from "react-i18next"
+
+import type { DocumentRecord } from "@/app/documents/documents-client"
+import { useOrg } from "@/components/org-provider"
+import { useRealtime } from "@/components/realtime-provider"
+import { useApiData } from "@/hooks/useApiData"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import { ApiError, apiFetch, apiUpload, fieldErrorsOf, isAbortError } from "@/lib/api/client"
+import { orgHeaders } from "@/lib/org"
+import {
+  MAX_PARALLEL_UPLOADS,
+  createUploadItem,
+  deleteQueuedFile,
+  isPdf,
+  loadQueuedFile,
+  pruneQueuedFiles,
+  readQueue,
+  saveQueuedFile,
+  writeQueue,
+  type UploadItem,
+} from "@/lib/upload-queue"
+
+const POLL_INTERVAL_MS = 5_000
+// Safety net while the event stream is open, in case a status event is lost.
+const CONNECTED_POLL_INTERVAL_MS = 60_000
+
+const forgetFile = (id: string) => {
+  deleteQueuedFile(id).catch((error) => console.warn("[uploads] Unable to drop stored file", error))
+}
+
+type UseUploadQueueOptions = {
+  /** Called when a file has been sent and the server started processing it. */
+  onUploaded?: (item: UploadItem) => void
+  /** Called once per document that finishes processing, successfully or not. */
+  onProcessed?: (item: UploadItem) => void
+}
+
+export function useUploadQueue({ onUploaded, onProcessed }: UseUploadQueueOptions = {}) {
+  const { t } = useTranslation()
+  const { isConnected, subscribe } = useRealtime()
+  const { orgId } = useOrg()
+  const { data: profile } = useApiData<AuthMeResponse>("/auth/me")
+  // Without a chosen org the backend uses the default one; pin files to it by id.
+  const uploadOrgId = orgId ?? profile?.org.id ?? null
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [hydrated, setHydrated] = useState(false)
+  const files = useRef(new Map<string, File>())
+  const controllers = useRef(new Map<string, AbortController>())
+  const itemsRef = useRef(items)
+  const onUploadedRef = useRef(onUploaded)
+  const onProcessedRef = useRef(onProcessed)
+
+  useEffect(() => {
+    itemsRef.current = items
+    onUploadedRef.current = onUploaded
+    onProcessedRef.current = onProcessed
+  })
+
+  useEffect(() => {
+    const queued = readQueue()
+    setItems(queued)
+    setHydrated(true)
+    // Files added while the keys are read are in `files` before they are stored.
+    const isQueued = (id: string) => files.current.has(id) || queued.some((item) => item.id === id)
+    pruneQueuedFiles(isQueued).catch((error) => console.warn("[uploads] Unable to clear stored files", error))
+  }, [])
+
+  useEffect(() => {
+    if (hydrated) {
+      writeQueue(items)
+    }
+  }, [hydrated, items])
+
+  const update = useCallback((id: string, patch: Partial<UploadItem>) => {
+    setItems((previous) => previous.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }, [])
+
+  const addFiles = useCallback(
+    (incoming: File[], trade: string) => {
+      const accepted = incoming.filter(isPdf)
+      if (accepted.length < incoming.length) {
+        toast.error(t("documents.queue.onlyPdf", { defaultValue: "Only PDF files can be uploaded." }))
+      }
+      const added = accepted.map((file) => {
+        const item = createUploadItem(file, trade, uploadOrgId)
+        files.current.set(item.id, file)
+        saveQueuedFile(item.id, file).catch((error) => console.warn("[uploads] Unable to store file for reload", error))
+        return item
+      })
+      setItems((previous) => [...previous, ...added])
+    },
+    [t, uploadOrgId],
+  )
+
+  const startPending = useCallback(() => {
+    setItems((previous) => previous.map((item) => (item.status === "pending" ? { ...item, status: "queued" } : item)))
+  }, [])
+
+  const setTrade = useCallback((id: string, trade: string) => {
+    setItems((previous) =>
+      previous.map((item) =>
+        item.id === id
+          ? { ...item, trade, fieldErrors: item.fieldErrors?.filter((error) => error.field !== "trade") }
+          : item,
+      ),
+    )
+  }, [])
+
+  const retry = useCallback(
+    (id: string) => update(id, { status: "queued", progress: 0, error: null, fieldErrors: [], documentId: null }),
+    [update],
+  )
+
+  const cancel = useCallback(
+    (id: string) => {
+      controllers.current.get(id)?.abort()
+      update(id, { status: "cancelled", progress: 0 })
+    },
+    [update],
+  )
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    files.current.delete(id)
+    forgetFile(id)
+    setItems((previous) => previous.filter((item) => item.id !== id))
+  }, [])
+
+  const clearFinished = useCallback(() => {
+    setItems((previous) => previous.filter((item) => item.status !== "ready"))
+  }, [])
+
+  const upload = useCallback(
+    async (item: UploadItem) => {
+      const controller = new AbortController()
+      controllers.current.set(item.id, controller)
+      update(item.id, { status: "uploading", progress: 0, error: null, fieldErrors: [] })
+
+      try {
+        const file = files.current.get(item.id) ?? (await loadQueuedFile(item.id))
+        if (!file) {
+          throw new Error(t("documents.queue.fileMissing", { defaultValue: "The file is no longer available. Add it again." }))
+        }
+        const formData = new FormData()
+        formData.append("file", file)
+        formData.append("trade", item.trade)
+
+        const payload = await apiUpload<{ id: string; status: "PROCESSING" }>("/documents/upload", formData, {
+          signal: controller.signal,
+          orgId: item.orgId,
+          onProgress: (progress) => update(item.id, { progress }),
+        })
+        if (!payload?.id) {
+          throw new Error(t("documents.uploadFailed"))
+        }
+        update(item.id, { status: "processing", progress: 1, documentId: payload.id })
+        onUploadedRef.current?.({ ...item, status: "processing", progress: 1, documentId: payload.id })
+      } catch (error) {
+        if (isAbortError(error)) return
+        // SessionProvider sends the user to sign in; the file waits for their return
+        // instead of staying queued, which would send it again straight away.
+        if (error instanceof ApiError && error.status === 401) {
+          update(item.id, { status: "paused", progress: 0 })
+          return
+        }
+        const fieldErrors = fieldErrorsOf(error)
+        update(item.id, {
+          status: "failed",
+          // Field errors are shown next to their controls instead of as one joined message.
+          error: fieldErrors.length > 0 ? null : error instanceof Error ? error.message : t("documents.uploadFailed"),
+          fieldErrors,
+        })
+      } finally {
+        controllers.current.delete(item.id)
+      }
+    },
+    [t, update],
+  )
+
+  useEffect(() => {
+    if (!hydrated) return
+    const slots = MAX_PARALLEL_UPLOADS - controllers.current.size
+    if (slots <= 0) return
+    items
+      .filter((item) => item.status === "queued" && !controllers.current.has(item.id))
+      .slice(0, slots)
+      .forEach((item) => void upload(item))
+  }, [hydrated, items, upload])
+
+  const hasPaused = items.some((item) => item.status === "paused")
+
+  // Signing in from another tab leaves this page as it was; coming back to it
+  // sends the paused files again, once, and a still-expired session pauses them again.
+  useEffect(() => {
+    if (!hasPaused) return
+    const resume = () => {
+      if (document.visibilityState !== "visible") return
+      setItems((previous) => previous.map((item) => (item.status === "paused" ? { ...item, status: "queued" } : item)))
+    }
+    window.addEventListener("focus", resume)
+    document.addEventListener("visibilitychange", resume)
+    return () => {
+      window.removeEventListener("focus", resume)
+      document.removeEventListener("visibilitychange", resume)
+    }
+  }, [hasPaused])
+
+  const processingKey = items
+    .filter((item) => item.status === "processing" && item.documentId)
+    .map((item) => `${item.id}:${item.documentId}`)
+    .join(",")
+
+  useEffect(() => {
+    if (!processingKey) return
+    const tracked = processingKey.split(",").map((entry) => {
+      const [id, documentId] = entry.split(":")
+      return { id, documentId }
+    })
+    let isCancelled = false
+    let timeoutId: ReturnType<typeof setTimeout> | null = null
+
+    const poll = async () => {
+      // A pushed event polls early; restart the schedule from here.
+      if (timeoutId) clearTimeout(timeoutId)
+      const results = await Promise.all(
+        tracked.map(async ({ id, documentId }) => {
+          try {
+            const org = itemsRef.current.find((item) => item.id === id)?.orgId
+            return { id, document: await apiFetch<DocumentRecord>(`/documents/${documentId}`, { headers: orgHeaders(org) }) }
+          } catch (error) {
+            return { id, error }
+          }
+        }),
+      )
+      if (isCancelled) return
+
+      // A 404 means the document was deleted elsewhere; stop tracking it.
+      const gone = new Set<string>()
+      const patches = new Map<string, Partial<UploadItem>>()
+      results.forEach(({ id, document, error }) => {
+        if (error instanceof ApiError && error.status === 404) {
+          gone.add(id)
+        } else if (document?.status === "READY") {
+          patches.set(id, { status: "ready" })
+        } else if (document?.status === "FAILED") {
+          patches.set(id, { status: "failed", error: t("documents.uploadFailed") })
+        }
+      })
+
+      if (gone.size > 0 || patches.size > 0) {
+        const finished = itemsRef.current.flatMap((item) => {
+          const patch = patches.get(item.id)
+          return patch ? [{ ...item, ...patch }] : []
+        })
+        setItems((previous) =>
+          previous
+            .filter((item) => !gone.has(item.id))
+            .map((item) => (patches.has(item.id) ? { ...item, ...patches.get(item.id) } : item)),
+        )
+        gone.forEach(forgetFile)
+        finished.forEach((item) => {
+          if (item.status === "ready") forgetFile(item.id)
+          onProcessedRef.current?.(item)
+        })
+      }
+      // While the event stream is open, a status change is pushed instead.
+      if (timeoutId) clearTimeout(timeoutId)
+      timeoutId = setTimeout(poll, isConnected ? CONNECTED_POLL_INTERVAL_MS : POLL_INTERVAL_MS)
+    }
+
+    void poll()
+    const unsubscribe = isConnected
+      ? subscribe((event) => {
+          if (event.type === "document.updated" && tracked.some(({ documentId }) => documentId === event.id)) {
+            void poll()
+          }
+        })
+      : null
+
+    return () => {
+      isCancelled = true
+      unsubscribe?.()
+      if (timeoutId) {
+        clearTimeout(timeoutId)
+      }
+    }
+  }, [isConnected, processingKey, subscribe, t])
+
+  const isUploading = items.some((item) => item.status === "uploading")
+
+  useEffect(() => {
+    if (!isUploading) return
+    const handler = (event: BeforeUnloadEvent) => {
+      event.preventDefault()
+      event.returnValue = ""
+    }
+    window.addEventListener("beforeunload", handler)
+    return () => window.removeEventListener("beforeunload", handler)
+  }, [isUploading])
+
+  return { items, addFiles, startPending, setTrade, retry, cancel, remove, clearFinished }
+}
@@ -0,0 +1,70 @@
+/**
+ * Account calls: the signed-in user's sessions across devices and signing
+ * out of them. Signing out also clears what this browser kept for offline
+ * use, so the next person on a shared device starts clean.
+ */
+
+import { ApiError, apiFetch } from "@/lib/api/client"
+import { clearOutbox } from "@/lib/outbox"
+import { forgetActiveOrg, orgHeaders } from "@/lib/org"
+import { LOGIN_PATH, markSignedOut } from "@/lib/session"
+import { deleteQueuedFile, readQueue, writeQueue } from "@/lib/upload-queue"
+
+export type DeviceSession = {
+  id: string
+  /** Browser and platform as parsed by the backend, e.g. "Chrome on macOS". */
+  device: string
+  ip_address: string | null
+  location: string | null
+  created_at: string
+  last_seen_at: string
+  /** The session this browser is using. */
+  current: boolean
+}
+
+export const SESSIONS_PATH = "/auth/sessions"
+
+export const listSessions = () => apiFetch<DeviceSession[]>(SESSIONS_PATH)
+
+/** Ends one session on another device; it gets a 401 on its next request. */
+export const revokeSession = (id: string, orgId: string | null) =>
+  apiFetch<void>(`${SESSIONS_PATH}/${encodeURIComponent(id)}`, { method: "DELETE", headers: orgHeaders(orgId) })
+
+// A full page load drops the SWR cache and every provider's state along with the session.
+async function leave() {
+  markSignedOut()
+  await Promise.all([clearOutbox(), ...readQueue().map((item) => deleteQueuedFile(item.id))]).catch(() => undefined)
+  writeQueue([])
+  forgetActiveOrg()
+  window.location.replace(LOGIN_PATH)
+}
+
+/**
+ * Ends this browser's session and goes to the login page. The local data is
+ * cleared even when the backend cannot be reached or the session already
+ * expired, so a shared device never keeps it.
+ */
+export async function signOut() {
+  // A 401 here must not open the session-expired prompt on the way out.
+  markSignedOut()
+  try {
+    await apiFetch<void>("/auth/logout", { method: "POST" })
+  } catch (error) {
+    console.warn("[account] Logout request failed; signing out locally", error)
+  }
+  await leave()
+}
+
+/**
+ * Ends every session of the user, this one included, and goes to the login
+ * page. A 401 means this session is already gone, so only the local cleanup is
+ * left; any other failure leaves the other sessions running and is thrown.
+ */
+export async function signOutEverywhere() {
+  try {
+    await apiFetch<void>(`${SESSIONS_PATH}/revoke-all`, { method: "POST" })
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 401)) throw error
+  }
+  await leave()
+}
@@ -1,62 +1,99 @@
-import { ApiError } from "@/lib/api/errors"
-import { mockApiFetch } from "@/lib/api/mock"
-import type { ApiFetchOptions } from "@/lib/api/types"
+import { validateResponse } from "@/lib/api/contracts"
+import { ApiError, errorFromResponse } from "@/lib/api/errors"
+import { mockUpload } from "@/lib/api/mock"
+import { API_URL, REQUEST_ID_HEADER, apiRequest, buildApiUrl, createRequestId } from "@/lib/api/request"
+import type { ApiFetchOptions, UploadOptions } from "@/lib/api/types"
 import { USE_MOCKS } from "@/lib/env"
-
-export const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000"
-
-export const buildApiUrl = (
-  path: string,
-  searchParams?: ApiFetchOptions["searchParams"],
-) => {
-  const url = new URL(path.startsWith("http") ? path : `${API_URL}${path}`)
-  if (searchParams) {
-    Object.entries(searchParams).forEach(([key, value]) => {
-      if (value === undefined || value === null) return
-      url.searchParams.set(key, String(value))
-    })
-  }
-  return url.toString()
-}
+import { ORG_HEADER } from "@/lib/org"
+import { reportSessionExpired } from "@/lib/session"
 
 export async function apiFetch<T>(path: string, options: ApiFetchOptions = {}): Promise<T> {
-  const { searchParams, headers, ...rest } = options
-
-  if (USE_MOCKS) {
-    return mockApiFetch<T>(path, { searchParams, ...rest }, API_URL)
-  }
-
-  const url = buildApiUrl(path, searchParams)
+  const { headers, ...rest } = options
 
   const finalHeaders = new Headers(headers)
-  const body = (rest as RequestInit).body
-  const isFormData = typeof FormData !== "undefined" && body instanceof FormData
+  const isFormData = typeof FormData !== "undefined" && rest.body instanceof FormData
   if (!isFormData && !finalHeaders.has("Content-Type")) {
     finalHeaders.set("Content-Type", "application/json")
   }
 
-  const response = await fetch(url, {
+  return apiRequest<T>(path, {
     credentials: "include",
-    headers: finalHeaders,
     ...rest,
+    headers: finalHeaders,
   })
+}
 
-  if (!response.ok) {
-    const payload = await response.json().catch(() => undefined)
-    const message = (payload as { detail?: string } | undefined)?.detail ?? response.statusText
-    throw new ApiError(message || "Request failed", response.status, payload)
-  }
+/**
+ * Multipart POST over XMLHttpRequest, because fetch reports no upload progress.
+ * Failures reject with ApiError like apiFetch; aborting through `signal`
+ * rejects with an AbortError.
+ */
+export function apiUpload<T>(path: string, body: FormData, options: UploadOptions = {}): Promise<T> {
+  const { onProgress, signal } = options
+  const { orgId } = options
 
-  if (response.status === 204) {
-    return undefined as T
+  if (USE_MOCKS) {
+    return mockUpload<unknown>(path, body, { ...options, orgId }, API_URL).then(
+      (data) => validateResponse<T>("POST", path, data),
+      (error) => {
+        if (error instanceof ApiError && error.status === 401) {
+          reportSessionExpired()
+        }
+        throw error
+      },
+    )
   }
 
-  return (await response.json()) as T
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled", "AbortError"))
+      return
+    }
+
+    const requestId = createRequestId()
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", buildApiUrl(path))
+    xhr.setRequestHeader(REQUEST_ID_HEADER, requestId)
+    if (orgId) {
+      xhr.setRequestHeader(ORG_HEADER, orgId)
+    }
+    xhr.withCredentials = true
+    xhr.responseType = "json"
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total)
+      }
+    }
+    xhr.onload = () => {
+      const payload = xhr.response ?? undefined
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1)
+        try {
+          resolve(validateResponse<T>("POST", path, payload))
+        } catch (error) {
+          reject(error)
+        }
+        return
+      }
+      if (xhr.status === 401) {
+        reportSessionExpired()
+      }
+      reject(errorFromResponse(xhr.status, xhr.statusText, payload, requestId))
+    }
+    xhr.onerror = () => reject(new ApiError("Network error", 0, undefined, requestId))
+    xhr.onabort = () => reject(new DOMException("Upload cancelled", "AbortError"))
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true })
+
+    xhr.send(body)
+  })
 }
 
 export async function apiMutation<T>(path: string, options: ApiFetchOptions = {}) {
   return apiFetch<T>(path, options)
 }
 
-export type { ApiFetchOptions } from "@/lib/api/types"
-export { ApiError } from "@/lib/api/errors"
+export type { ApiFetchOptions, UploadOptions } from "@/lib/api/types"
+export { API_URL, buildApiUrl } from "@/lib/api/request"
+export type { FieldError } from "@/lib/api/errors"
+export { ApiError, fieldErrorsOf, formatFieldError, isAbortError, mapFieldErrors } from "@/lib/api/errors"
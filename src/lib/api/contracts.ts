@@ -0,0 +1,111 @@
+import type { z } from "zod"
+
+import {
+  authMeSchema,
+  bulkTriageSchema,
+  deviceSessionSchema,
+  documentSchema,
+  documentsSchema,
+  magicLinkSchema,
+  orgMemberSchema,
+  permitSchema,
+  reminderSchema,
+  requirementFacetsSchema,
+  requirementSchema,
+  requirementsSchema,
+  requirementViewSchema,
+  signInSchema,
+  trainingCertSchema,
+  uploadAcceptedSchema,
+} from "@/lib/api/schemas"
+import { USE_MOCKS } from "@/lib/env"
+
+type Contract = {
+  method: string
+  pattern: RegExp
+  schema: z.ZodType
+}
+
+/** Response contracts, matched like the mock routes. Endpoints without one are passed through. */
+const contracts: Contract[] = [
+  { method: "GET", pattern: /^\/auth\/me$/, schema: authMeSchema },
+  { method: "PATCH", pattern: /^\/auth\/me$/, schema: authMeSchema },
+  { method: "POST", pattern: /^\/auth\/magic-link$/, schema: magicLinkSchema },
+  { method: "GET", pattern: /^\/auth\/callback$/, schema: signInSchema },
+  { method: "POST", pattern: /^\/auth\/verify-code$/, schema: signInSchema },
+  { method: "GET", pattern: /^\/auth\/sessions$/, schema: deviceSessionSchema.array() },
+  { method: "GET", pattern: /^\/org\/members$/, schema: orgMemberSchema.array() },
+  { method: "GET", pattern: /^\/documents$/, schema: documentsSchema },
+  { method: "POST", pattern: /^\/documents\/upload$/, schema: uploadAcceptedSchema },
+  { method: "GET", pattern: /^\/documents\/[^/]+$/, schema: documentSchema },
+  { method: "POST", pattern: /^\/documents\/[^/]+\/move$/, schema: documentSchema },
+  { method: "GET", pattern: /^\/requirements$/, schema: requirementsSchema },
+  { method: "GET", pattern: /^\/requirements\/facets$/, schema: requirementFacetsSchema },
+  { method: "POST", pattern: /^\/requirements\/triage\/bulk$/, schema: bulkTriageSchema },
+  { method: "GET", pattern: /^\/requirements\/[^/]+$/, schema: requirementSchema },
+  { method: "PATCH", pattern: /^\/requirements\/[^/]+$/, schema: requirementSchema },
+  { method: "POST", pattern: /^\/requirements\/[^/]+\/(complete|archive|archive\/restore)$/, schema: requirementSchema },
+  { method: "GET", pattern: /^\/requirement-views$/, schema: requirementViewSchema.array() },
+  { method: "POST", pattern: /^\/requirement-views$/, schema: requirementViewSchema },
+  { method: "PATCH", pattern: /^\/requirement-views\/[^/]+$/, schema: requirementViewSchema },
+  { method: "GET", pattern: /^\/permits$/, schema: permitSchema.array() },
+  { method: "GET", pattern: /^\/training$/, schema: trainingCertSchema.array() },
+  { method: "GET", pattern: /^\/reminders$/, schema: reminderSchema.array() },
+  { method: "POST", pattern: /^\/reminders$/, schema: reminderSchema.array() },
+]
+
+export type ContractIssue = {
+  /** Dotted field path, e.g. `items.3.due_date`. */
+  path: string
+  message: string
+}
+
+/** The backend answered with a payload that does not match the response contract. */
+export class ContractError extends Error {
+  endpoint: string
+  issues: ContractIssue[]
+
+  constructor(endpoint: string, issues: ContractIssue[]) {
+    super(
+      `Response from ${endpoint} does not match its contract: ${issues
+        .map((issue) => `${issue.path || "(root)"}: ${issue.message}`)
+        .join("; ")}`,
+    )
+    this.name = "ContractError"
+    this.endpoint = endpoint
+    this.issues = issues
+  }
+}
+
+// Mock and dev builds throw so drift shows up immediately; production logs
+// the violation and keeps the raw payload rather than breaking the page.
+const STRICT = USE_MOCKS || process.env.NODE_ENV !== "production"
+
+const toPathname = (path: string) => {
+  const pathname = path.startsWith("http") ? new URL(path).pathname : path.split("?")[0]
+  return pathname.length > 1 && pathname.endsWith("/") ? pathname.slice(0, -1) : pathname
+}
+
+export function validateResponse<T>(method: string | undefined, path: string, data: unknown): T {
+  const verb = (method ?? "GET").toUpperCase()
+  const pathname = toPathname(path)
+  const contract = contracts.find((entry) => entry.method === verb && entry.pattern.test(pathname))
+  if (!contract) {
+    return data as T
+  }
+
+  const result = contract.schema.safeParse(data)
+  if (result.success) {
+    return result.data as T
+  }
+
+  const error = new ContractError(
+    `${verb} ${pathname}`,
+    result.error.issues.map((issue) => ({ path: issue.path.map(String).join("."), message: issue.message })),
+  )
+  if (STRICT) {
+    throw error
+  }
+  console.error(`[api] ${error.message}`)
+  return data as T
+}
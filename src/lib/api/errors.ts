@@ -1,11 +1,123 @@
+/** One entry of a FastAPI 422 `detail` array, keyed by the offending request field. */
+export type FieldError = {
+  /** Dotted path inside the request without its `body`/`query`/`path` prefix, e.g. `anchor_value.days`. */
+  field: string
+  message: string
+  /** Pydantic error type, e.g. `missing` or `string_too_short`. */
+  type: string
+  ctx: Record<string, unknown>
+}
+
+const LOCATION_PREFIXES = new Set(["body", "query", "path", "header", "cookie"])
+
+// Pydantic v1 spelled some types differently; fold them onto the v2 names.
+const LEGACY_TYPES: Record<string, string> = {
+  "value_error.missing": "missing",
+  "value_error.any_str.min_length": "string_too_short",
+  "value_error.any_str.max_length": "string_too_long",
+  "value_error.number.not_gt": "greater_than",
+  "value_error.number.not_ge": "greater_than_equal",
+  "value_error.number.not_le": "less_than_equal",
+  "type_error.integer": "int_parsing",
+  "type_error.enum": "enum",
+  "value_error.date": "date_parsing",
+  "value_error.datetime": "datetime_parsing",
+}
+
+/** Reads FastAPI's `{detail: [{loc, msg, type}]}` validation payload; anything else yields no field errors. */
+export function parseFieldErrors(payload: unknown): FieldError[] {
+  const detail = (payload as { detail?: unknown } | undefined)?.detail
+  if (!Array.isArray(detail)) return []
+  return detail.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return []
+    const { loc, msg, type, ctx } = entry as { loc?: unknown; msg?: unknown; type?: unknown; ctx?: unknown }
+    const path = Array.isArray(loc) ? loc.map(String) : []
+    const rawType = typeof type === "string" ? type : "value_error"
+    return [
+      {
+        field: (LOCATION_PREFIXES.has(path[0]) ? path.slice(1) : path).join("."),
+        // Custom validators come through as "Value error, <their message>".
+        message: typeof msg === "string" ? msg.replace(/^Value error, /, "") : "Invalid value",
+        type: LEGACY_TYPES[rawType] ?? rawType,
+        ctx: ctx && typeof ctx === "object" ? (ctx as Record<string, unknown>) : {},
+      },
+    ]
+  })
+}
+
 export class ApiError extends Error {
   status: number
   payload: unknown
+  /** The `X-Request-ID` sent with the failed request, for matching backend logs. */
+  requestId?: string
+  /** Per-field problems from a 422 response; empty for every other error. */
+  fieldErrors: FieldError[]
 
-  constructor(message: string, status: number, payload: unknown) {
+  constructor(message: string, status: number, payload: unknown, requestId?: string) {
     super(message)
     this.name = "ApiError"
     this.status = status
     this.payload = payload
+    this.requestId = requestId
+    this.fieldErrors = status === 422 ? parseFieldErrors(payload) : []
+  }
+}
+
+/**
+ * No answer within the timeout. Unlike a failed connection the request may
+ * have reached the backend, so a mutation that timed out may already be applied.
+ */
+export class ApiTimeoutError extends ApiError {
+  constructor(requestId?: string) {
+    super("Request timed out", 0, undefined, requestId)
+    this.name = "ApiTimeoutError"
   }
 }
+
+/** Builds the ApiError for a non-2xx response; FastAPI puts the message in `detail`. */
+export function errorFromResponse(status: number, statusText: string, payload: unknown, requestId?: string) {
+  const detail = (payload as { detail?: unknown } | undefined)?.detail
+  const fieldErrors = parseFieldErrors(payload)
+  const message =
+    typeof detail === "string"
+      ? detail
+      : fieldErrors.length > 0
+        ? fieldErrors.map((error) => (error.field ? `${error.field}: ${error.message}` : error.message)).join("; ")
+        : statusText
+  return new ApiError(message || "Request failed", status, payload, requestId)
+}
+
+/** Field errors of a failed request, or an empty list when it failed for another reason. */
+export const fieldErrorsOf = (error: unknown) => (error instanceof ApiError ? error.fieldErrors : [])
+
+/**
+ * Assigns each field error to a form control. `fields` maps request paths to
+ * control names; nested paths fall back to their closest mapped parent, so
+ * `anchor_value.days` lands on whatever `anchor_value` maps to. Errors with no
+ * matching control are returned in `unmatched` for a form-level summary.
+ */
+export function mapFieldErrors<K extends string>(errors: FieldError[], fields: Record<string, K>) {
+  const byField: Partial<Record<K, FieldError>> = {}
+  const unmatched: FieldError[] = []
+  errors.forEach((error) => {
+    const segments = error.field.split(".")
+    let control: K | undefined
+    for (let depth = segments.length; depth > 0 && !control; depth -= 1) {
+      control = fields[segments.slice(0, depth).join(".")]
+    }
+    if (!control) {
+      unmatched.push(error)
+    } else if (!byField[control]) {
+      byField[control] = error
+    }
+  })
+  return { byField, unmatched }
+}
+
+/** Localized text for a field error, falling back to the backend's English `msg` for unknown types. */
+export function formatFieldError(error: FieldError, t: (key: string, options?: Record<string, unknown>) => string) {
+  return t(`validation.${error.type}`, { ...error.ctx, defaultValue: error.message })
+}
+
+/** True for the rejection of a request cancelled through its AbortSignal. */
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError"
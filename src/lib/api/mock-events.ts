@@ -0,0 +1,25 @@
+import { USE_MOCKS } from "@/lib/env"
+import type { RealtimeEvent } from "@/lib/realtime"
+
+type Listener = (event: RealtimeEvent) => void
+
+// Exposed on window in the browser so Cypress can play back a teammate's change.
+const GLOBAL_KEY = "__complianceCopilotMockEvents"
+
+const listeners = new Set<Listener>()
+
+/** Stand-in for the backend's event stream while mocks are on. */
+export function emitMockEvent(event: RealtimeEvent) {
+  listeners.forEach((listener) => listener(event))
+}
+
+export function subscribeMockEvents(listener: Listener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+if (USE_MOCKS && typeof window !== "undefined") {
+  ;(window as typeof window & { [GLOBAL_KEY]?: { emit: typeof emitMockEvent } })[GLOBAL_KEY] = { emit: emitMockEvent }
+}
@@ -0,0 +1,214 @@
+import auth from "@/mocks/auth.json"
+import documents from "@/mocks/documents.json"
+import permits from "@/mocks/permits.json"
+import requirements from "@/mocks/requirements.json"
+import training from "@/mocks/training.json"
+
+import type { DocumentRecord } from "@/app/documents/documents-client"
+import type { Permit } from "@/app/permits/permits-client"
+import type { Requirement } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import type { DeviceSession } from "@/lib/account"
+import type { OrgMember } from "@/lib/members"
+import type { Reminder } from "@/lib/reminders"
+import type { RequirementView } from "@/lib/requirement-views"
+
+/** One org's records. The active org's are kept at the top level of MockState. */
+type MockWorkspace = {
+  documents: DocumentRecord[]
+  requirements: Requirement[]
+  permits: Permit[]
+  training: TrainingCert[]
+  reminders: Reminder[]
+  requirementViews: RequirementView[]
+  members: OrgMember[]
+  processing: Record<string, string>
+}
+
+/** A sign-in email sent by the mock backend; Cypress reads its token and code from here. */
+export type MockMagicLink = {
+  email: string
+  token: string
+  code: string
+  redirect_path: string | null
+  sent_at: string
+  expires_at: string
+  used: boolean
+}
+
+export type MockState = MockWorkspace & {
+  profile: AuthMeResponse
+  sessions: DeviceSession[]
+  magicLinks: MockMagicLink[]
+  /** Records of the orgs the user is not working in right now. */
+  workspaces: Record<string, MockWorkspace>
+  sequence: number
+  /** Set from Cypress to answer every call with 401, as an expired session would. */
+  sessionExpired?: boolean
+}
+
+const STORAGE_KEY = "compliance-copilot-mock-state"
+
+// The browser and the Next server each hold their own copy: the browser keeps
+// its copy in sessionStorage so a reload does not lose the demo state, the
+// server keeps one per process for server-rendered prefetches.
+const GLOBAL_KEY = "__complianceCopilotMockState"
+
+export const clone = <T>(data: T): T => {
+  if (typeof structuredClone === "function") {
+    return structuredClone(data)
+  }
+  return JSON.parse(JSON.stringify(data)) as T
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Relative to now, so "last active" reads sensibly whenever the demo is opened.
+const seedSessions = (): DeviceSession[] => {
+  const ago = (hours: number) => new Date(Date.now() - hours * HOUR_MS).toISOString()
+  return [
+    {
+      id: "sess-current",
+      device: "Chrome on macOS",
+      ip_address: "203.0.113.24",
+      location: "Denver, US",
+      created_at: ago(30),
+      last_seen_at: ago(0),
+      current: true,
+    },
+    {
+      id: "sess-phone",
+      device: "Safari on iPhone",
+      ip_address: "198.51.100.7",
+      location: "Denver, US",
+      created_at: ago(24 * 6),
+      last_seen_at: ago(3),
+      current: false,
+    },
+    {
+      id: "sess-trailer",
+      device: "Edge on Windows",
+      ip_address: "192.0.2.150",
+      location: "Pueblo, US",
+      created_at: ago(24 * 20),
+      last_seen_at: ago(24 * 2),
+      current: false,
+    },
+  ]
+}
+
+const createSeedState = (): MockState => ({
+  profile: clone(auth) as AuthMeResponse,
+  sessions: seedSessions(),
+  magicLinks: [],
+  documents: (clone(documents.items) as DocumentRecord[]).map((item) => ({
+    ...item,
+    status: item.status ?? "READY",
+    classification: item.classification ?? null,
+  })),
+  requirements: clone(requirements.items) as Requirement[],
+  permits: clone(permits) as Permit[],
+  training: clone(training) as TrainingCert[],
+  reminders: [],
+  requirementViews: [
+    {
+      id: "view-overdue",
+      name: "Overdue",
+      query: "due=overdue",
+      visibility: "org",
+      is_default: false,
+      owner_email: "supervisor@example.com",
+      created_at: "2024-01-08T14:00:00Z",
+    },
+  ],
+  members: [
+    { id: "member-dispatcher", email: "dispatcher@example.com", name: null, active: true },
+    { id: "member-supervisor", email: "supervisor@example.com", name: "Maria Lopez", active: true },
+    { id: "member-tech", email: "tech@example.com", name: "Sam Rivera", active: true },
+    { id: "member-luis", email: "luis.ortega@example.com", name: "Luis Ortega", active: false },
+  ],
+  processing: {},
+  workspaces: {},
+  sequence: 1,
+})
+
+// Orgs other than the seeded one start empty, apart from the signed-in user in their directory.
+const emptyWorkspace = (email: string): MockWorkspace => ({
+  documents: [],
+  requirements: [],
+  permits: [],
+  training: [],
+  reminders: [],
+  requirementViews: [],
+  members: [{ id: "member-you", email, name: null, active: true }],
+  processing: {},
+})
+
+const readPersisted = (): MockState | null => {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = window.sessionStorage.getItem(STORAGE_KEY)
+    // Merge over a fresh seed so state saved before a collection existed still loads.
+    return raw ? { ...createSeedState(), ...(JSON.parse(raw) as Partial<MockState>) } : null
+  } catch {
+    return null
+  }
+}
+
+type GlobalWithState = typeof globalThis & { [GLOBAL_KEY]?: MockState }
+
+export function getMockState(): MockState {
+  const scope = globalThis as GlobalWithState
+  if (!scope[GLOBAL_KEY]) {
+    scope[GLOBAL_KEY] = readPersisted() ?? createSeedState()
+  }
+  return scope[GLOBAL_KEY]
+}
+
+export function persistMockState() {
+  if (typeof window === "undefined") return
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(getMockState()))
+  } catch {
+    // Storage can be full or disabled; the in-memory copy is still usable.
+  }
+}
+
+export function resetMockState() {
+  const scope = globalThis as GlobalWithState
+  scope[GLOBAL_KEY] = createSeedState()
+  persistMockState()
+}
+
+/** The user's default org, used like the backend does for requests without `X-Org-ID`. */
+export const MOCK_DEFAULT_ORG_ID = auth.org.id
+
+/**
+ * Makes `orgId` the org the mock routes read and write, stashing the current
+ * org's records. Returns false when the user is not a member of `orgId`.
+ */
+export function switchMockWorkspace(orgId: string): boolean {
+  const state = getMockState()
+  const org = state.profile.orgs.find((item) => item.id === orgId)
+  if (!org) return false
+  if (org.id === state.profile.org.id) return true
+
+  const { documents, requirements, permits, training, reminders, requirementViews, members, processing } = state
+  const { [org.id]: next = emptyWorkspace(state.profile.user.email), ...others } = state.workspaces
+  Object.assign(state, next)
+  state.workspaces = {
+    ...others,
+    [state.profile.org.id]: { documents, requirements, permits, training, reminders, requirementViews, members, processing },
+  }
+  state.profile.org = org
+  persistMockState()
+  return true
+}
+
+export function nextMockId(prefix: string) {
+  const state = getMockState()
+  const id = `${prefix}-mock-${state.sequence}`
+  state.sequence += 1
+  return id
+}
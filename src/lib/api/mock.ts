@@ -1,19 +1,49 @@
-import auth from "@/mocks/auth.json"
-import documents from "@/mocks/documents.json"
-import permits from "@/mocks/permits.json"
-import requirementComplete from "@/mocks/requirement-complete.json"
-import requirements from "@/mocks/requirements.json"
-import training from "@/mocks/training.json"
-
+import type { DocumentRecord } from "@/app/documents/documents-client"
+import { REQUIREMENT_SORTS } from "@/app/requirements/list-query"
+import type { FacetBucket, Requirement } from "@/app/requirements/requirements-client"
 import { ApiError } from "@/lib/api/errors"
-import type { ApiFetchOptions } from "@/lib/api/types"
+import { emitMockEvent } from "@/lib/api/mock-events"
+import {
+  MOCK_DEFAULT_ORG_ID,
+  clone,
+  getMockState,
+  nextMockId,
+  persistMockState,
+  resetMockState,
+  switchMockWorkspace,
+  type MockMagicLink,
+  type MockState,
+} from "@/lib/api/mock-store"
+import type { ApiFetchOptions, UploadOptions } from "@/lib/api/types"
 import { isDueWithin, isOverdue } from "@/lib/dates"
+import { ASSIGNED_TO_ME, assigneeOf, memberLabel, type OrgMember } from "@/lib/members"
+import { ORG_HEADER, orgHeaders } from "@/lib/org"
+import { completionHistory, nextDueAfterCompletion, ruleFromRequirement } from "@/lib/recurrence"
+import {
+  REMINDER_CHANNELS,
+  isValidRecipient,
+  reminderSendAt,
+  type Reminder,
+  type ReminderChannel,
+  type ReminderSubjectType,
+} from "@/lib/reminders"
+import type { RequirementView, ViewVisibility } from "@/lib/requirement-views"
 
-const clone = <T>(data: T): T => {
-  if (typeof structuredClone === "function") {
-    return structuredClone(data)
-  }
-  return JSON.parse(JSON.stringify(data)) as T
+const PROCESSING_DELAY_MS = 4_000
+const UPLOAD_STEPS = 5
+const UPLOAD_STEP_MS = 150
+
+type MockRequest = {
+  params: string[]
+  query: (key: string) => string | undefined
+  body: unknown
+  state: MockState
+}
+
+type MockRoute = {
+  method: string
+  pattern: RegExp
+  handler: (request: MockRequest) => unknown
 }
 
 const normalizePath = (pathname: string) => {
@@ -21,6 +51,914 @@ const normalizePath = (pathname: string) => {
   return pathname.endsWith("/") ? pathname.slice(0, -1) : pathname
 }
 
+const parseBody = (body: ApiFetchOptions["body"]): unknown => {
+  if (body === undefined || body === null) return undefined
+  if (typeof FormData !== "undefined" && body instanceof FormData) return body
+  if (typeof body === "string") {
+    try {
+      return JSON.parse(body)
+    } catch {
+      return body
+    }
+  }
+  return body
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !(value instanceof FormData) ? (value as Record<string, unknown>) : {}
+
+type MockValidationIssue = {
+  loc: (string | number)[]
+  msg: string
+  type: string
+  ctx?: Record<string, unknown>
+}
+
+/** Answers like FastAPI's request validation: a 422 whose `detail` lists every offending field. */
+const validationError = (issues: MockValidationIssue[]) =>
+  new ApiError(issues.map((issue) => issue.msg).join("; "), 422, { detail: issues })
+
+const UPLOAD_TRADES = ["electrical", "general", "mechanical"]
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000
+const MAGIC_LINK_RESEND_SECONDS = 60
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/
+
+// Signing in has to work while every other call answers 401.
+const SIGN_IN_PATHS = /^\/auth\/(magic-link|callback|verify-code)$/
+
+const usableLink = (link: MockMagicLink) => {
+  if (link.used || Date.parse(link.expires_at) <= Date.now()) {
+    throw new ApiError("This sign-in link has expired or was already used", 410, {
+      detail: "This sign-in link has expired or was already used",
+    })
+  }
+  return link
+}
+
+const signIn = (state: MockState, link: MockMagicLink) => {
+  link.used = true
+  state.sessionExpired = false
+  return { redirect_path: link.redirect_path }
+}
+
+const startOfToday = () => new Date().toISOString().slice(0, 10)
+
+const paginate = <T>(items: T[], request: MockRequest, defaultLimit: number) => {
+  const limit = Math.max(1, Math.min(100, Number(request.query("limit") ?? defaultLimit) || defaultLimit))
+  const requestedPage = Math.max(1, Number(request.query("page") ?? 1) || 1)
+  const total = items.length
+  const pageCount = Math.max(1, Math.ceil(total / limit))
+  const page = Math.min(requestedPage, pageCount)
+  const start = (page - 1) * limit
+  return {
+    items: items.slice(start, start + limit),
+    pagination: { page, limit, total },
+  }
+}
+
+const findRequirement = (state: MockState, id: string) => {
+  const requirement = state.requirements.find((item) => item.id === id)
+  if (!requirement) {
+    throw new ApiError("Requirement not found", 404, { detail: "Requirement not found" })
+  }
+  return requirement
+}
+
+const findDocument = (state: MockState, id: string) => {
+  const document = state.documents.find((item) => item.id === id)
+  if (!document) {
+    throw new ApiError("Document not found", 404, { detail: "Document not found" })
+  }
+  return document
+}
+
+// What the requirements search box matches, in either language.
+const REQUIREMENT_SEARCH_FIELDS = [
+  "title_en",
+  "title_es",
+  "description_en",
+  "description_es",
+  "category",
+  "source_ref",
+  "document_name",
+] as const
+
+const isArchived = (requirement: Requirement) => requirement.archive_state === "archived"
+
+const matchesDue = (requirement: Requirement, tokens: string[]) => {
+  if (tokens.length === 0) return true
+  const dueDate = requirement.due_date
+  return tokens.some((token) => {
+    switch (token) {
+      case "overdue":
+        return isOverdue(dueDate)
+      case "due7":
+        return isDueWithin(dueDate, 7)
+      case "due30":
+        return isDueWithin(dueDate, 30)
+      default:
+        return true
+    }
+  })
+}
+
+const splitTokens = (value: string | undefined) =>
+  value
+    ? value
+        .split(",")
+        .map((token) => token.trim())
+        .filter(Boolean)
+    : []
+
+const findMember = (state: MockState, email: unknown) =>
+  typeof email === "string" ? state.members.find((item) => item.email === email) : undefined
+
+// Only active members of the org can be given work.
+const assigneeIssue = (state: MockState, email: unknown): MockValidationIssue | null => {
+  if (typeof email !== "string") return null
+  const member = findMember(state, email)
+  if (!member) {
+    return { loc: ["body", "assignee"], msg: "Assignee is not a member of this organization", type: "value_error" }
+  }
+  if (!member.active) {
+    return { loc: ["body", "assignee"], msg: `${memberLabel(member)} was deactivated and can't be assigned work`, type: "value_error" }
+  }
+  return null
+}
+
+const assign = (requirement: Requirement, member: OrgMember | null) => {
+  const attributes = { ...(requirement.attributes ?? {}) }
+  const triage = { ...asRecord(attributes.triage) }
+  if (member) {
+    attributes.assignee = member.email
+    triage.assignee = member.email
+  } else {
+    delete attributes.assignee
+    delete triage.assignee
+  }
+  attributes.triage = triage
+  requirement.attributes = attributes
+  requirement.assignee = member ? { email: member.email, name: member.name, active: member.active } : null
+}
+
+// Assignments keep the email they were made with; names and deactivations come from the directory at read time.
+const withAssignee = (state: MockState, requirement: Requirement): Requirement => {
+  const member = findMember(state, assigneeOf(requirement)?.email)
+  return member ? { ...requirement, assignee: { email: member.email, name: member.name, active: member.active } } : requirement
+}
+
+type RequirementFacet = "category" | "document"
+
+// The list filters, shared with the facet counts; `ignore` leaves out the facet being counted.
+const filterRequirements = (request: MockRequest, ignore?: RequirementFacet) => {
+  const dueTokens = splitTokens(request.query("due"))
+  const statusTokens = splitTokens(request.query("status")).map((token) => token.toUpperCase())
+  const archivedOnly = request.query("archived") === "true"
+  const documentIds = ignore === "document" ? [] : splitTokens(request.query("document_id"))
+  const categories = ignore === "category" ? [] : splitTokens(request.query("category"))
+  const search = (request.query("q") ?? "").trim().toLowerCase()
+  const assignee = request.query("assignee")
+  const assigneeEmail = assignee === ASSIGNED_TO_ME ? request.state.profile.user.email : assignee
+  return request.state.requirements.filter((item) => {
+    if (archivedOnly !== isArchived(item)) return false
+    if (assigneeEmail && assigneeOf(item)?.email !== assigneeEmail) return false
+    if (documentIds.length > 0 && !documentIds.includes(item.document_id ?? "")) return false
+    if (categories.length > 0 && !categories.includes(item.category ?? "")) return false
+    if (statusTokens.length > 0 && !statusTokens.includes(item.status)) return false
+    if (search && !REQUIREMENT_SEARCH_FIELDS.some((field) => item[field]?.toLowerCase().includes(search))) return false
+    return matchesDue(item, dueTokens)
+  })
+}
+
+const countBuckets = (items: Requirement[], pick: (item: Requirement) => Pick<FacetBucket, "value" | "label">) => {
+  const buckets = new Map<string | null, FacetBucket>()
+  items.forEach((item) => {
+    const { value, label } = pick(item)
+    const bucket = buckets.get(value) ?? { value, label, count: 0, overdue: 0 }
+    bucket.count += 1
+    if (item.status !== "DONE" && isOverdue(item.due_date)) bucket.overdue += 1
+    buckets.set(value, bucket)
+  })
+  return Array.from(buckets.values()).sort((a, b) => b.count - a.count || (a.label ?? "").localeCompare(b.label ?? ""))
+}
+
+const REMINDER_SUBJECTS: ReminderSubjectType[] = ["requirement", "permit", "training"]
+
+const VIEW_VISIBILITIES: ViewVisibility[] = ["personal", "org"]
+
+// Personal views are invisible to everyone but their owner, so theirs answer 404 like missing ones.
+const findView = (state: MockState, id: string) => {
+  const view = state.requirementViews.find(
+    (item) => item.id === id && (item.visibility === "org" || item.owner_email === state.profile.user.email),
+  )
+  if (!view) {
+    throw new ApiError("View not found", 404, { detail: "View not found" })
+  }
+  return view
+}
+
+const assertViewOwner = (state: MockState, view: RequirementView) => {
+  if (view.owner_email !== state.profile.user.email) {
+    throw new ApiError("Only the owner can change this view", 403, { detail: "Only the owner can change this view" })
+  }
+}
+
+const validateViewName = (state: MockState, name: unknown, exceptId?: string): string => {
+  const trimmed = typeof name === "string" ? name.trim() : ""
+  if (!trimmed) {
+    throw validationError([
+      { loc: ["body", "name"], msg: "String should have at least 1 character", type: "string_too_short", ctx: { min_length: 1 } },
+    ])
+  }
+  const taken = state.requirementViews.some(
+    (view) =>
+      view.id !== exceptId &&
+      view.owner_email === state.profile.user.email &&
+      view.name.toLowerCase() === trimmed.toLowerCase(),
+  )
+  if (taken) {
+    throw validationError([{ loc: ["body", "name"], msg: "You already have a view with this name", type: "value_error" }])
+  }
+  return trimmed
+}
+
+// The mock has a single user, so their default is kept on the view itself.
+const setDefaultView = (state: MockState, view: RequirementView, isDefault: boolean) => {
+  if (isDefault) {
+    state.requirementViews.forEach((item) => {
+      item.is_default = false
+    })
+  }
+  view.is_default = isDefault
+}
+
+const subjectDueDate = (state: MockState, type: ReminderSubjectType, id: string): string | null => {
+  if (type === "requirement") return findRequirement(state, id).due_date ?? null
+  const collection = type === "permit" ? state.permits : state.training
+  const record = collection.find((item) => item.id === id)
+  if (!record) {
+    throw new ApiError("Reminder subject not found", 404, { detail: "Reminder subject not found" })
+  }
+  return record.expires_at ?? null
+}
+
+// Nothing is delivered in mock mode; reminders whose send time has passed are
+// simply reported as sent.
+const advanceReminders = (state: MockState) => {
+  const now = Date.now()
+  state.reminders.forEach((reminder) => {
+    if (reminder.status === "scheduled" && new Date(reminder.send_at).getTime() <= now) {
+      reminder.status = "sent"
+    }
+  })
+}
+
+// Mirrors the backend: when a recurring requirement rolls forward its pending
+// reminders follow the new due date, and closing it cancels them.
+const rescheduleReminders = (state: MockState, subjectId: string, dueDate: string | null) => {
+  state.reminders.forEach((reminder) => {
+    if (reminder.subject_type !== "requirement" || reminder.subject_id !== subjectId) return
+    if (reminder.status !== "scheduled") return
+    const sendAt = dueDate ? reminderSendAt(dueDate, reminder.lead_days) : null
+    if (!dueDate || !sendAt) {
+      reminder.status = "cancelled"
+      return
+    }
+    reminder.due_date = dueDate
+    reminder.send_at = sendAt.toISOString()
+  })
+}
+
+// Uploads stay in PROCESSING for a few seconds so polling and banners can be
+// exercised, then finish with one extracted requirement waiting for triage.
+const advanceProcessing = (state: MockState) => {
+  const now = Date.now()
+  let changed = false
+  Object.entries(state.processing).forEach(([documentId, startedAt]) => {
+    if (now - new Date(startedAt).getTime() < PROCESSING_DELAY_MS) return
+    delete state.processing[documentId]
+    const document = state.documents.find((item) => item.id === documentId)
+    if (!document) return
+    const extractedAt = new Date(now).toISOString()
+    document.status = "READY"
+    document.extracted_at = extractedAt
+    document.classification = document.classification ?? { label: "requirements", confidence: 0.82, source: "model" }
+    const title = document.name.replace(/\.pdf$/i, "")
+    const requirementId = nextMockId("req")
+    state.requirements.unshift({
+      id: requirementId,
+      document_id: document.id,
+      document_name: document.name,
+      title_en: `Review extracted obligations from ${title}`,
+      title_es: `Revisar obligaciones extraídas de ${title}`,
+      description_en: "Confirm the schedule and owner for this extracted requirement.",
+      description_es: "Confirma el calendario y responsable de este requisito extraído.",
+      category: "General recommendation",
+      frequency: null,
+      due_date: null,
+      status: "PENDING_REVIEW",
+      source_ref: "Page 1",
+      attributes: { triage: { reasons: ["missing_frequency", "missing_due_date"] } },
+    })
+    document.requirement_count = (document.requirement_count ?? 0) + 1
+    emitMockEvent({ type: "document.updated", id: document.id, status: document.status })
+    emitMockEvent({ type: "requirement.created", id: requirementId, document_id: document.id })
+    changed = true
+  })
+  if (changed) {
+    persistMockState()
+  }
+}
+
+/** Drives processing from the mock event stream, which replaces polling for it. */
+export const advanceMockProcessing = () => advanceProcessing(getMockState())
+
+const routes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: /^\/auth\/me$/,
+    handler: ({ state }) => state.profile,
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/auth\/me$/,
+    handler: ({ state, body }) => {
+      const payload = asRecord(body)
+      if (typeof payload.preferred_locale === "string") {
+        state.profile.user.preferred_locale = payload.preferred_locale
+      }
+      return state.profile
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/magic-link$/,
+    handler: ({ state, body }) => {
+      const payload = asRecord(body)
+      const email = typeof payload.email === "string" ? payload.email.trim().toLowerCase() : ""
+      if (!EMAIL_PATTERN.test(email)) {
+        throw validationError([{ loc: ["body", "email"], msg: "Enter a valid email address", type: "value_error" }])
+      }
+      const previous = state.magicLinks.filter((link) => link.email === email).at(-1)
+      const waited = previous ? (Date.now() - Date.parse(previous.sent_at)) / 1000 : Infinity
+      if (waited < MAGIC_LINK_RESEND_SECONDS) {
+        throw new ApiError("Wait a moment before requesting another link", 429, {
+          detail: "Wait a moment before requesting another link",
+          resend_after_seconds: Math.ceil(MAGIC_LINK_RESEND_SECONDS - waited),
+        })
+      }
+      const now = Date.now()
+      state.magicLinks.push({
+        email,
+        token: nextMockId("link"),
+        code: String(Math.floor(100_000 + Math.random() * 900_000)),
+        redirect_path: typeof payload.redirect_path === "string" ? payload.redirect_path : null,
+        sent_at: new Date(now).toISOString(),
+        expires_at: new Date(now + MAGIC_LINK_TTL_MS).toISOString(),
+        used: false,
+      })
+      return { resend_after_seconds: MAGIC_LINK_RESEND_SECONDS }
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/auth\/callback$/,
+    handler: ({ state, query }) => {
+      const link = state.magicLinks.find((item) => item.token === query("token"))
+      if (!link) {
+        throw new ApiError("This sign-in link is not valid", 400, { detail: "This sign-in link is not valid" })
+      }
+      return signIn(state, usableLink(link))
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/verify-code$/,
+    handler: ({ state, body }) => {
+      const payload = asRecord(body)
+      const email = typeof payload.email === "string" ? payload.email.trim().toLowerCase() : ""
+      const link = state.magicLinks.filter((item) => item.email === email).at(-1)
+      if (!link) {
+        throw new ApiError("Request a sign-in link first", 400, { detail: "Request a sign-in link first" })
+      }
+      usableLink(link)
+      if (String(payload.code ?? "").trim() !== link.code) {
+        throw validationError([{ loc: ["body", "code"], msg: "That code is not correct", type: "value_error" }])
+      }
+      return signIn(state, link)
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/auth\/sessions$/,
+    handler: ({ state }) => state.sessions,
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/auth\/sessions\/([^/]+)$/,
+    handler: ({ state, params }) => {
+      const session = state.sessions.find((item) => item.id === params[0])
+      if (!session) {
+        throw new ApiError("Session not found", 404, { detail: "Session not found" })
+      }
+      if (session.current) {
+        throw new ApiError("Use sign out to end the current session", 400, {
+          detail: "Use sign out to end the current session",
+        })
+      }
+      state.sessions = state.sessions.filter((item) => item.id !== session.id)
+      return undefined
+    },
+  },
+  // There is no mock login to come back through, so signing out starts the demo over.
+  {
+    method: "POST",
+    pattern: /^\/auth\/logout$/,
+    handler: () => {
+      resetMockState()
+      return undefined
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/auth\/sessions\/revoke-all$/,
+    handler: () => {
+      resetMockState()
+      return undefined
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/org\/members$/,
+    handler: (request) => {
+      const search = (request.query("q") ?? "").trim().toLowerCase()
+      const activeOnly = request.query("active") === "true"
+      const limit = Math.max(1, Math.min(100, Number(request.query("limit") ?? 50) || 50))
+      return request.state.members
+        .filter((member) => !activeOnly || member.active)
+        .filter((member) => !search || [member.email, member.name ?? ""].some((value) => value.toLowerCase().includes(search)))
+        .sort((a, b) => memberLabel(a).localeCompare(memberLabel(b)))
+        .slice(0, limit)
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/documents$/,
+    handler: (request) => {
+      advanceProcessing(request.state)
+      const search = (request.query("q") ?? "").trim().toLowerCase()
+      const statusTokens = splitTokens(request.query("status")).map((token) => token.toUpperCase())
+      const classification = request.query("classification")
+      const sortField = request.query("sort") === "extracted_at" ? "extracted_at" : "created_at"
+      const direction = request.query("order") === "asc" ? 1 : -1
+      const sorted = request.state.documents
+        .filter((item) => {
+          if (search && !item.name.toLowerCase().includes(search)) return false
+          if (statusTokens.length > 0 && !statusTokens.includes(item.status)) return false
+          if (classification) {
+            const label = item.classification?.label ?? "uncategorized"
+            if (label !== classification) return false
+          }
+          return true
+        })
+        .sort((a, b) => {
+          const left = a[sortField] ?? ""
+          const right = b[sortField] ?? ""
+          // Documents that have not been extracted yet always sort last.
+          if (!left || !right) return left ? -1 : right ? 1 : 0
+          return left.localeCompare(right) * direction
+        })
+      return paginate(sorted, request, 5)
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/documents\/upload$/,
+    handler: ({ state, body }) => {
+      const file = body instanceof FormData ? body.get("file") : null
+      const trade = body instanceof FormData ? body.get("trade") : null
+      const issues: MockValidationIssue[] = []
+      if (!file || typeof file === "string") {
+        issues.push({ loc: ["body", "file"], msg: "Field required", type: "missing" })
+      }
+      if (typeof trade !== "string" || !UPLOAD_TRADES.includes(trade)) {
+        issues.push({
+          loc: ["body", "trade"],
+          msg: "Input should be 'electrical', 'general' or 'mechanical'",
+          type: "enum",
+          ctx: { expected: "'electrical', 'general' or 'mechanical'" },
+        })
+      }
+      if (issues.length > 0 || !(file instanceof File)) {
+        throw validationError(issues)
+      }
+      const createdAt = new Date().toISOString()
+      const document: DocumentRecord = {
+        id: nextMockId("doc"),
+        name: file.name,
+        status: "PROCESSING",
+        classification: null,
+        created_at: createdAt,
+        extracted_at: null,
+        download_url: null,
+        requirement_count: 0,
+      }
+      state.documents.unshift(document)
+      state.processing[document.id] = createdAt
+      return { id: document.id, status: document.status }
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/documents\/([^/]+)$/,
+    handler: ({ state, params }) => {
+      advanceProcessing(state)
+      return findDocument(state, params[0])
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/documents\/([^/]+)\/move$/,
+    handler: ({ state, params, body }) => {
+      const document = findDocument(state, params[0])
+      const target = asRecord(body).target
+      if (typeof target !== "string") {
+        throw new ApiError("A target is required", 422, { detail: "A target is required" })
+      }
+      document.classification = { label: target, confidence: 1, source: "manual" }
+      return document
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/requirements$/,
+    handler: (request) => {
+      const sortField = REQUIREMENT_SORTS.find((field) => field === request.query("sort"))
+      const direction = request.query("order") === "desc" ? -1 : 1
+      const filtered = filterRequirements(request)
+      if (sortField) {
+        filtered.sort((a, b) => {
+          const left = a[sortField] ?? ""
+          const right = b[sortField] ?? ""
+          // Requirements without a value (no due date, no document) always sort last.
+          if (!left || !right) return left ? -1 : right ? 1 : 0
+          return left.localeCompare(right) * direction
+        })
+      }
+      return paginate(filtered.map((item) => withAssignee(request.state, item)), request, 10)
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/requirements\/facets$/,
+    handler: (request) => ({
+      categories: countBuckets(filterRequirements(request, "category"), (item) => ({
+        value: item.category ?? null,
+        label: item.category ?? null,
+      })),
+      documents: countBuckets(filterRequirements(request, "document"), (item) => ({
+        value: item.document_id ?? null,
+        label: item.document_name ?? null,
+      })),
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/requirements\/triage\/bulk$/,
+    handler: ({ state, body }) => {
+      const payload = asRecord(body)
+      const ids = Array.isArray(payload.requirement_ids) ? (payload.requirement_ids as string[]) : []
+      const issues: MockValidationIssue[] = []
+      if (ids.length === 0) {
+        issues.push({
+          loc: ["body", "requirement_ids"],
+          msg: "List should have at least 1 item after validation, not 0",
+          type: "too_short",
+          ctx: { min_length: 1 },
+        })
+      }
+      const assigneeProblem = assigneeIssue(state, payload.assignee)
+      if (assigneeProblem) {
+        issues.push(assigneeProblem)
+      }
+      Object.entries(asRecord(payload.anchor_value)).forEach(([key, value]) => {
+        if (["interval", "days", "weeks", "months"].includes(key) && (typeof value !== "number" || value <= 0)) {
+          issues.push({ loc: ["body", "anchor_value", key], msg: "Input should be greater than 0", type: "greater_than", ctx: { gt: 0 } })
+        }
+      })
+      if (issues.length > 0) {
+        throw validationError(issues)
+      }
+      const assignee = findMember(state, payload.assignee)
+      const items = ids.map((id) => {
+        const requirement = findRequirement(state, id)
+        const attributes = { ...(requirement.attributes ?? {}) }
+        const triage = { ...asRecord(attributes.triage), resolved_at: new Date().toISOString() } as Record<string, unknown>
+        if (typeof payload.frequency === "string") requirement.frequency = payload.frequency
+        if (typeof payload.anchor_type === "string") requirement.anchor_type = payload.anchor_type
+        if (payload.anchor_value && typeof payload.anchor_value === "object") {
+          requirement.anchor_value = payload.anchor_value as Record<string, unknown>
+        }
+        if (typeof payload.due_date === "string") requirement.due_date = payload.due_date
+        attributes.triage = triage
+        requirement.attributes = attributes
+        if (assignee) assign(requirement, assignee)
+        requirement.status = typeof payload.status === "string" ? payload.status : "OPEN"
+        return requirement
+      })
+      items.forEach((item) => emitMockEvent({ type: "requirement.updated", id: item.id }))
+      return { items, updated: items.length }
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/requirements\/([^/]+)$/,
+    handler: ({ state, params }) => withAssignee(state, findRequirement(state, params[0])),
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/requirements\/([^/]+)$/,
+    handler: ({ state, params, body }) => {
+      const requirement = findRequirement(state, params[0])
+      const payload = asRecord(body)
+      // Due dates can be cleared but not moved into the past.
+      if (typeof payload.due_date === "string" && payload.due_date.slice(0, 10) < startOfToday()) {
+        throw validationError([
+          {
+            loc: ["body", "due_date"],
+            msg: `Input should be greater than or equal to ${startOfToday()}`,
+            type: "greater_than_equal",
+            ctx: { ge: startOfToday() },
+          },
+        ])
+      }
+      const assigneeProblem = assigneeIssue(state, payload.assignee)
+      if (assigneeProblem) {
+        throw validationError([assigneeProblem])
+      }
+      if (typeof payload.status === "string") requirement.status = payload.status
+      if ("due_date" in payload) {
+        requirement.due_date = typeof payload.due_date === "string" ? payload.due_date : null
+      }
+      if ("assignee" in payload) {
+        assign(requirement, findMember(state, payload.assignee) ?? null)
+      }
+      emitMockEvent({ type: "requirement.updated", id: requirement.id })
+      return withAssignee(state, requirement)
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/requirements\/([^/]+)\/complete$/,
+    handler: ({ state, params, body }) => {
+      const requirement = findRequirement(state, params[0])
+      if (requirement.status === "PENDING_REVIEW") {
+        throw new ApiError("Triage this requirement before completing it", 409, {
+          detail: "Triage this requirement before completing it",
+        })
+      }
+      const completedAt = new Date().toISOString()
+      const completedBy = asRecord(body).completed_by
+      const attributes = { ...(requirement.attributes ?? {}) }
+      const history = Array.isArray(attributes.completions) ? [...(attributes.completions as unknown[])] : []
+      history.push({ completed_at: completedAt, completed_by: typeof completedBy === "string" ? completedBy : null })
+      attributes.completions = history
+      attributes.completed_at = completedAt
+      requirement.attributes = attributes
+
+      // Recurring requirements roll forward to their next cycle instead of closing.
+      const rule = ruleFromRequirement(requirement)
+      const nextDue = rule ? nextDueAfterCompletion(rule, completedAt, completionHistory(requirement)) : null
+      if (nextDue) {
+        requirement.due_date = nextDue.toISOString()
+        requirement.next_due = requirement.due_date
+        requirement.status = "OPEN"
+      } else {
+        requirement.next_due = null
+        requirement.status = "DONE"
+      }
+      rescheduleReminders(state, requirement.id, requirement.status === "DONE" ? null : requirement.due_date ?? null)
+      emitMockEvent({ type: "requirement.updated", id: requirement.id })
+      return requirement
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/requirements\/([^/]+)\/archive$/,
+    handler: ({ state, params, body }) => {
+      const requirement = findRequirement(state, params[0])
+      const reason = asRecord(body).reason
+      if (typeof reason !== "string" || !reason.trim()) {
+        throw new ApiError("A reason is required", 422, { detail: "A reason is required" })
+      }
+      requirement.archive_state = "archived"
+      requirement.attributes = {
+        ...(requirement.attributes ?? {}),
+        archive: {
+          state: "archived",
+          reason: reason.trim(),
+          requested_at: new Date().toISOString(),
+          requested_by: state.profile.user.email,
+        },
+      }
+      emitMockEvent({ type: "requirement.updated", id: requirement.id })
+      return requirement
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/requirements\/([^/]+)\/archive\/restore$/,
+    handler: ({ state, params }) => {
+      const requirement = findRequirement(state, params[0])
+      requirement.archive_state = "restored"
+      requirement.attributes = {
+        ...(requirement.attributes ?? {}),
+        archive: { ...asRecord(requirement.attributes?.archive), state: "restored" },
+      }
+      emitMockEvent({ type: "requirement.updated", id: requirement.id })
+      return requirement
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/permits$/,
+    handler: ({ state }) => state.permits,
+  },
+  {
+    method: "GET",
+    pattern: /^\/training$/,
+    handler: ({ state }) => state.training,
+  },
+  {
+    method: "GET",
+    pattern: /^\/requirement-views$/,
+    handler: ({ state }) =>
+      state.requirementViews
+        .filter((view) => view.visibility === "org" || view.owner_email === state.profile.user.email)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+  },
+  {
+    method: "POST",
+    pattern: /^\/requirement-views$/,
+    handler: ({ state, body }) => {
+      const payload = asRecord(body)
+      const name = validateViewName(state, payload.name)
+      const visibility = payload.visibility as ViewVisibility
+      if (!VIEW_VISIBILITIES.includes(visibility)) {
+        throw validationError([
+          { loc: ["body", "visibility"], msg: "Input should be 'personal' or 'org'", type: "enum", ctx: { expected: "'personal' or 'org'" } },
+        ])
+      }
+      const view: RequirementView = {
+        id: nextMockId("view"),
+        name,
+        query: typeof payload.query === "string" ? payload.query : "",
+        visibility,
+        is_default: false,
+        owner_email: state.profile.user.email,
+        created_at: new Date().toISOString(),
+      }
+      state.requirementViews.push(view)
+      setDefaultView(state, view, payload.is_default === true)
+      return view
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/requirement-views\/([^/]+)$/,
+    handler: ({ state, params, body }) => {
+      const view = findView(state, params[0])
+      const payload = asRecord(body)
+      if (payload.name !== undefined || payload.query !== undefined || payload.visibility !== undefined) {
+        assertViewOwner(state, view)
+      }
+      if (payload.name !== undefined) view.name = validateViewName(state, payload.name, view.id)
+      if (typeof payload.query === "string") view.query = payload.query
+      if (VIEW_VISIBILITIES.includes(payload.visibility as ViewVisibility)) {
+        view.visibility = payload.visibility as ViewVisibility
+      }
+      if (typeof payload.is_default === "boolean") setDefaultView(state, view, payload.is_default)
+      return view
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/requirement-views\/([^/]+)$/,
+    handler: ({ state, params }) => {
+      const view = findView(state, params[0])
+      assertViewOwner(state, view)
+      state.requirementViews = state.requirementViews.filter((item) => item.id !== view.id)
+      return undefined
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/reminders$/,
+    handler: ({ state, query }) => {
+      advanceReminders(state)
+      const subjectType = query("subject_type")
+      const subjectId = query("subject_id")
+      const includeCancelled = query("include_cancelled") === "true"
+      return state.reminders
+        .filter((reminder) => {
+          if (subjectType && reminder.subject_type !== subjectType) return false
+          if (subjectId && reminder.subject_id !== subjectId) return false
+          return includeCancelled || reminder.status !== "cancelled"
+        })
+        .sort((a, b) => a.send_at.localeCompare(b.send_at))
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/reminders$/,
+    handler: ({ state, body }) => {
+      const payload = asRecord(body)
+      const subjectType = payload.subject_type as ReminderSubjectType
+      const subjectId = payload.subject_id
+      if (!REMINDER_SUBJECTS.includes(subjectType) || typeof subjectId !== "string") {
+        throw new ApiError("A reminder subject is required", 422, { detail: "A reminder subject is required" })
+      }
+      const channel = payload.channel as ReminderChannel
+      if (!(REMINDER_CHANNELS as readonly string[]).includes(channel)) {
+        throw new ApiError("Unsupported reminder channel", 422, { detail: "Unsupported reminder channel" })
+      }
+      const recipients = Array.isArray(payload.recipients)
+        ? (payload.recipients as unknown[]).filter((value): value is string => typeof value === "string")
+        : []
+      if (recipients.length === 0 || recipients.some((recipient) => !isValidRecipient(recipient, channel))) {
+        throw new ApiError("Add at least one valid recipient", 422, { detail: "Add at least one valid recipient" })
+      }
+      const leadDays = Array.isArray(payload.lead_days)
+        ? Array.from(new Set((payload.lead_days as unknown[]).map(Number))).filter((value) => Number.isInteger(value) && value >= 0)
+        : []
+      if (leadDays.length === 0) {
+        throw new ApiError("Choose at least one lead time", 422, { detail: "Choose at least one lead time" })
+      }
+      const dueDate = subjectDueDate(state, subjectType, subjectId)
+      if (!dueDate) {
+        throw new ApiError("Set a due date before scheduling reminders", 422, {
+          detail: "Set a due date before scheduling reminders",
+        })
+      }
+
+      const now = new Date()
+      const created: Reminder[] = []
+      leadDays.forEach((lead) => {
+        const sendAt = reminderSendAt(dueDate, lead)
+        if (!sendAt || sendAt <= now) return
+        // Scheduling the same lead time and channel again updates the recipients.
+        const existing = state.reminders.find(
+          (reminder) =>
+            reminder.subject_type === subjectType &&
+            reminder.subject_id === subjectId &&
+            reminder.lead_days === lead &&
+            reminder.channel === channel &&
+            reminder.status === "scheduled",
+        )
+        if (existing) {
+          existing.recipients = recipients
+          created.push(existing)
+          return
+        }
+        const reminder: Reminder = {
+          id: nextMockId("reminder"),
+          subject_type: subjectType,
+          subject_id: subjectId,
+          due_date: dueDate,
+          lead_days: lead,
+          send_at: sendAt.toISOString(),
+          channel,
+          recipients,
+          status: "scheduled",
+          created_at: now.toISOString(),
+          created_by: state.profile.user.email,
+        }
+        state.reminders.push(reminder)
+        created.push(reminder)
+      })
+      if (created.length === 0) {
+        throw new ApiError("Every selected lead time is already in the past", 422, {
+          detail: "Every selected lead time is already in the past",
+        })
+      }
+      return created
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/reminders\/([^/]+)$/,
+    handler: ({ state, params }) => {
+      const reminder = state.reminders.find((item) => item.id === params[0])
+      if (!reminder) {
+        throw new ApiError("Reminder not found", 404, { detail: "Reminder not found" })
+      }
+      reminder.status = "cancelled"
+      return undefined
+    },
+  },
+]
+
 export async function mockApiFetch<T>(
   path: string,
   options: ApiFetchOptions = {},
@@ -30,77 +968,58 @@ export async function mockApiFetch<T>(
   const targetUrl = path.startsWith("http") ? new URL(path) : new URL(path, baseUrl)
   const pathname = normalizePath(targetUrl.pathname)
 
-  if (method === "GET") {
-    switch (pathname) {
-      case "/auth/me":
-        return clone(auth) as T
-      case "/documents":
-        return clone(documents) as T
-      case "/requirements":
-        {
-          const response = clone(requirements) as {
-            items: Array<Record<string, unknown>>
-            pagination: { page: number; limit: number; total: number }
-          }
+  if (getMockState().sessionExpired && !SIGN_IN_PATHS.test(pathname)) {
+    throw new ApiError("Not authenticated", 401, { detail: "Not authenticated" })
+  }
 
-          const search = options.searchParams ?? {}
-          const paramValue = (key: string): string | undefined => {
-            const value = (search as Record<string, string | number | boolean | undefined>)[key]
-            if (value !== undefined && value !== null) {
-              return String(value)
-            }
-            return targetUrl.searchParams.get(key) ?? undefined
-          }
+  const orgId = new Headers(options.headers).get(ORG_HEADER) ?? MOCK_DEFAULT_ORG_ID
+  if (!switchMockWorkspace(orgId)) {
+    throw new ApiError("Not a member of this organization", 403, { detail: "Not a member of this organization" })
+  }
+
+  for (const route of routes) {
+    if (route.method !== method) continue
+    const match = route.pattern.exec(pathname)
+    if (!match) continue
 
-          const limitParam = Math.max(
-            1,
-            Math.min(100, Number(paramValue("limit") ?? response.pagination.limit ?? 10)),
-          )
-          const requestedPage = Math.max(1, Number(paramValue("page") ?? response.pagination.page ?? 1))
-          const dueParam = paramValue("due")
-
-          const filtered = response.items.filter((item) => {
-            if (!dueParam) return true
-            const dueDate = (item as Record<string, unknown>).due_date as string | null | undefined
-            switch (dueParam) {
-              case "overdue":
-                return isOverdue(dueDate)
-              case "due7":
-                return isDueWithin(dueDate, 7)
-              case "due30":
-                return isDueWithin(dueDate, 30)
-              default:
-                return true
-            }
-          })
-
-          const total = filtered.length
-          const pageCount = Math.max(1, Math.ceil(total / limitParam))
-          const page = Math.min(requestedPage, pageCount)
-          const start = (page - 1) * limitParam
-          const pagedItems = filtered.slice(start, start + limitParam)
-
-          return {
-            items: pagedItems,
-            pagination: {
-              page,
-              limit: limitParam,
-              total,
-            },
-          } as T
+    const search = options.searchParams ?? {}
+    const result = route.handler({
+      params: match.slice(1).map((segment) => decodeURIComponent(segment)),
+      query: (key) => {
+        const value = search[key]
+        if (value !== undefined && value !== null) {
+          return String(value)
         }
-      case "/permits":
-        return clone(permits) as T
-      case "/training":
-        return clone(training) as T
-      default:
-        break
+        return targetUrl.searchParams.get(key) ?? undefined
+      },
+      body: parseBody(options.body),
+      state: getMockState(),
+    })
+    if (method !== "GET") {
+      persistMockState()
     }
-  }
-
-  if (method === "POST" && /^\/requirements\/[^/]+\/complete$/.test(pathname)) {
-    return clone(requirementComplete) as T
+    return clone(result) as T
   }
 
   throw new ApiError(`No mock implemented for ${method} ${pathname}`, 404, null)
 }
+
+/** Plays back upload progress in a few steps, then hands the form to the mock route. */
+export async function mockUpload<T>(
+  path: string,
+  body: FormData,
+  { onProgress, signal, orgId }: UploadOptions,
+  baseUrl: string,
+): Promise<T> {
+  for (let step = 1; step <= UPLOAD_STEPS; step += 1) {
+    if (signal?.aborted) {
+      throw new DOMException("Upload cancelled", "AbortError")
+    }
+    await new Promise((resolve) => setTimeout(resolve, UPLOAD_STEP_MS))
+    onProgress?.(step / UPLOAD_STEPS)
+  }
+  if (signal?.aborted) {
+    throw new DOMException("Upload cancelled", "AbortError")
+  }
+  return mockApiFetch<T>(path, { method: "POST", body, headers: orgHeaders(orgId) }, baseUrl)
+}
@@ -0,0 +1,30 @@
+/** A page of a list endpoint, as `/documents` and `/requirements` return it. */
+export type Paginated<T> = {
+  items: T[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+  }
+}
+
+/**
+ * Follows `pagination` from page 1 until every item is loaded, and returns
+ * them as one page. For views that must not be cut off at a page, such as
+ * the calendar and its export.
+ */
+export async function fetchAllPages<T>(fetchPage: (page: number) => Promise<Paginated<T>>): Promise<Paginated<T>> {
+  const first = await fetchPage(1)
+  const items = [...first.items]
+  // The backend may cap the page size below what was asked, so the page count comes from its answer.
+  const pageCount = Math.ceil(first.pagination.total / Math.max(1, first.pagination.limit))
+  for (let page = 2; page <= pageCount; page += 1) {
+    const next = await fetchPage(page)
+    if (next.items.length === 0) break
+    items.push(...next.items)
+  }
+  return {
+    items,
+    pagination: { page: 1, limit: Math.max(first.pagination.limit, items.length), total: first.pagination.total },
+  }
+}
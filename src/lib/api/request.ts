@@ -0,0 +1,145 @@
+import { validateResponse } from "@/lib/api/contracts"
+import { ApiError, ApiTimeoutError, errorFromResponse, isAbortError } from "@/lib/api/errors"
+import { mockApiFetch } from "@/lib/api/mock"
+import type { ApiFetchOptions } from "@/lib/api/types"
+import { API_TIMEOUT_MS, USE_MOCKS } from "@/lib/env"
+import { reportSessionExpired } from "@/lib/session"
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:8000"
+
+export const REQUEST_ID_HEADER = "X-Request-ID"
+/** Same key on every attempt of a mutation, so the backend applies it only once. */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key"
+
+const DEFAULT_GET_RETRIES = 2
+const BACKOFF_BASE_MS = 400
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"])
+
+export const buildApiUrl = (
+  path: string,
+  searchParams?: ApiFetchOptions["searchParams"],
+) => {
+  const url = new URL(path.startsWith("http") ? path : `${API_URL}${path}`)
+  if (searchParams) {
+    Object.entries(searchParams).forEach(([key, value]) => {
+      if (value === undefined || value === null) return
+      url.searchParams.set(key, String(value))
+    })
+  }
+  return url.toString()
+}
+
+export const createRequestId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+// Status 0 means no response arrived (network failure or timeout).
+const isRetryable = (error: unknown) => error instanceof ApiError && (error.status === 0 || error.status >= 500)
+
+const backoffDelay = (attempt: number) => BACKOFF_BASE_MS * 2 ** attempt * (0.75 + Math.random() * 0.5)
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Request cancelled", "AbortError"))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException("Request cancelled", "AbortError"))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+async function attempt(url: string, init: RequestInit, timeoutMs: number, requestId: string) {
+  const callerSignal = init.signal
+  const controller = new AbortController()
+  let timedOut = false
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeoutMs)
+      : null
+  const forwardAbort = () => controller.abort()
+  callerSignal?.addEventListener("abort", forwardAbort, { once: true })
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    if (!response.ok) {
+      const payload = await response.json().catch(() => undefined)
+      throw errorFromResponse(response.status, response.statusText, payload, requestId)
+    }
+    return response
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    if (timedOut) throw new ApiTimeoutError(requestId)
+    if (isAbortError(error) || callerSignal?.aborted) {
+      throw new DOMException("Request cancelled", "AbortError")
+    }
+    throw new ApiError("Network error", 0, undefined, requestId)
+  } finally {
+    if (timer) clearTimeout(timer)
+    callerSignal?.removeEventListener("abort", forwardAbort)
+  }
+}
+
+async function performRequest<T>(path: string, options: ApiFetchOptions): Promise<T> {
+  const { searchParams, timeoutMs = API_TIMEOUT_MS, retries, ...init } = options
+  const method = (init.method ?? "GET").toUpperCase()
+
+  if (USE_MOCKS) {
+    if (init.signal?.aborted) {
+      throw new DOMException("Request cancelled", "AbortError")
+    }
+    const data = await mockApiFetch<unknown>(path, { searchParams, method, body: init.body, headers: init.headers }, API_URL)
+    return validateResponse<T>(method, path, data)
+  }
+
+  const url = buildApiUrl(path, searchParams)
+  const headers = new Headers(init.headers)
+  const requestId = headers.get(REQUEST_ID_HEADER) ?? createRequestId()
+  headers.set(REQUEST_ID_HEADER, requestId)
+
+  const maxRetries = IDEMPOTENT_METHODS.has(method) ? (retries ?? DEFAULT_GET_RETRIES) : 0
+
+  for (let attemptIndex = 0; ; attemptIndex += 1) {
+    try {
+      const response = await attempt(url, { ...init, method, headers }, timeoutMs, requestId)
+      if (response.status === 204) {
+        return undefined as T
+      }
+      return validateResponse<T>(method, path, await response.json())
+    } catch (error) {
+      if (attemptIndex >= maxRetries || !isRetryable(error)) {
+        throw error
+      }
+      await sleep(backoffDelay(attemptIndex), init.signal)
+    }
+  }
+}
+
+/**
+ * The request pipeline behind apiFetch and serverApiFetch. Every attempt gets
+ * a timeout; GET and HEAD requests are retried with exponential backoff when
+ * the backend answers 5xx or never answers. All attempts share one
+ * `X-Request-ID` so backend logs can be matched to a client error. Aborting
+ * `signal` rejects with an AbortError instead of an ApiError. A 401 is
+ * reported as an expired session before it is rethrown.
+ */
+export async function apiRequest<T>(path: string, options: ApiFetchOptions = {}): Promise<T> {
+  try {
+    return await performRequest<T>(path, options)
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      reportSessionExpired()
+    }
+    throw error
+  }
+}
@@ -0,0 +1,193 @@
+import { z } from "zod"
+
+import type { DocumentRecord, DocumentsResponse } from "@/app/documents/documents-client"
+import type { Permit } from "@/app/permits/permits-client"
+import type { Requirement, RequirementFacets, RequirementsResponse } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import type { AuthMeResponse } from "@/hooks/useAuthedProfile"
+import type { DeviceSession } from "@/lib/account"
+import type { MagicLinkResponse, SignInResponse } from "@/lib/auth"
+import type { OrgMember } from "@/lib/members"
+import { parseAnchorType, parseFrequency } from "@/lib/recurrence"
+import { REMINDER_CHANNELS, type Reminder } from "@/lib/reminders"
+import type { RequirementView } from "@/lib/requirement-views"
+
+// Older backend builds omit optional fields instead of sending null; every
+// optional field is normalized to null so the UI only has one "empty" case.
+const nullable = <T extends z.ZodType>(schema: T) => schema.nullish().transform((value) => value ?? null)
+
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date")
+
+const optionalText = nullable(z.string())
+const optionalDate = nullable(isoDate)
+const upperToken = z.string().transform((value) => value.trim().toUpperCase())
+const attributes = z.record(z.string(), z.unknown())
+
+const paginated = <T extends z.ZodType>(item: T) =>
+  z.object({
+    items: z.array(item),
+    pagination: z.object({
+      page: z.number().int().positive(),
+      limit: z.number().int().positive(),
+      total: z.number().int().nonnegative(),
+    }),
+  })
+
+const orgSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  primary_trade: optionalText,
+})
+
+export const authMeSchema = z.object({
+  user: z.object({
+    email: z.string(),
+    preferred_locale: optionalText,
+  }),
+  org: orgSummarySchema,
+  orgs: z.array(orgSummarySchema).nullish().transform((value) => value ?? []),
+}) satisfies z.ZodType<AuthMeResponse>
+
+export const magicLinkSchema = z.object({
+  resend_after_seconds: nullable(z.number().int().nonnegative()),
+}) satisfies z.ZodType<MagicLinkResponse>
+
+export const signInSchema = z.object({
+  redirect_path: optionalText,
+}) satisfies z.ZodType<SignInResponse>
+
+export const deviceSessionSchema = z.object({
+  id: z.string(),
+  device: z.string(),
+  ip_address: optionalText,
+  location: optionalText,
+  created_at: isoDate,
+  last_seen_at: isoDate,
+  current: z.boolean(),
+}) satisfies z.ZodType<DeviceSession>
+
+export const documentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: upperToken.pipe(z.enum(["PROCESSING", "READY", "FAILED"])),
+  classification: nullable(
+    z.object({
+      label: z.string().transform((value) => value.trim().toLowerCase()),
+      confidence: nullable(z.number().min(0).max(1)),
+      source: optionalText,
+    }),
+  ),
+  storage_url: optionalText,
+  download_url: optionalText,
+  download_path: optionalText,
+  created_at: optionalDate,
+  extracted_at: optionalDate,
+  requirement_count: z.number().int().nonnegative().optional(),
+}) satisfies z.ZodType<DocumentRecord>
+
+export const documentsSchema = paginated(documentSchema) satisfies z.ZodType<DocumentsResponse>
+
+export const orgMemberSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: optionalText,
+  active: z.boolean(),
+}) satisfies z.ZodType<OrgMember>
+
+/** Frequencies and anchors arrive as "Monthly", "monthly" or "MONTHLY" depending on the extractor version. */
+export const requirementSchema = z.object({
+  id: z.string(),
+  document_id: optionalText,
+  document_name: optionalText,
+  title_en: z.string(),
+  title_es: z.string(),
+  description_en: z.string(),
+  description_es: z.string(),
+  category: optionalText,
+  frequency: nullable(z.string()).transform((value) => (value ? (parseFrequency(value) ?? value) : null)),
+  anchor_type: nullable(z.string()).transform((value) => (value ? (parseAnchorType(value) ?? value) : null)),
+  anchor_value: nullable(attributes),
+  due_date: optionalDate,
+  status: upperToken,
+  source_ref: optionalText,
+  source_excerpt: optionalText,
+  next_due: optionalDate,
+  archive_state: optionalText,
+  assignee: nullable(orgMemberSchema.pick({ email: true, name: true, active: true })),
+  attributes: attributes.optional(),
+}) satisfies z.ZodType<Requirement>
+
+export const requirementsSchema = paginated(requirementSchema) satisfies z.ZodType<RequirementsResponse>
+
+export const bulkTriageSchema = z.object({
+  items: z.array(requirementSchema),
+  updated: z.number().int().nonnegative(),
+})
+
+export const permitSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  permit_number: optionalText,
+  permit_type: optionalText,
+  jurisdiction: optionalText,
+  issued_at: optionalDate,
+  expires_at: optionalDate,
+  storage_url: optionalText,
+  download_url: optionalText,
+  download_path: optionalText,
+  created_at: optionalDate,
+}) satisfies z.ZodType<Permit>
+
+export const trainingCertSchema = z.object({
+  id: z.string(),
+  worker_name: z.string(),
+  certification_type: z.string(),
+  authority: optionalText,
+  issued_at: optionalDate,
+  expires_at: optionalDate,
+  storage_url: optionalText,
+  download_url: optionalText,
+  download_path: optionalText,
+  created_at: optionalDate,
+}) satisfies z.ZodType<TrainingCert>
+
+export const reminderSchema = z.object({
+  id: z.string(),
+  subject_type: z.enum(["requirement", "permit", "training"]),
+  subject_id: z.string(),
+  due_date: isoDate,
+  lead_days: z.number().int().nonnegative(),
+  send_at: isoDate,
+  channel: z.enum(REMINDER_CHANNELS),
+  recipients: z.array(z.string()),
+  status: z.enum(["scheduled", "sent", "cancelled"]),
+  created_at: isoDate,
+  created_by: optionalText,
+}) satisfies z.ZodType<Reminder>
+
+const facetBucketSchema = z.object({
+  value: optionalText,
+  label: optionalText,
+  count: z.number().int().nonnegative(),
+  overdue: z.number().int().nonnegative(),
+})
+
+export const requirementFacetsSchema = z.object({
+  categories: z.array(facetBucketSchema),
+  documents: z.array(facetBucketSchema),
+}) satisfies z.ZodType<RequirementFacets>
+
+export const requirementViewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  query: z.string(),
+  visibility: z.enum(["personal", "org"]),
+  is_default: z.boolean(),
+  owner_email: z.string(),
+  created_at: isoDate,
+}) satisfies z.ZodType<RequirementView>
+
+export const uploadAcceptedSchema = z.object({
+  id: z.string(),
+  status: upperToken,
+})
@@ -1,14 +1,26 @@
 import { cookies, headers } from "next/headers"
 
-import { API_URL, buildApiUrl } from "@/lib/api/client"
 import { ApiError } from "@/lib/api/errors"
-import { mockApiFetch } from "@/lib/api/mock"
+import { apiRequest } from "@/lib/api/request"
 import type { ApiFetchOptions } from "@/lib/api/types"
 import { USE_MOCKS } from "@/lib/env"
+import { ORG_COOKIE, ORG_HEADER } from "@/lib/org"
 
-type ServerApiFetchOptions = {
-  searchParams?: Record<string, string | number | boolean | undefined>
+/**
+ * In mock mode the store lives in the browser (sessionStorage), which a server
+ * render cannot see, so pages skip their prefetch and let the client fetch.
+ */
+export const SERVER_PREFETCH_ENABLED = !USE_MOCKS
+
+// A prefetch holds up the whole render, and the page fetches again in the
+// browser anyway, so server calls give up early and are not retried.
+const SERVER_TIMEOUT_MS = 5_000
+const SERVER_RETRIES = 0
+
+type ServerApiFetchOptions = Pick<ApiFetchOptions, "searchParams" | "timeoutMs" | "retries"> & {
   init?: RequestInit
+  /** Org to send instead of the org cookie's; null sends none, i.e. the user's default org. */
+  orgId?: string | null
 }
 
 const buildCookieHeader = async () => {
@@ -50,41 +62,54 @@ const buildForwardedHeaders = async (initHeaders: HeadersInit | undefined): Prom
   return result
 }
 
+// The org the browser last switched to, so the prefetch matches what the page then fetches.
+// Actions pass the org their page shows instead, which the cookie may no longer name.
+const withActiveOrg = async (initHeaders: HeadersInit | undefined, explicitOrgId?: string | null): Promise<Headers> => {
+  const result = new Headers(initHeaders ?? undefined)
+  if (explicitOrgId !== undefined) {
+    if (explicitOrgId && !result.has(ORG_HEADER)) result.set(ORG_HEADER, explicitOrgId)
+    return result
+  }
+  try {
+    const orgId = (await cookies()).get(ORG_COOKIE)?.value
+    if (orgId && !result.has(ORG_HEADER)) {
+      result.set(ORG_HEADER, orgId)
+    }
+  } catch {
+    // cookies() is only available in a request context.
+  }
+  return result
+}
+
 export async function serverApiFetch<T>(
   path: string,
-  { searchParams, init }: ServerApiFetchOptions = {},
+  { searchParams, init, orgId, timeoutMs = SERVER_TIMEOUT_MS, retries = SERVER_RETRIES }: ServerApiFetchOptions = {},
 ): Promise<T> {
-  if (USE_MOCKS) {
-    return mockApiFetch<T>(
-      path,
-      {
-        searchParams,
-        method: init?.method,
-        body: init?.body ?? undefined,
-      } as ApiFetchOptions,
-      API_URL,
-    )
-  }
-
-  const url = buildApiUrl(path, searchParams)
-  const headers = await buildForwardedHeaders(init?.headers)
-
-  const response = await fetch(url, {
+  return apiRequest<T>(path, {
     ...init,
-    headers,
+    searchParams,
+    timeoutMs,
+    retries,
+    headers: await withActiveOrg(USE_MOCKS ? init?.headers : await buildForwardedHeaders(init?.headers), orgId),
     credentials: "include",
     cache: "no-store",
   })
+}
 
-  if (!response.ok) {
-    const payload = await response.json().catch(() => undefined)
-    const message = (payload as { detail?: string } | undefined)?.detail ?? response.statusText
-    throw new ApiError(message || "Request failed", response.status, payload)
-  }
-
-  if (response.status === 204) {
-    return undefined as T
+/**
+ * Runs a prefetch the page can render without: any failure yields null and
+ * the client fetches again in the browser. Middleware already sent visitors
+ * without a session cookie to login, so a 401 here is an expired cookie that
+ * SessionProvider handles; only other failures are logged under `label`.
+ */
+export async function serverPrefetch<T>(label: string, load: () => Promise<T>): Promise<T | null> {
+  if (!SERVER_PREFETCH_ENABLED) return null
+  try {
+    return await load()
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 401)) {
+      console.warn(`[${label}] Prefetch failed`, error)
+    }
+    return null
   }
-
-  return (await response.json()) as T
 }
@@ -1,3 +1,15 @@
 export type ApiFetchOptions = RequestInit & {
   searchParams?: Record<string, string | number | boolean | undefined>
+  /** Per-attempt timeout in milliseconds; defaults to `NEXT_PUBLIC_API_TIMEOUT_MS`. */
+  timeoutMs?: number
+  /** Extra attempts after a 5xx or network failure. Only GET and HEAD are ever retried. */
+  retries?: number
+}
+
+export type UploadOptions = {
+  /** Called with the uploaded fraction, from 0 to 1. */
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+  /** Org to upload into; defaults to the active org. */
+  orgId?: string | null
 }
@@ -0,0 +1,84 @@
+/**
+ * Passwordless sign-in. The backend emails a magic link that also carries a
+ * six-digit code: the link signs in on /auth/callback, and the code is typed
+ * on the login page by people whose mail client mangles or pre-opens links.
+ * Either one can be used once before it expires.
+ */
+
+import { ApiError, apiFetch } from "@/lib/api/client"
+import type { Locale } from "@/lib/i18n"
+
+export type MagicLinkRequest = {
+  email: string
+  preferred_locale: Locale
+  /** Where to land after signing in; checked again with `safeRedirectPath` on the way back. */
+  redirect_path: string
+}
+
+export type MagicLinkResponse = {
+  /** Seconds before the backend accepts another link for the same email. */
+  resend_after_seconds: number | null
+}
+
+export type SignInResponse = {
+  redirect_path: string | null
+}
+
+export const LOGIN_CODE_LENGTH = 6
+export const DEFAULT_RESEND_COOLDOWN_SECONDS = 60
+
+export const requestMagicLink = (payload: MagicLinkRequest) =>
+  apiFetch<MagicLinkResponse>("/auth/magic-link", { method: "POST", body: JSON.stringify(payload) })
+
+export const redeemMagicLink = (token: string) =>
+  apiFetch<SignInResponse>("/auth/callback", { searchParams: { token }, retries: 0 })
+
+export const verifyLoginCode = (email: string, code: string) =>
+  apiFetch<SignInResponse>("/auth/verify-code", { method: "POST", body: JSON.stringify({ email, code }) })
+
+/**
+ * Why a link or code was refused: `expired` covers used ones too (the
+ * backend answers 410 for both), `invalid` is a mistyped code or a mangled
+ * link, and `unavailable` is anything worth simply retrying.
+ */
+export type SignInProblem = "expired" | "invalid" | "unavailable"
+
+export function signInProblem(error: unknown): SignInProblem {
+  if (error instanceof ApiError) {
+    if (error.status === 410) return "expired"
+    if (error.status === 400 || error.status === 404 || error.status === 422) return "invalid"
+  }
+  return "unavailable"
+}
+
+/** The wait the backend asked for after a 429, or the default one. */
+export function resendCooldownOf(error: unknown): number {
+  const payload = error instanceof ApiError ? (error.payload as { resend_after_seconds?: unknown } | undefined) : undefined
+  const seconds = payload?.resend_after_seconds
+  return typeof seconds === "number" && seconds > 0 ? seconds : DEFAULT_RESEND_COOLDOWN_SECONDS
+}
+
+const COOLDOWN_STORAGE_KEY = "compliance-copilot-login-cooldown"
+
+type StoredCooldown = { email: string; until: number }
+
+// Kept in sessionStorage so reloading the login page does not skip the wait.
+export function saveResendCooldown(email: string, seconds: number) {
+  try {
+    const stored: StoredCooldown = { email, until: Date.now() + seconds * 1000 }
+    window.sessionStorage.setItem(COOLDOWN_STORAGE_KEY, JSON.stringify(stored))
+  } catch {
+    // Without storage the cooldown only lasts until a reload; the backend still enforces it.
+  }
+}
+
+/** The email a link was last sent to and when another may be requested, if still waiting. */
+export function readResendCooldown(): StoredCooldown | null {
+  try {
+    const raw = window.sessionStorage.getItem(COOLDOWN_STORAGE_KEY)
+    const stored = raw ? (JSON.parse(raw) as StoredCooldown) : null
+    return stored && stored.until > Date.now() ? stored : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,169 @@
+import type { Permit } from "@/app/permits/permits-client"
+import type { Requirement } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import { isDueWithin, isOverdue } from "@/lib/dates"
+import type { Locale } from "@/lib/i18n"
+import { completionHistory, ruleFromRequirement, upcomingOccurrences } from "@/lib/recurrence"
+
+export type CalendarItemKind = "requirement" | "permit" | "training"
+export type CalendarTone = "overdue" | "soon" | "upcoming" | "done"
+
+export type CalendarItem = {
+  id: string
+  sourceId: string
+  kind: CalendarItemKind
+  title: string
+  subtitle?: string | null
+  /** UTC day key, `YYYY-MM-DD`. */
+  date: string
+  href: string
+  tone: CalendarTone
+  /** True for future cycles of a recurring requirement that are not due yet. */
+  projected?: boolean
+}
+
+// Requirements use the 7-day window of the requirements alerts column; permits
+// and certs use the 30-day "expiring soon" window of their own tables.
+const SOON_WINDOW_DAYS: Record<CalendarItemKind, number> = {
+  requirement: 7,
+  permit: 30,
+  training: 30,
+}
+
+// Recurring series are projected to the end of the visible range; this only
+// guards against a daily series that has been overdue for years.
+const MAX_PROJECTED_OCCURRENCES = 1_000
+
+/** Page size the calendar loads requirements in; every page is loaded (`fetchAllPages`). */
+export const CALENDAR_REQUIREMENT_LIMIT = 100
+
+export const toDayKey = (value: string | Date) => {
+  const date = value instanceof Date ? value : new Date(value)
+  return date.toISOString().slice(0, 10)
+}
+
+export const fromDayKey = (key: string) => new Date(`${key}T00:00:00Z`)
+
+export function toneFor(date: string, kind: CalendarItemKind, done = false): CalendarTone {
+  if (done) return "done"
+  if (isOverdue(date)) return "overdue"
+  if (isDueWithin(date, SOON_WINDOW_DAYS[kind])) return "soon"
+  return "upcoming"
+}
+
+type CalendarSources = {
+  requirements?: Requirement[] | null
+  permits?: Permit[] | null
+  training?: TrainingCert[] | null
+  locale: Locale
+  /** Recurring requirements are projected forward up to this day key. */
+  projectUntil?: string
+}
+
+export function buildCalendarItems({ requirements, permits, training, locale, projectUntil }: CalendarSources): CalendarItem[] {
+  const items: CalendarItem[] = []
+
+  requirements?.forEach((requirement) => {
+    if (requirement.archive_state === "archived") return
+    const title = locale === "es" ? requirement.title_es : requirement.title_en
+    const done = requirement.status === "DONE"
+    const href = `/requirements/${requirement.id}`
+    const rule = ruleFromRequirement(requirement)
+    const projected = rule && projectUntil && !done
+      ? upcomingOccurrences(rule, {
+          count: MAX_PROJECTED_OCCURRENCES,
+          until: fromDayKey(projectUntil),
+          completions: completionHistory(requirement),
+        }).map((date) => toDayKey(date))
+      : []
+    const dates = projected.length > 0 ? projected : requirement.due_date ? [toDayKey(requirement.due_date)] : []
+
+    dates.forEach((date, index) => {
+      items.push({
+        id: `requirement:${requirement.id}:${date}`,
+        sourceId: requirement.id,
+        kind: "requirement",
+        title,
+        subtitle: requirement.document_name ?? requirement.category ?? null,
+        date,
+        href,
+        tone: toneFor(date, "requirement", done),
+        projected: index > 0,
+      })
+    })
+  })
+
+  permits?.forEach((permit) => {
+    if (!permit.expires_at) return
+    const date = toDayKey(permit.expires_at)
+    items.push({
+      id: `permit:${permit.id}`,
+      sourceId: permit.id,
+      kind: "permit",
+      title: permit.name,
+      subtitle: [permit.permit_type, permit.permit_number].filter(Boolean).join(" · ") || null,
+      date,
+      href: "/permits",
+      tone: toneFor(date, "permit"),
+    })
+  })
+
+  training?.forEach((cert) => {
+    if (!cert.expires_at) return
+    const date = toDayKey(cert.expires_at)
+    items.push({
+      id: `training:${cert.id}`,
+      sourceId: cert.id,
+      kind: "training",
+      title: `${cert.worker_name} · ${cert.certification_type}`,
+      subtitle: cert.authority ?? null,
+      date,
+      href: "/training",
+      tone: toneFor(date, "training"),
+    })
+  })
+
+  return items.sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title))
+}
+
+export function groupByDay(items: CalendarItem[]): Map<string, CalendarItem[]> {
+  const grouped = new Map<string, CalendarItem[]>()
+  items.forEach((item) => {
+    const bucket = grouped.get(item.date)
+    if (bucket) {
+      bucket.push(item)
+    } else {
+      grouped.set(item.date, [item])
+    }
+  })
+  return grouped
+}
+
+/** Weeks start on Sunday for English and Monday for Spanish (es-MX). */
+export const weekStartsOn = (locale: Locale) => (locale === "es" ? 1 : 0)
+
+export function startOfWeek(date: Date, locale: Locale) {
+  const offset = (date.getUTCDay() - weekStartsOn(locale) + 7) % 7
+  return addDays(date, -offset)
+}
+
+export const addDays = (date: Date, days: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days))
+
+export const addMonths = (date: Date, months: number) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1))
+
+export const startOfMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+
+/** Six rows of seven days covering the month, padded with neighbouring days. */
+export function monthGrid(anchor: Date, locale: Locale): Date[][] {
+  const first = startOfWeek(startOfMonth(anchor), locale)
+  return Array.from({ length: 6 }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(first, week * 7 + day)),
+  )
+}
+
+export function weekDays(anchor: Date, locale: Locale): Date[] {
+  const first = startOfWeek(anchor, locale)
+  return Array.from({ length: 7 }, (_, day) => addDays(first, day))
+}
@@ -0,0 +1,55 @@
+import { isDueWithin, isOverdue } from "@/lib/dates"
+
+type QueryParams = Record<string, string | number | boolean | undefined>
+
+export type RequirementTileKey = "overdue" | "due7" | "due30" | "triage"
+
+const ACTIVE_STATUSES = "OPEN,REVIEW"
+
+/**
+ * Each requirement tile is a one-row page of the filtered list; the count is
+ * read from `pagination.total` and the link opens the same filter.
+ */
+export const REQUIREMENT_TILES: Record<RequirementTileKey, { params: QueryParams; href: string }> = {
+  overdue: {
+    params: { due: "overdue", status: ACTIVE_STATUSES },
+    href: `/requirements?due=overdue&status=${ACTIVE_STATUSES}`,
+  },
+  due7: {
+    params: { due: "due7", status: ACTIVE_STATUSES },
+    href: `/requirements?due=due7&status=${ACTIVE_STATUSES}`,
+  },
+  due30: {
+    params: { due: "due30", status: ACTIVE_STATUSES },
+    href: `/requirements?due=due30&status=${ACTIVE_STATUSES}`,
+  },
+  triage: {
+    params: { status: "PENDING_REVIEW" },
+    href: "/requirements?status=PENDING_REVIEW",
+  },
+}
+
+export const REQUIREMENT_TILE_KEYS = Object.keys(REQUIREMENT_TILES) as RequirementTileKey[]
+
+export const tileQuery = (key: RequirementTileKey): QueryParams => ({ page: 1, limit: 1, ...REQUIREMENT_TILES[key].params })
+
+export const DOCUMENT_ATTENTION_STATUSES = "PROCESSING,FAILED"
+
+export const DOCUMENT_ATTENTION_QUERY: QueryParams = { page: 1, limit: 5, status: DOCUMENT_ATTENTION_STATUSES }
+
+export const DOCUMENT_ATTENTION_HREF = `/documents?status=${DOCUMENT_ATTENTION_STATUSES}`
+
+/** Permits and certs use the same 30-day window as their tables' "expiring soon" badge. */
+export const EXPIRING_WINDOW_DAYS = 30
+
+export function countExpirations(items: { expires_at?: string | null }[] | null | undefined) {
+  const result = { expired: 0, expiring: 0 }
+  items?.forEach((item) => {
+    if (isOverdue(item.expires_at)) {
+      result.expired += 1
+    } else if (isDueWithin(item.expires_at, EXPIRING_WINDOW_DAYS)) {
+      result.expiring += 1
+    }
+  })
+  return result
+}
@@ -42,3 +42,11 @@ export function isDueWithin(value: string | null | undefined, days: number) {
   if (typeof remaining !== "number") return false
   return remaining >= 0 && remaining <= days
 }
+
+/** Date and time in the viewer's time zone, for timestamps such as "last active". */
+export function formatDateTime(value: string | null | undefined, locale: Locale) {
+  if (!value) return "—"
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return "—"
+  return new Intl.DateTimeFormat(locale === "es" ? "es-MX" : "en-US", { dateStyle: "medium", timeStyle: "short" }).format(date)
+}
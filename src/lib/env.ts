@@ -1,3 +1,15 @@
 const TRUE_VALUES = new Set(["1", "true", "yes", "on"])
+const FALSE_VALUES = new Set(["0", "false", "no", "off"])
 
 export const USE_MOCKS = TRUE_VALUES.has((process.env.NEXT_PUBLIC_USE_MOCKS ?? "").toLowerCase())
+
+const timeoutSetting = Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS || Number.NaN)
+
+/** Per-attempt API timeout in milliseconds; 0 disables it. */
+export const API_TIMEOUT_MS = Number.isFinite(timeoutSetting) && timeoutSetting >= 0 ? timeoutSetting : 15_000
+
+/** Server-pushed updates; set NEXT_PUBLIC_REALTIME=0 to rely on polling alone. */
+export const REALTIME_ENABLED = !FALSE_VALUES.has((process.env.NEXT_PUBLIC_REALTIME ?? "").toLowerCase())
+
+/** Cookie the backend sets at login; the middleware only checks that it is present. */
+export const SESSION_COOKIE_NAME = process.env.SESSION_COOKIE_NAME ?? "session"
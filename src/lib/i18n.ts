@@ -24,10 +24,11 @@ if (!i18n.isInitialized) {
   })
 }
 
-export const changeLanguage = (locale: Locale) => {
-  if (i18n.language !== locale) {
-    void i18n.changeLanguage(locale)
-  }
-}
+/**
+ * An instance already set to `locale`, so the first render (server and
+ * client) is in the right language. It shares the loaded resources but not
+ * the language, which keeps concurrent server renders from affecting each other.
+ */
+export const createI18nInstance = (locale: Locale) => i18n.cloneInstance({ lng: locale })
 
 export default i18n
@@ -0,0 +1,234 @@
+import type { Permit } from "@/app/permits/permits-client"
+import type { Requirement } from "@/app/requirements/requirements-client"
+import type { TrainingCert } from "@/app/training/training-client"
+import type { Locale } from "@/lib/i18n"
+import {
+  completionHistory,
+  isRecurring,
+  ruleFromRequirement,
+  stepFor,
+  upcomingOccurrences,
+  type RecurrenceRule,
+} from "@/lib/recurrence"
+import en from "@/locales/en.json"
+import es from "@/locales/es.json"
+
+const PRODUCT_ID = "-//Compliance Copilot//Compliance Calendar//EN"
+const UID_DOMAIN = "compliance-copilot"
+const MAX_LINE_OCTETS = 75
+const CRLF = "\r\n"
+
+export type IcsComponent = "event" | "todo"
+
+type IcsOptions = {
+  requirements?: Requirement[] | null
+  permits?: Permit[] | null
+  training?: TrainingCert[] | null
+  locale: Locale
+  orgName?: string | null
+  /** Absolute origin used for the URL property, e.g. `https://app.example.com`. */
+  baseUrl?: string
+  /** Requirements become VEVENTs by default; `todo` emits VTODOs for task-oriented clients. */
+  component?: IcsComponent
+  now?: Date
+}
+
+const LABELS: Record<Locale, typeof en.ics> = {
+  en: en.ics,
+  es: es.ics,
+}
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] ?? "")
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+const toUtcDay = (value: string | Date) => {
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+const formatDateValue = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+
+const formatTimestamp = (date: Date) =>
+  `${formatDateValue(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+
+const nextDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+const encoder = new TextEncoder()
+
+/** Folds a content line at 75 octets (RFC 5545 §3.1) without splitting UTF-8 sequences. */
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+  const parts: string[] = []
+  let current = ""
+  let currentOctets = 0
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ""
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  }
+  parts.push(current)
+  return parts.join(`${CRLF} `)
+}
+
+/**
+ * RRULE for a recurrence rule starting at `occurrences[0]`. Month-based series
+ * past the 28th use BYSETPOS so short months clamp to their last day, matching
+ * the in-app schedule instead of skipping those months.
+ */
+export function rruleFor(rule: RecurrenceRule, occurrences: Date[]): string | null {
+  if (!isRecurring(rule.frequency) || occurrences.length === 0) return null
+  const step = stepFor(rule.frequency, rule.interval)
+  if (!step) return null
+
+  if (step.unit === "day") {
+    const weekly = step.amount % 7 === 0
+    const freq = weekly ? "WEEKLY" : "DAILY"
+    const interval = weekly ? step.amount / 7 : step.amount
+    return interval > 1 ? `FREQ=${freq};INTERVAL=${interval}` : `FREQ=${freq}`
+  }
+
+  const yearly = step.amount % 12 === 0
+  const parts = [yearly ? "FREQ=YEARLY" : "FREQ=MONTHLY"]
+  const interval = yearly ? step.amount / 12 : step.amount
+  if (interval > 1) parts.push(`INTERVAL=${interval}`)
+  const dayOfMonth = Math.max(...occurrences.map((date) => date.getUTCDate()))
+  if (dayOfMonth > 28) {
+    if (yearly) parts.push(`BYMONTH=${occurrences[0].getUTCMonth() + 1}`)
+    const days = Array.from({ length: dayOfMonth - 27 }, (_, index) => 28 + index)
+    parts.push(`BYMONTHDAY=${days.join(",")}`, "BYSETPOS=-1")
+  }
+  return parts.join(";")
+}
+
+type Entry = {
+  component: "VEVENT" | "VTODO"
+  uid: string
+  date: Date
+  summary: string
+  description?: string | null
+  url?: string | null
+  categories?: string[]
+  rrule?: string | null
+  sequence?: number
+  completed?: boolean
+}
+
+const renderEntry = (entry: Entry, stamp: string): string[] => {
+  const lines = [`BEGIN:${entry.component}`, `UID:${entry.uid}`, `DTSTAMP:${stamp}`]
+  const day = formatDateValue(entry.date)
+  if (entry.component === "VEVENT") {
+    lines.push(`DTSTART;VALUE=DATE:${day}`, `DTEND;VALUE=DATE:${formatDateValue(nextDay(entry.date))}`, "TRANSP:TRANSPARENT")
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${day}`, `DUE;VALUE=DATE:${day}`)
+    lines.push(entry.completed ? "STATUS:COMPLETED" : "STATUS:NEEDS-ACTION")
+  }
+  if (entry.rrule) lines.push(`RRULE:${entry.rrule}`)
+  if (entry.sequence) lines.push(`SEQUENCE:${entry.sequence}`)
+  lines.push(`SUMMARY:${escapeText(entry.summary)}`)
+  if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`)
+  if (entry.categories?.length) lines.push(`CATEGORIES:${entry.categories.map(escapeText).join(",")}`)
+  if (entry.url) lines.push(`URL:${entry.url}`)
+  lines.push(`END:${entry.component}`)
+  return lines
+}
+
+export function buildIcsCalendar({
+  requirements,
+  permits,
+  training,
+  locale,
+  orgName,
+  baseUrl,
+  component = "event",
+  now = new Date(),
+}: IcsOptions): string {
+  const labels = LABELS[locale]
+  const stamp = formatTimestamp(now)
+  const link = (path: string) => (baseUrl ? `${baseUrl.replace(/\/$/, "")}${path}` : null)
+  const entries: Entry[] = []
+
+  requirements?.forEach((requirement) => {
+    if (requirement.archive_state === "archived") return
+    const done = requirement.status === "DONE"
+    if (done && component === "event") return
+
+    const completions = completionHistory(requirement)
+    const rule = ruleFromRequirement(requirement)
+    const occurrences = rule ? upcomingOccurrences(rule, { count: 3, completions, today: now }) : []
+    const start = occurrences[0] ?? (requirement.due_date ? toUtcDay(requirement.due_date) : null)
+    if (!start) return
+
+    const title = locale === "es" ? requirement.title_es : requirement.title_en
+    const description = locale === "es" ? requirement.description_es : requirement.description_en
+    const source = requirement.document_name ? fill(labels.source, { name: requirement.document_name }) : null
+
+    entries.push({
+      component: component === "todo" ? "VTODO" : "VEVENT",
+      uid: `requirement-${requirement.id}@${UID_DOMAIN}`,
+      date: start,
+      summary: title,
+      description: [description, source].filter(Boolean).join("\n\n"),
+      url: link(`/requirements/${requirement.id}`),
+      categories: [labels.requirement, requirement.category].filter((value): value is string => Boolean(value)),
+      rrule: rule && !done ? rruleFor(rule, occurrences) : null,
+      // Each completion moves DTSTART forward; bumping SEQUENCE lets clients
+      // replace the earlier copy of the same UID on re-import.
+      sequence: completions.length,
+      completed: done,
+    })
+  })
+
+  permits?.forEach((permit) => {
+    const date = permit.expires_at ? toUtcDay(permit.expires_at) : null
+    if (!date) return
+    entries.push({
+      component: "VEVENT",
+      uid: `permit-${permit.id}@${UID_DOMAIN}`,
+      date,
+      summary: fill(labels.permitExpires, { name: permit.name }),
+      description: [permit.permit_type, permit.permit_number, permit.jurisdiction].filter(Boolean).join(" · ") || null,
+      url: link("/permits"),
+      categories: [labels.permit],
+    })
+  })
+
+  training?.forEach((cert) => {
+    const date = cert.expires_at ? toUtcDay(cert.expires_at) : null
+    if (!date) return
+    entries.push({
+      component: "VEVENT",
+      uid: `training-${cert.id}@${UID_DOMAIN}`,
+      date,
+      summary: fill(labels.certExpires, { worker: cert.worker_name, certification: cert.certification_type }),
+      description: cert.authority ?? null,
+      url: link("/training"),
+      categories: [labels.training],
+    })
+  })
+
+  const calendarName = orgName ? `${labels.calendarName} · ${orgName}` : labels.calendarName
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...entries.flatMap((entry) => renderEntry(entry, stamp)),
+    "END:VCALENDAR",
+  ]
+  return lines.map(foldLine).join(CRLF) + CRLF
+}
@@ -2,3 +2,28 @@ import type { Locale } from "@/lib/i18n"
 
 export const normalizeLocale = (value: string | null | undefined): Locale =>
   value && value.toLowerCase().startsWith("es") ? "es" : "en"
+
+/** Set by the middleware on first visit and whenever the user switches language. */
+export const LOCALE_COOKIE = "cc-locale"
+export const LOCALE_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365
+
+const SUPPORTED_LOCALES: Locale[] = ["en", "es"]
+
+export const isSupportedLocale = (value: string | null | undefined): value is Locale =>
+  SUPPORTED_LOCALES.includes(value as Locale)
+
+/** Picks the supported language the browser ranks highest in `Accept-Language`. */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((entry, index) => {
+      const [tag, ...params] = entry.trim().split(";")
+      const quality = params.map((param) => param.trim()).find((param) => param.startsWith("q="))
+      const weight = quality ? Number.parseFloat(quality.slice(2)) : 1
+      return { language: tag.trim().toLowerCase().split("-")[0], weight: Number.isNaN(weight) ? 0 : weight, index }
+    })
+    .filter((entry) => entry.weight > 0)
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+  const match = ranked.find((entry) => isSupportedLocale(entry.language))
+  return match ? (match.language as Locale) : "en"
+}
@@ -0,0 +1,37 @@
+/**
+ * The org's member directory, used to pick assignees. Deactivated members
+ * stay in the directory so existing assignments still show who they were,
+ * but the backend refuses to give them new work.
+ */
+
+import type { Requirement } from "@/app/requirements/requirements-client"
+
+export type OrgMember = {
+  id: string
+  email: string
+  name: string | null
+  active: boolean
+}
+
+/** A requirement's assignee as the backend resolves it against the directory. */
+export type Assignee = Pick<OrgMember, "email" | "name" | "active">
+
+export const MEMBERS_PATH = "/org/members"
+
+/** `assignee` value for the "Assigned to me" filter; the backend resolves it to the signed-in user. */
+export const ASSIGNED_TO_ME = "me"
+
+export const memberLabel = (member: Pick<OrgMember, "email" | "name">) => member.name || member.email
+
+/**
+ * The requirement's assignee. Older backends only kept the email the triage
+ * form sent, under `attributes`; those are taken as active.
+ */
+export function assigneeOf(requirement: Requirement): Assignee | null {
+  if (requirement.assignee) return requirement.assignee
+  const attributes = (requirement.attributes ?? {}) as Record<string, unknown>
+  const triage = (attributes.triage ?? {}) as Record<string, unknown>
+  const email =
+    typeof attributes.assignee === "string" ? attributes.assignee : typeof triage.assignee === "string" ? triage.assignee : null
+  return email ? { email, name: null, active: true } : null
+}
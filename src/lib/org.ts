@@ -0,0 +1,28 @@
+/**
+ * Active organization. Users can belong to several orgs; the one they work in
+ * is kept in a cookie so the server renders the same org as the browser and
+ * the next visit starts where they left off. Every API call names it in the
+ * `X-Org-ID` header; without one the backend uses the user's default org.
+ */
+
+/** Set when the user switches org; read by the root layout and `serverApiFetch`. */
+export const ORG_COOKIE = "cc-org"
+export const ORG_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365
+export const ORG_HEADER = "X-Org-ID"
+
+export function rememberActiveOrg(orgId: string) {
+  document.cookie = `${ORG_COOKIE}=${encodeURIComponent(orgId)}; path=/; max-age=${ORG_COOKIE_MAX_AGE_SECONDS}; samesite=lax`
+}
+
+/** Back to the default org, e.g. on sign-out so the next user of the browser starts there. */
+export function forgetActiveOrg() {
+  document.cookie = `${ORG_COOKIE}=; path=/; max-age=0; samesite=lax`
+}
+
+/**
+ * Headers that pin a request to `orgId`; none means the user's default org.
+ * Browser calls take the org from OrgProvider, never the cookie, which
+ * another tab may have switched since this page rendered.
+ */
+export const orgHeaders = (orgId: string | null | undefined): Record<string, string> | undefined =>
+  orgId ? { [ORG_HEADER]: orgId } : undefined
@@ -0,0 +1,118 @@
+/**
+ * Offline outbox. Mutations made without a connection are stored in
+ * IndexedDB in the order they were made and replayed by OutboxProvider once
+ * the browser is back online. The same database keeps the last response of
+ * selected GET requests so lists stay readable while offline.
+ */
+
+import { ApiError, ApiTimeoutError } from "@/lib/api/errors"
+import { createRequestId } from "@/lib/api/request"
+
+export type OutboxKind = "complete" | "triage" | "archive"
+
+export type OutboxMutation = {
+  kind: OutboxKind
+  path: string
+  method: "POST" | "PATCH"
+  /** JSON request body, stored as sent. */
+  body: string
+  /** Requirements that show as "pending sync" until the mutation is replayed. */
+  requirementIds: string[]
+  /** Human-readable subject, used when reporting a conflict. */
+  label: string
+}
+
+export type OutboxEntry = OutboxMutation & {
+  /** Auto-incremented, so entries replay in the order they were queued. */
+  id: number
+  queuedAt: string
+  /** Org the change was made in; it is replayed there even after a switch. */
+  orgId?: string | null
+  /** Sent as `Idempotency-Key` on the first attempt and every replay; missing on entries queued before it existed. */
+  idempotencyKey?: string
+}
+
+export type OutboxConflict = {
+  entry: OutboxEntry
+  status: number
+  message: string
+}
+
+export type CachedResponse<T> = {
+  data: T
+  savedAt: string
+}
+
+const DB_NAME = "compliance-copilot-outbox"
+const MUTATIONS_STORE = "mutations"
+const RESPONSES_STORE = "responses"
+
+/** No response arrived at all; anything else is an answer from the backend. */
+export const isNetworkFailure = (error: unknown) => error instanceof ApiError && error.status === 0
+
+export const isBrowserOffline = () => typeof navigator !== "undefined" && navigator.onLine === false
+
+/**
+ * The request never reached the backend, so it is safe to queue and send
+ * again later. A timeout does not count: the backend may have applied it.
+ */
+export const wasNeverSent = (error: unknown) =>
+  isBrowserOffline() || (isNetworkFailure(error) && !(error instanceof ApiTimeoutError))
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(MUTATIONS_STORE, { keyPath: "id", autoIncrement: true })
+      request.result.createObjectStore(RESPONSES_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function enqueueMutation(
+  mutation: OutboxMutation,
+  orgId: string | null,
+  idempotencyKey = createRequestId(),
+): Promise<OutboxEntry> {
+  const queued = { ...mutation, orgId, idempotencyKey, queuedAt: new Date().toISOString() }
+  const id = await withStore(MUTATIONS_STORE, "readwrite", (store) => store.add(queued) as IDBRequest<number>)
+  return { ...queued, id }
+}
+
+/** Queued mutations, oldest first. */
+export const listMutations = () =>
+  withStore<OutboxEntry[]>(MUTATIONS_STORE, "readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>)
+
+export const removeMutation = (id: number) => withStore(MUTATIONS_STORE, "readwrite", (store) => store.delete(id))
+
+export const saveCachedResponse = (key: string, data: unknown) =>
+  withStore(RESPONSES_STORE, "readwrite", (store) =>
+    store.put({ data, savedAt: new Date().toISOString() } satisfies CachedResponse<unknown>, key),
+  )
+
+export const loadCachedResponse = <T>(key: string) =>
+  withStore<CachedResponse<T> | undefined>(
+    RESPONSES_STORE,
+    "readonly",
+    (store) => store.get(key) as IDBRequest<CachedResponse<T> | undefined>,
+  )
+
+/** Drops queued mutations and cached responses, e.g. when the user signs out. */
+export async function clearOutbox() {
+  await withStore(MUTATIONS_STORE, "readwrite", (store) => store.clear())
+  await withStore(RESPONSES_STORE, "readwrite", (store) => store.clear())
+}
@@ -0,0 +1,128 @@
+/**
+ * Live updates. The backend pushes a server-sent event whenever a document
+ * changes status or a requirement is created or updated; RealtimeProvider
+ * turns each one into a revalidation of the cached responses it affects.
+ * With mocks on, the events come from the in-browser mock backend instead.
+ */
+
+import { FACETS_PATH } from "@/app/requirements/list-query"
+import { advanceMockProcessing } from "@/lib/api/mock"
+import { subscribeMockEvents } from "@/lib/api/mock-events"
+import { buildApiUrl } from "@/lib/api/request"
+import { USE_MOCKS } from "@/lib/env"
+
+export type RealtimeEvent =
+  | { type: "document.updated"; id: string; status?: string | null }
+  | { type: "requirement.updated"; id: string }
+  | { type: "requirement.created"; id: string; document_id?: string | null }
+
+export type RealtimeEventType = RealtimeEvent["type"]
+
+export const REALTIME_PATH = "/events"
+
+const EVENT_TYPES: RealtimeEventType[] = ["document.updated", "requirement.updated", "requirement.created"]
+
+/**
+ * Paths the backend pushes changes for; polling them is only a fallback.
+ * Anything under them stops polling too, so `stalePaths` must cover it.
+ */
+const LIVE_PATHS = ["/documents", "/requirements"]
+
+const RECONNECT_BASE_MS = 1_000
+const RECONNECT_MAX_MS = 30_000
+const MOCK_TICK_MS = 1_000
+
+export const isLivePath = (path: string) =>
+  LIVE_PATHS.some((prefix) => path === prefix || path.startsWith(`${prefix}/`))
+
+const stalePaths = (event: RealtimeEvent) => {
+  switch (event.type) {
+    case "document.updated":
+      return ["/documents", `/documents/${event.id}`]
+    case "requirement.updated":
+      return ["/requirements", FACETS_PATH, `/requirements/${event.id}`, "/reminders"]
+    case "requirement.created":
+      return [
+        "/requirements",
+        FACETS_PATH,
+        "/documents",
+        ...(event.document_id ? [`/documents/${event.document_id}`] : []),
+      ]
+  }
+}
+
+/** SWR key filter for the cached responses a batch of events makes stale. */
+export function affectedBy(events: RealtimeEvent[]) {
+  const paths = new Set(events.flatMap(stalePaths))
+  return (key: unknown) => Array.isArray(key) && typeof key[0] === "string" && paths.has(key[0])
+}
+
+export function parseRealtimeEvent(type: string, data: string): RealtimeEvent | null {
+  if (!EVENT_TYPES.includes(type as RealtimeEventType)) return null
+  try {
+    const payload = JSON.parse(data) as Record<string, unknown> | null
+    if (!payload || typeof payload.id !== "string") return null
+    return { ...payload, type } as RealtimeEvent
+  } catch {
+    return null
+  }
+}
+
+type ChannelOptions = {
+  /** EventSource cannot send headers, so the org goes in the query string. */
+  orgId: string | null
+  onEvent: (event: RealtimeEvent) => void
+  onStatusChange: (connected: boolean) => void
+}
+
+/**
+ * Opens the event stream and returns a function that closes it. EventSource
+ * retries dropped connections on its own; a stream the browser gave up on
+ * (e.g. the endpoint answered 5xx) is reopened with exponential backoff.
+ */
+export function openRealtimeChannel({ orgId, onEvent, onStatusChange }: ChannelOptions): () => void {
+  if (USE_MOCKS) {
+    const unsubscribe = subscribeMockEvents(onEvent)
+    const timer = setInterval(advanceMockProcessing, MOCK_TICK_MS)
+    onStatusChange(true)
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+    }
+  }
+
+  let source: EventSource | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let attempt = 0
+  let closed = false
+
+  const connect = () => {
+    const current = new EventSource(buildApiUrl(REALTIME_PATH, { org_id: orgId ?? undefined }), {
+      withCredentials: true,
+    })
+    source = current
+    current.onopen = () => {
+      attempt = 0
+      onStatusChange(true)
+    }
+    current.onerror = () => {
+      onStatusChange(false)
+      if (closed || current.readyState !== EventSource.CLOSED) return
+      retryTimer = setTimeout(connect, Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt))
+      attempt += 1
+    }
+    EVENT_TYPES.forEach((type) =>
+      current.addEventListener(type, (message) => {
+        const event = parseRealtimeEvent(type, (message as MessageEvent<string>).data)
+        if (event) onEvent(event)
+      }),
+    )
+  }
+
+  connect()
+  return () => {
+    closed = true
+    if (retryTimer) clearTimeout(retryTimer)
+    source?.close()
+  }
+}
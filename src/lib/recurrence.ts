@@ -0,0 +1,274 @@
+export const FREQUENCIES = [
+  "BEFORE_EACH_USE",
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "QUARTERLY",
+  "ANNUAL",
+  "EVERY_N_DAYS",
+  "EVERY_N_WEEKS",
+  "EVERY_N_MONTHS",
+  "ONE_TIME",
+] as const
+
+export const ANCHOR_TYPES = [
+  "UPLOAD_DATE",
+  "ISSUE_DATE",
+  "CALENDAR",
+  "FIRST_COMPLETION",
+  "CUSTOM_DATE",
+] as const
+
+export type Frequency = (typeof FREQUENCIES)[number]
+export type AnchorType = (typeof ANCHOR_TYPES)[number]
+
+export type RecurrenceRule = {
+  frequency: Frequency
+  anchorType?: AnchorType | null
+  /** ISO date the anchor refers to (issue date, upload date, custom start). */
+  anchorDate?: string | null
+  /** Required for the EVERY_N_* frequencies. */
+  interval?: number | null
+  /** The currently pending occurrence, if one has been set. */
+  dueDate?: string | null
+}
+
+type Step = { unit: "day" | "month"; amount: number }
+
+type RequirementLike = {
+  frequency?: string | null
+  anchor_type?: string | null
+  anchor_value?: Record<string, unknown> | null
+  due_date?: string | null
+  attributes?: Record<string, unknown>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const normalizeToken = (value: string) => value.trim().toUpperCase().replace(/[\s-]+/g, "_")
+
+export function parseFrequency(value: string | null | undefined): Frequency | null {
+  if (!value) return null
+  const token = normalizeToken(value)
+  if (token === "ANNUALLY" || token === "YEARLY") return "ANNUAL"
+  return (FREQUENCIES as readonly string[]).includes(token) ? (token as Frequency) : null
+}
+
+export function parseAnchorType(value: string | null | undefined): AnchorType | null {
+  if (!value) return null
+  const token = normalizeToken(value)
+  return (ANCHOR_TYPES as readonly string[]).includes(token) ? (token as AnchorType) : null
+}
+
+export const isRecurring = (frequency: Frequency) => frequency !== "ONE_TIME" && frequency !== "BEFORE_EACH_USE"
+
+export const requiresInterval = (frequency: string | null | undefined) => (frequency ?? "").startsWith("EVERY_N_")
+
+export function stepFor(frequency: Frequency, interval?: number | null): Step | null {
+  const every = interval && interval > 0 ? Math.floor(interval) : null
+  switch (frequency) {
+    case "DAILY":
+      return { unit: "day", amount: 1 }
+    case "WEEKLY":
+      return { unit: "day", amount: 7 }
+    case "MONTHLY":
+      return { unit: "month", amount: 1 }
+    case "QUARTERLY":
+      return { unit: "month", amount: 3 }
+    case "ANNUAL":
+      return { unit: "month", amount: 12 }
+    case "EVERY_N_DAYS":
+      return every ? { unit: "day", amount: every } : null
+    case "EVERY_N_WEEKS":
+      return every ? { unit: "day", amount: every * 7 } : null
+    case "EVERY_N_MONTHS":
+      return every ? { unit: "month", amount: every } : null
+    default:
+      return null
+  }
+}
+
+const toUtcDay = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+// Month steps are always computed from the origin so that a series anchored on
+// the 31st lands on the last day of shorter months without drifting to the 28th.
+const addSteps = (origin: Date, step: Step, count: number): Date => {
+  if (step.unit === "day") {
+    return new Date(origin.getTime() + step.amount * count * DAY_MS)
+  }
+  const totalMonths = origin.getUTCMonth() + step.amount * count
+  const year = origin.getUTCFullYear() + Math.floor(totalMonths / 12)
+  const month = ((totalMonths % 12) + 12) % 12
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(origin.getUTCDate(), lastDay)))
+}
+
+const alignToPeriod = (date: Date, frequency: Frequency): Date => {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  switch (frequency) {
+    case "WEEKLY":
+    case "EVERY_N_WEEKS": {
+      const offset = (date.getUTCDay() + 6) % 7
+      return new Date(date.getTime() - offset * DAY_MS)
+    }
+    case "MONTHLY":
+    case "EVERY_N_MONTHS":
+      return new Date(Date.UTC(year, month, 1))
+    case "QUARTERLY":
+      return new Date(Date.UTC(year, month - (month % 3), 1))
+    case "ANNUAL":
+      return new Date(Date.UTC(year, 0, 1))
+    default:
+      return date
+  }
+}
+
+/**
+ * Where the series starts and whether that start is itself an occurrence.
+ * Event anchors (upload, issue, first completion) schedule the first cycle one
+ * step after the event; calendar and custom anchors start on the date itself.
+ */
+const seriesOrigin = (
+  rule: RecurrenceRule,
+  completions: Date[],
+  today: Date,
+): { origin: Date; includeOrigin: boolean } => {
+  const anchorDate = toUtcDay(rule.anchorDate)
+  const dueDate = toUtcDay(rule.dueDate)
+  switch (rule.anchorType) {
+    case "FIRST_COMPLETION":
+      if (completions.length > 0) return { origin: completions[0], includeOrigin: false }
+      break
+    case "UPLOAD_DATE":
+    case "ISSUE_DATE":
+      if (anchorDate) return { origin: anchorDate, includeOrigin: false }
+      break
+    case "CUSTOM_DATE":
+      if (anchorDate) return { origin: anchorDate, includeOrigin: true }
+      break
+    case "CALENDAR":
+      return { origin: alignToPeriod(anchorDate ?? dueDate ?? today, rule.frequency), includeOrigin: true }
+    default:
+      break
+  }
+  return { origin: dueDate ?? anchorDate ?? today, includeOrigin: true }
+}
+
+const firstAfter = (origin: Date, step: Step, includeOrigin: boolean, threshold: Date, inclusive: boolean) => {
+  const approxDays = step.unit === "day" ? step.amount : step.amount * 31
+  const diffDays = (threshold.getTime() - origin.getTime()) / DAY_MS
+  let index = Math.max(includeOrigin ? 0 : 1, Math.floor(diffDays / approxDays) - 1)
+  let candidate = addSteps(origin, step, index)
+  while (inclusive ? candidate < threshold : candidate <= threshold) {
+    index += 1
+    candidate = addSteps(origin, step, index)
+  }
+  return index
+}
+
+export function completionHistory(requirement: RequirementLike): Date[] {
+  const attributes = requirement.attributes ?? {}
+  const raw: unknown[] = Array.isArray(attributes.completions) ? attributes.completions : []
+  const dates = raw
+    .map((entry) =>
+      typeof entry === "string"
+        ? entry
+        : entry && typeof entry === "object"
+          ? (entry as Record<string, unknown>).completed_at
+          : undefined,
+    )
+    .concat(attributes.completed_at)
+    .map((value) => (typeof value === "string" ? toUtcDay(value) : null))
+    .filter((value): value is Date => value !== null)
+  return dates
+    .sort((a, b) => a.getTime() - b.getTime())
+    .filter((date, index, all) => index === 0 || date.getTime() !== all[index - 1].getTime())
+}
+
+export function ruleFromRequirement(requirement: RequirementLike): RecurrenceRule | null {
+  const frequency = parseFrequency(requirement.frequency)
+  if (!frequency) return null
+  const anchorValue = requirement.anchor_value ?? {}
+  const rawInterval = anchorValue.interval ?? anchorValue.days ?? anchorValue.weeks ?? anchorValue.months
+  const interval = typeof rawInterval === "number" ? rawInterval : typeof rawInterval === "string" ? Number(rawInterval) : null
+  return {
+    frequency,
+    anchorType: parseAnchorType(requirement.anchor_type),
+    anchorDate: typeof anchorValue.date === "string" ? anchorValue.date : null,
+    interval: interval && !Number.isNaN(interval) ? interval : null,
+    dueDate: requirement.due_date ?? null,
+  }
+}
+
+type OccurrenceOptions = {
+  count?: number
+  /** Stop at the last occurrence on or before this day; the first one is always returned. */
+  until?: Date
+  completions?: Date[]
+  today?: Date
+}
+
+/**
+ * The next `count` due dates for a rule: the pending due date first (even when
+ * it is overdue), followed by the anchored series after it.
+ */
+export function upcomingOccurrences(
+  rule: RecurrenceRule,
+  { count = 5, until, completions = [], today = new Date() }: OccurrenceOptions = {},
+): Date[] {
+  const todayUtc = toUtcDay(today) ?? today
+  const dueDate = toUtcDay(rule.dueDate)
+
+  if (rule.frequency === "BEFORE_EACH_USE") return []
+  if (rule.frequency === "ONE_TIME") {
+    const single = dueDate ?? toUtcDay(rule.anchorDate)
+    return single ? [single] : []
+  }
+
+  const step = stepFor(rule.frequency, rule.interval)
+  if (!step) return dueDate ? [dueDate] : []
+  if (rule.anchorType === "FIRST_COMPLETION" && completions.length === 0 && !dueDate) return []
+
+  const { origin, includeOrigin } = seriesOrigin(rule, completions, todayUtc)
+  const results: Date[] = dueDate ? [dueDate] : []
+  const lastCompletion = completions[completions.length - 1]
+  const threshold = dueDate ?? lastCompletion ?? todayUtc
+  let index = firstAfter(origin, step, includeOrigin, threshold, !dueDate && !lastCompletion)
+  while (results.length < count) {
+    const next = addSteps(origin, step, index)
+    if (until && results.length > 0 && next > until) break
+    results.push(next)
+    index += 1
+  }
+  return results.slice(0, count)
+}
+
+/**
+ * The due date that follows a completion: the first occurrence after both the
+ * due date being satisfied and the completion itself, so a late completion
+ * skips the cycles that were missed. Returns null for non-recurring rules.
+ */
+export function nextDueAfterCompletion(
+  rule: RecurrenceRule,
+  completedAt: string | Date,
+  completions: Date[] = [],
+): Date | null {
+  if (!isRecurring(rule.frequency)) return null
+  const step = stepFor(rule.frequency, rule.interval)
+  const completedDay = toUtcDay(completedAt)
+  if (!step || !completedDay) return null
+
+  const history = completions.some((date) => date.getTime() === completedDay.getTime())
+    ? completions
+    : [...completions, completedDay].sort((a, b) => a.getTime() - b.getTime())
+  const { origin, includeOrigin } = seriesOrigin(rule, history, completedDay)
+  const dueDate = toUtcDay(rule.dueDate)
+  const threshold = dueDate && dueDate > completedDay ? dueDate : completedDay
+  return addSteps(origin, step, firstAfter(origin, step, includeOrigin, threshold, false))
+}
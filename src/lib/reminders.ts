@@ -0,0 +1,64 @@
+export const REMINDER_LEAD_DAYS = [30, 7, 1] as const
+
+export const REMINDER_CHANNELS = ["email", "sms"] as const
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number]
+
+export type ReminderSubjectType = "requirement" | "permit" | "training"
+
+export type ReminderStatus = "scheduled" | "sent" | "cancelled"
+
+export type Reminder = {
+  id: string
+  subject_type: ReminderSubjectType
+  subject_id: string
+  /** The due or expiry date the reminder counts down to. */
+  due_date: string
+  lead_days: number
+  send_at: string
+  channel: ReminderChannel
+  recipients: string[]
+  status: ReminderStatus
+  created_at: string
+  created_by?: string | null
+}
+
+export type ScheduleRemindersPayload = {
+  subject_type: ReminderSubjectType
+  subject_id: string
+  lead_days: number[]
+  channel: ReminderChannel
+  recipients: string[]
+}
+
+/** The item a reminder is attached to, as shown in the reminder dialog. */
+export type ReminderSubject = {
+  type: ReminderSubjectType
+  id: string
+  title: string
+  dueDate?: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Reminders go out at 14:00 UTC, which is morning across US time zones.
+const SEND_HOUR_UTC = 14
+
+export function reminderSendAt(dueDate: string, leadDays: number): Date | null {
+  const due = new Date(dueDate)
+  if (Number.isNaN(due.getTime())) return null
+  const day = Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate()) - leadDays * DAY_MS
+  return new Date(day + SEND_HOUR_UTC * 60 * 60 * 1000)
+}
+
+export const parseRecipients = (value: string) =>
+  value
+    .split(/[,;\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,}$/
+
+export const isValidRecipient = (value: string, channel: ReminderChannel) =>
+  channel === "email" ? EMAIL_PATTERN.test(value) : PHONE_PATTERN.test(value)
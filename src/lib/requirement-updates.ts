@@ -0,0 +1,132 @@
+/**
+ * Optimistic requirement updates. Each helper predicts what the backend will
+ * return for a mutation so the row can change before the request settles;
+ * the server copy replaces the prediction once it arrives.
+ */
+
+import type { Requirement, RequirementsResponse } from "@/app/requirements/requirements-client"
+import { completionHistory, nextDueAfterCompletion, ruleFromRequirement } from "@/lib/recurrence"
+
+export type RequirementListParams = Record<string, string | number | boolean | undefined> | undefined
+
+export type TriagePayload = {
+  requirement_ids: string[]
+  frequency?: string
+  anchor_type?: string
+  anchor_value?: Record<string, unknown>
+  due_date?: string
+  assignee?: string
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : {}
+
+const splitTokens = (value: unknown) =>
+  typeof value === "string"
+    ? value
+        .split(",")
+        .map((token) => token.trim().toUpperCase())
+        .filter(Boolean)
+    : []
+
+export const isArchivedRequirement = (requirement: Requirement) =>
+  requirement.archive_state === "archived" || requirement.status === "ARCHIVED"
+
+/** Recurring requirements roll forward to their next cycle; everything else closes. */
+export function applyCompletion(requirement: Requirement, completedBy: string | null, now = new Date()): Requirement {
+  const completedAt = now.toISOString()
+  const attributes = { ...(requirement.attributes ?? {}) }
+  const history = Array.isArray(attributes.completions) ? [...(attributes.completions as unknown[])] : []
+  history.push({ completed_at: completedAt, completed_by: completedBy })
+  attributes.completions = history
+  attributes.completed_at = completedAt
+  const updated = { ...requirement, attributes }
+
+  const rule = ruleFromRequirement(updated)
+  const nextDue = rule ? nextDueAfterCompletion(rule, completedAt, completionHistory(updated)) : null
+  if (nextDue) {
+    return { ...updated, due_date: nextDue.toISOString(), next_due: nextDue.toISOString(), status: "OPEN" }
+  }
+  return { ...updated, next_due: null, status: "DONE" }
+}
+
+export function applyArchive(
+  requirement: Requirement,
+  reason: string,
+  requestedBy: string | null,
+  now = new Date(),
+): Requirement {
+  return {
+    ...requirement,
+    archive_state: "archived",
+    attributes: {
+      ...(requirement.attributes ?? {}),
+      archive: { state: "archived", reason, requested_at: now.toISOString(), requested_by: requestedBy },
+    },
+  }
+}
+
+export function applyTriage(requirement: Requirement, payload: TriagePayload, now = new Date()): Requirement {
+  const attributes = { ...(requirement.attributes ?? {}) }
+  const triage: Record<string, unknown> = { ...asRecord(attributes.triage), resolved_at: now.toISOString() }
+  if (payload.assignee) {
+    attributes.assignee = payload.assignee
+    triage.assignee = payload.assignee
+  }
+  attributes.triage = triage
+  // Only active members can be picked, so the new assignee is active until the backend says otherwise.
+  const assignee = payload.assignee
+    ? { email: payload.assignee, name: requirement.assignee?.email === payload.assignee ? requirement.assignee.name : null, active: true }
+    : requirement.assignee
+  return {
+    ...requirement,
+    assignee,
+    frequency: payload.frequency ?? requirement.frequency,
+    anchor_type: payload.anchor_type ?? requirement.anchor_type,
+    anchor_value: payload.anchor_value ?? requirement.anchor_value,
+    due_date: payload.due_date ?? requirement.due_date,
+    status: "OPEN",
+    attributes,
+  }
+}
+
+/**
+ * Whether a requirement still belongs in a list fetched with `params`. Only
+ * the archive, status and document filters are checked, as nothing edits a
+ * category: due-date windows depend on the backend's notion of "today" and,
+ * like the search, sort order and "assigned to me" filter, are left to
+ * revalidation.
+ */
+export function matchesListParams(requirement: Requirement, params: RequirementListParams) {
+  const archivedOnly = params?.archived === "true" || params?.archived === true
+  if (archivedOnly !== isArchivedRequirement(requirement)) return false
+  const documentIds = typeof params?.document_id === "string" ? params.document_id.split(",") : []
+  if (documentIds.length > 0 && !documentIds.includes(requirement.document_id ?? "")) return false
+  const statusTokens = splitTokens(params?.status)
+  return statusTokens.length === 0 || statusTokens.includes(requirement.status)
+}
+
+/**
+ * Swaps updated requirements into a cached page. With `params`, rows that no
+ * longer match the page's filters are dropped and the total adjusted;
+ * without, rows are only replaced.
+ */
+export function mergeIntoPage(
+  page: RequirementsResponse,
+  updated: Requirement[],
+  params?: RequirementListParams,
+): RequirementsResponse {
+  const byId = new Map(updated.map((item) => [item.id, item]))
+  if (!page.items.some((item) => byId.has(item.id))) return page
+  const replaced = page.items.map((item) => byId.get(item.id) ?? item)
+  if (params === undefined) {
+    return { ...page, items: replaced }
+  }
+  const items = replaced.filter((item) => !byId.has(item.id) || matchesListParams(item, params))
+  const removed = replaced.length - items.length
+  return {
+    ...page,
+    items,
+    pagination: { ...page.pagination, total: Math.max(0, page.pagination.total - removed) },
+  }
+}
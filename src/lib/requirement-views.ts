@@ -0,0 +1,52 @@
+/**
+ * Saved views of the requirements list. A view is a named copy of the page's
+ * URL query (filters, search, sort and page size), so applying one is just
+ * navigating to it and anything the URL can express is saved along with it.
+ */
+
+import { apiFetch } from "@/lib/api/client"
+import { orgHeaders } from "@/lib/org"
+
+/** `personal` views are only listed for their owner; `org` views for everyone in the org. */
+export type ViewVisibility = "personal" | "org"
+
+export type RequirementView = {
+  id: string
+  name: string
+  /** The requirements page query without `page`, e.g. `due=overdue&status=PENDING_REVIEW`. */
+  query: string
+  visibility: ViewVisibility
+  /** The signed-in user's default, applied when they open the list without a query. */
+  is_default: boolean
+  owner_email: string
+  created_at: string
+}
+
+export type RequirementViewPayload = Pick<RequirementView, "name" | "query" | "visibility" | "is_default">
+
+export const VIEWS_PATH = "/requirement-views"
+
+export const createView = (payload: RequirementViewPayload, orgId: string | null) =>
+  apiFetch<RequirementView>(VIEWS_PATH, { method: "POST", body: JSON.stringify(payload), headers: orgHeaders(orgId) })
+
+/** Only the owner may rename, re-scope or re-query a view; anyone who sees it may make it their default. */
+export const updateView = (id: string, changes: Partial<RequirementViewPayload>, orgId: string | null) =>
+  apiFetch<RequirementView>(`${VIEWS_PATH}/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+    headers: orgHeaders(orgId),
+  })
+
+export const deleteView = (id: string, orgId: string | null) =>
+  apiFetch<void>(`${VIEWS_PATH}/${encodeURIComponent(id)}`, { method: "DELETE", headers: orgHeaders(orgId) })
+
+/**
+ * The part of a requirements URL a view saves. Params are sorted so the same
+ * filters compare equal however they were put together.
+ */
+export function viewQueryOf(params: URLSearchParams | null): string {
+  const query = new URLSearchParams(params ? params.toString() : "")
+  query.delete("page")
+  query.sort()
+  return query.toString()
+}
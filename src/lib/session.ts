@@ -0,0 +1,65 @@
+/**
+ * Session expiry. Any API call answered with 401 reports it here; the
+ * SessionProvider reacts once for the whole page by sending the user to the
+ * login page with the current location, so the magic link brings them back
+ * to where they were.
+ */
+
+export const LOGIN_PATH = "/login"
+export const RETURN_TO_PARAM = "next"
+export const SESSION_EXPIRED_EVENT = "compliance-copilot:session-expired"
+
+// Pages that must never be a post-login destination: they would loop.
+const AUTH_PATHS = [LOGIN_PATH, "/auth"]
+
+/** The login and magic-link pages, which are used without a session. */
+export const isAuthPath = (pathname: string) =>
+  AUTH_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))
+// Only used to resolve relative paths; never navigated to.
+const PLACEHOLDER_ORIGIN = "http://app.invalid"
+
+const hasControlCharacters = (value: string) =>
+  Array.from(value).some((char) => char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f)
+
+/**
+ * Returns `value` when it is a path on this site, otherwise `fallback`.
+ * Rejects absolute and protocol-relative URLs (`//evil.example`, `/\evil.example`),
+ * anything with control characters, and the auth pages themselves.
+ */
+export function safeRedirectPath(value: unknown, fallback = "/"): string {
+  if (typeof value !== "string") return fallback
+  const candidate = value.trim()
+  if (!candidate.startsWith("/") || candidate.startsWith("//") || candidate.includes("\\")) return fallback
+  if (hasControlCharacters(candidate)) return fallback
+
+  let url: URL
+  try {
+    url = new URL(candidate, PLACEHOLDER_ORIGIN)
+  } catch {
+    return fallback
+  }
+  if (url.origin !== PLACEHOLDER_ORIGIN) return fallback
+  if (isAuthPath(url.pathname)) return fallback
+  return `${url.pathname}${url.search}${url.hash}`
+}
+
+/** The login page, remembering `returnTo` when it is worth returning to. */
+export function loginPath(returnTo?: string | null) {
+  const destination = safeRedirectPath(returnTo, "/")
+  if (destination === "/") return LOGIN_PATH
+  return `${LOGIN_PATH}?${new URLSearchParams({ [RETURN_TO_PARAM]: destination }).toString()}`
+}
+
+// Requests still in flight while signing out get 401s that are not an expiry.
+let signedOut = false
+
+/** Stops reporting expiry for the rest of this page load, which is about to end. */
+export function markSignedOut() {
+  signedOut = true
+}
+
+/** Tells the SessionProvider that the backend no longer accepts this session. */
+export function reportSessionExpired() {
+  if (typeof window === "undefined" || signedOut) return
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT))
+}
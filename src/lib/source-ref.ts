@@ -0,0 +1,110 @@
+/**
+ * Where an extracted requirement came from inside its PDF. Extraction writes
+ * free-form refs such as "Page 11", "p. 4", "Section 4.3" or "Section Electric
+ * Tools, p. 10"; anything we cannot read is kept as a section label and
+ * searched for in the text.
+ */
+export type SourceLocation = {
+  page: number | null
+  section: string | null
+}
+
+/** One matched slice of a text item: `items[item].slice(start, end)`, in UTF-16 units like any JS string. */
+export type TextRange = {
+  item: number
+  start: number
+  end: number
+}
+
+const PAGE_PATTERN = /\b(?:pages?|pp?|pg)\.?\s*(\d+)(?:\s*[-–]\s*\d+)?/i
+const SECTION_PATTERN = /^(?:section|sec\.?|§)\s*/i
+
+export function parseSourceRef(ref: string | null | undefined): SourceLocation {
+  const raw = (ref ?? "").trim()
+  if (!raw) return { page: null, section: null }
+
+  const pageMatch = raw.match(PAGE_PATTERN)
+  const page = pageMatch ? Number.parseInt(pageMatch[1], 10) : null
+  const section = raw
+    .replace(PAGE_PATTERN, "")
+    .replace(SECTION_PATTERN, "")
+    .replace(/^[\s,:;–—-]+|[\s,:;–—-]+$/g, "")
+  return { page: page && page > 0 ? page : null, section: section || null }
+}
+
+// PDF text comes back with stray spaces inside words and hyphenated line
+// breaks, so matching only compares letters and digits.
+const isMatchable = (char: string) => /[\p{L}\p{N}]/u.test(char)
+
+// Folds one code point to the characters it is matched by: compatibility
+// forms are expanded ("ﬁ" becomes "fi") and accents dropped, so precomposed
+// and combining spellings of a letter compare equal. Folding per code point
+// keeps every matched character traceable to its place in the original text.
+const fold = (char: string) => Array.from(char.normalize("NFKD").toLowerCase()).filter(isMatchable)
+
+const normalize = (text: string) => Array.from(text).flatMap(fold).join("")
+
+/** Excerpts longer than this are matched on their opening words only. */
+const PREFIX_LENGTH = 80
+
+/**
+ * Finds a passage across a page's text items. Falls back to the opening of the
+ * passage when the full excerpt was trimmed or reworded by extraction.
+ */
+export function findPassage(items: string[], passage: string): TextRange[] | null {
+  const needle = normalize(passage)
+  if (!needle) return null
+
+  const chars: string[] = []
+  const origins: TextRange[] = []
+  items.forEach((text, item) => {
+    let start = 0
+    for (const char of text) {
+      const end = start + char.length
+      fold(char).forEach((folded) => {
+        chars.push(folded)
+        origins.push({ item, start, end })
+      })
+      start = end
+    }
+  })
+  const haystack = chars.join("")
+
+  let length = needle.length
+  let index = haystack.indexOf(needle)
+  if (index === -1 && needle.length > PREFIX_LENGTH) {
+    length = PREFIX_LENGTH
+    index = haystack.indexOf(needle.slice(0, PREFIX_LENGTH))
+  }
+  if (index === -1) return null
+
+  const ranges: TextRange[] = []
+  for (let position = index; position < index + length; position += 1) {
+    const { item, start, end } = origins[position]
+    const last = ranges[ranges.length - 1]
+    if (last && last.item === item) {
+      last.end = end
+    } else {
+      ranges.push({ item, start, end })
+    }
+  }
+  return ranges
+}
+
+const DOT_LEADER = /^[.\s·…]{3,}$/
+
+/**
+ * A section heading is a text item that reads exactly like the label. Items
+ * followed by dot leaders are table-of-contents lines, not the section itself.
+ */
+export function findHeading(items: string[], section: string): number | null {
+  const label = normalize(section)
+  if (!label) return null
+  for (let index = 0; index < items.length; index += 1) {
+    if (normalize(items[index]) !== label) continue
+    const next = items.slice(index + 1).find((text) => text.trim().length > 0)
+    if (next && DOT_LEADER.test(next.trim())) continue
+    return index
+  }
+  return null
+}
@@ -0,0 +1,123 @@
+/**
+ * Upload queue persistence. Item metadata lives in sessionStorage next to the
+ * rest of the tab's state; the files themselves go to IndexedDB, the only
+ * browser store that keeps a `File` across a reload, so queued and failed
+ * uploads can still be sent or retried afterwards.
+ */
+
+import type { FieldError } from "@/lib/api/errors"
+
+/** `paused` uploads were stopped by an expired session and go back in the queue once the user has signed in. */
+export type UploadStatus =
+  | "pending"
+  | "queued"
+  | "paused"
+  | "uploading"
+  | "processing"
+  | "ready"
+  | "failed"
+  | "cancelled"
+
+export type UploadItem = {
+  id: string
+  name: string
+  size: number
+  trade: string
+  status: UploadStatus
+  /** Upload progress from 0 to 1; only meaningful while uploading. */
+  progress: number
+  documentId: string | null
+  error: string | null
+  /** Per-field problems from a rejected upload, shown next to the file name and trade. */
+  fieldErrors?: FieldError[]
+  /** Org the file was added in; it is uploaded there even if the user switches org meanwhile. */
+  orgId?: string | null
+}
+
+export const MAX_PARALLEL_UPLOADS = 3
+
+export const RETRYABLE_STATUSES: UploadStatus[] = ["failed", "cancelled"]
+export const CANCELLABLE_STATUSES: UploadStatus[] = ["pending", "queued", "paused", "uploading"]
+
+const QUEUE_STORAGE_KEY = "compliance-copilot-upload-queue"
+const DB_NAME = "compliance-copilot-uploads"
+const STORE_NAME = "files"
+
+export const isPdf = (file: File) => file.type === "application/pdf" || /\.pdf$/i.test(file.name)
+
+export const createUploadItem = (file: File, trade: string, orgId: string | null): UploadItem => ({
+  id: typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`,
+  name: file.name,
+  size: file.size,
+  trade,
+  status: "pending",
+  progress: 0,
+  documentId: null,
+  error: null,
+  orgId,
+})
+
+/**
+ * An upload cut off by the reload starts over from the stored file, and so
+ * does one paused for sign-in: the page is loaded again once that is done.
+ */
+export function readQueue(): UploadItem[] {
+  if (typeof window === "undefined") return []
+  try {
+    const raw = window.sessionStorage.getItem(QUEUE_STORAGE_KEY)
+    const items = raw ? (JSON.parse(raw) as UploadItem[]) : []
+    return items.map((item) =>
+      item.status === "uploading" || item.status === "paused" ? { ...item, status: "queued", progress: 0 } : item,
+    )
+  } catch {
+    return []
+  }
+}
+
+export function writeQueue(items: UploadItem[]) {
+  if (typeof window === "undefined") return
+  if (items.length === 0) {
+    window.sessionStorage.removeItem(QUEUE_STORAGE_KEY)
+  } else {
+    window.sessionStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(items))
+  }
+}
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export const saveQueuedFile = (id: string, file: File) => withStore("readwrite", (store) => store.put(file, id))
+
+export const loadQueuedFile = (id: string) =>
+  withStore<File | undefined>("readonly", (store) => store.get(id) as IDBRequest<File | undefined>)
+
+export const deleteQueuedFile = (id: string) => withStore("readwrite", (store) => store.delete(id))
+
+/**
+ * Deletes stored files the queue no longer lists. The list dies with the tab's
+ * sessionStorage while IndexedDB outlives it, so without this, files queued in
+ * a closed tab would stay on the device. Another open tab's files only lose
+ * their reload copy; that tab still holds them in memory.
+ */
+export async function pruneQueuedFiles(isQueued: (id: string) => boolean) {
+  const keys = await withStore<IDBValidKey[]>("readonly", (store) => store.getAllKeys())
+  await Promise.all(keys.map(String).filter((id) => !isQueued(id)).map((id) => deleteQueuedFile(id)))
+}
@@ -0,0 +1,43 @@
+import { NextResponse, type NextRequest } from "next/server"
+
+import { SESSION_COOKIE_NAME, USE_MOCKS } from "@/lib/env"
+import { LOCALE_COOKIE, LOCALE_COOKIE_MAX_AGE_SECONDS, isSupportedLocale, negotiateLocale } from "@/lib/locale"
+import { isAuthPath, loginPath } from "@/lib/session"
+
+/**
+ * Runs before every page render. Visitors without a session cookie are sent
+ * to the login page, which brings them back here after the magic link; an
+ * expired cookie still reaches the page and is caught by SessionProvider.
+ * The locale cookie is negotiated from `Accept-Language` on first visit and
+ * added to the request as well, so the root layout renders in that language.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+
+  // Mock mode has no backend to issue a session cookie.
+  if (!USE_MOCKS && !isAuthPath(pathname) && !request.cookies.has(SESSION_COOKIE_NAME)) {
+    return NextResponse.redirect(new URL(loginPath(`${pathname}${search}`), request.url))
+  }
+
+  const savedLocale = request.cookies.get(LOCALE_COOKIE)?.value
+  if (isSupportedLocale(savedLocale)) {
+    return NextResponse.next()
+  }
+
+  const locale = negotiateLocale(request.headers.get("accept-language"))
+  request.cookies.set(LOCALE_COOKIE, locale)
+  const response = NextResponse.next({ request: { headers: request.headers } })
+  response.cookies.set(LOCALE_COOKIE, locale, {
+    path: "/",
+    maxAge: LOCALE_COOKIE_MAX_AGE_SECONDS,
+    sameSite: "lax",
+  })
+  return response
+}
+
+export const config = {
+  // Pages and route handlers only: skip Next internals and files served from
+  // public/ (anything with an extension, e.g. /file.svg or /samples/*.pdf).
+  // The calendar feed is the one route with an extension and still needs a session.
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\..*).*)", "/calendar/compliance.ics"],
+}